@@ -2,13 +2,22 @@
  * Asset Picker Panel
  *
  * Displays project assets that can be dragged/clicked to use in the editor.
- * Integrates with useProjectAssets to show game assets.
+ * Integrates with useProjectAssets to show game assets. Frames of sprite atlases are
+ * listed individually, selected as `atlas#frameName`.
  */
 
 import React from "react";
 import { ScrollArea } from "@/ui/scroll-area";
 import { Input } from "@/ui/input";
 import { Search } from "lucide-react";
+import { AtlasFrameEntry, ImageAtlasMap, getAtlasFrameEntries } from "../utils/atlasUtils";
+import { resolveImageSrc } from "../utils/imageUtils";
+
+/** Asset type of atlas frames in the list */
+const ATLAS_FRAME_ASSET_TYPE = "atlasFrame";
+
+/** Size of asset thumbnails, in pixels */
+const THUMBNAIL_SIZE = 64;
 
 export interface AssetPickerProps {
   /** List of assets to display */
@@ -29,8 +38,38 @@ export interface AssetPickerProps {
 
   /** Title for the panel */
   title?: string;
+
+  /** Sprite atlases whose frames are listed (usually `mode.context.imageAtlases`) */
+  atlases?: ImageAtlasMap;
+
+  /** Image URL mapping for atlas images stored as asset keys */
+  imageUrls?: Map<string, string>;
 }
 
+/**
+ * Thumbnail of one atlas frame, cut out of the atlas image
+ */
+const AtlasFrameThumbnail: React.FC<{ entry: AtlasFrameEntry; src: string }> = ({ entry, src }) => {
+  const { x, y, width, height } = entry.frame;
+  const scale = Math.min(THUMBNAIL_SIZE / width, THUMBNAIL_SIZE / height);
+  return (
+    <div
+      className="relative overflow-hidden"
+      style={{ width: width * scale, height: height * scale }}
+    >
+      <img
+        src={src}
+        alt={entry.name}
+        className="absolute left-0 top-0 max-w-none"
+        style={{
+          transform: `scale(${scale}) translate(${-x}px, ${-y}px)`,
+          transformOrigin: "0 0",
+        }}
+      />
+    </div>
+  );
+};
+
 /**
  * Asset Picker component that displays available assets
  */
@@ -40,19 +79,44 @@ export const AssetPicker: React.FC<AssetPickerProps> = ({
   renderAsset,
   className = "",
   title = "Assets",
+  atlases,
+  imageUrls,
 }) => {
   const [searchQuery, setSearchQuery] = React.useState("");
 
-  // Filter assets based on search query
+  // Atlas frames by reference, listed after the assets
+  const atlasFrames = React.useMemo(
+    () => new Map(getAtlasFrameEntries(atlases).map((entry) => [entry.ref, entry])),
+    [atlases]
+  );
+  const allAssets = React.useMemo(
+    () => [
+      ...assets,
+      ...Array.from(atlasFrames.values(), (entry) => ({
+        name: entry.name,
+        path: entry.ref,
+        type: ATLAS_FRAME_ASSET_TYPE,
+      })),
+    ],
+    [assets, atlasFrames]
+  );
+
+  // Filter assets based on search query (frames also match their atlas name)
   const filteredAssets = React.useMemo(() => {
-    if (!searchQuery) return assets;
+    if (!searchQuery) return allAssets;
     const query = searchQuery.toLowerCase();
-    return assets.filter((asset) => asset.name.toLowerCase().includes(query));
-  }, [assets, searchQuery]);
+    return allAssets.filter(
+      (asset) =>
+        asset.name.toLowerCase().includes(query) ||
+        (asset.type === ATLAS_FRAME_ASSET_TYPE && asset.path.toLowerCase().includes(query))
+    );
+  }, [allAssets, searchQuery]);
 
   // Default asset renderer
   const defaultRenderAsset = React.useCallback(
     (asset: { name: string; path: string; type?: string }) => {
+      const atlasFrame =
+        asset.type === ATLAS_FRAME_ASSET_TYPE ? atlasFrames.get(asset.path) : undefined;
       const isImage = asset.name.match(/\.(jpg|jpeg|png|gif|svg|webp)$/i);
 
       return (
@@ -62,7 +126,14 @@ export const AssetPicker: React.FC<AssetPickerProps> = ({
           onClick={() => onAssetSelect?.(asset.path)}
           title={asset.name}
         >
-          {isImage ? (
+          {atlasFrame ? (
+            <div className="w-16 h-16 flex items-center justify-center bg-muted rounded mb-1">
+              <AtlasFrameThumbnail
+                entry={atlasFrame}
+                src={resolveImageSrc(atlasFrame.image, imageUrls)}
+              />
+            </div>
+          ) : isImage ? (
             <div className="w-16 h-16 flex items-center justify-center bg-muted rounded mb-1">
               <img
                 src={`asset:///${asset.path}`}
@@ -86,7 +157,7 @@ export const AssetPicker: React.FC<AssetPickerProps> = ({
         </div>
       );
     },
-    [onAssetSelect]
+    [onAssetSelect, atlasFrames, imageUrls]
   );
 
   const assetRenderer = renderAsset || defaultRenderAsset;
@@ -5,13 +5,34 @@
  * Handles element rendering and stage interactions.
  */
 
-import React, { useCallback, useRef, useState } from "react";
+import React, { useCallback, useLayoutEffect, useRef, useState } from "react";
 import { Stage, Layer, Rect, Image as KonvaImage } from "react-konva";
+import type Konva from "konva";
 import { SnapGuides } from "./SnapGuides";
 import { CentralizedTransformer } from "./CentralizedTransformer";
-import { EditorElement, EditorMode, ElementRenderer } from "../types";
-import { SnapGuide, getSnappingPosition } from "../utils/snapping";
+import { PenToolOverlay } from "./PenToolOverlay";
+import { TextEditOverlay } from "./TextEditOverlay";
+import {
+  EditorElement,
+  EditorMode,
+  EditorTool,
+  ElementUpdate,
+  PathContour,
+  TextElementProps,
+} from "../types";
+import {
+  SnapGuide,
+  SelectionRect,
+  getSnappingPosition,
+  getElementsInRect,
+  getRectFromPoints,
+} from "../utils/snapping";
+import { getKonvaFill } from "../utils/fillUtils";
 import { ElementRegistry } from "../core/ElementRegistry";
+import { ElementStyleGroup } from "../elements/ElementStyleGroup";
+import { MaskGroup } from "../elements/MaskGroup";
+import { getMaskRuns, MaskRun } from "../utils/maskUtils";
+import { useFontLoader } from "../core/useFontLoader";
 
 export interface CanvasProps {
   /** Canvas size */
@@ -23,6 +44,9 @@ export interface CanvasProps {
   /** Currently selected element ID */
   selectedElementId: string | null;
 
+  /** All selected element IDs (defaults to the single selectedElementId) */
+  selectedElementIds?: string[];
+
   /** Element registry for looking up renderers */
   registry: ElementRegistry;
 
@@ -47,9 +71,33 @@ export interface CanvasProps {
   /** Callback when an element is selected */
   onSelectElement: (id: string | null) => void;
 
+  /** Callback when an element is shift/ctrl-clicked to add it to or remove it from the selection */
+  onToggleElementSelection?: (id: string) => void;
+
+  /**
+   * Callback when several elements are selected at once by dragging a marquee on empty space.
+   * Marquee selection is disabled when omitted.
+   */
+  onSelectElements?: (ids: string[]) => void;
+
   /** Callback when an element is transformed */
   onTransformElement: (id: string, updates: Partial<EditorElement>) => void;
 
+  /** Callback when several selected elements are transformed together */
+  onTransformElements?: (updates: ElementUpdate[]) => void;
+
+  /** Callback when an element measures its own size from its content (e.g., auto-height text) */
+  onAutoSizeElement?: (id: string, size: { width: number; height: number }) => void;
+
+  /** Active interaction tool (defaults to "select") */
+  activeTool?: EditorTool;
+
+  /** Callback when a path has been drawn with the pen tool (canvas coordinates) */
+  onDrawPath?: (contour: PathContour) => void;
+
+  /** Callback when the canvas asks to switch tools (e.g., Escape cancels the pen tool) */
+  onToolChange?: (tool: EditorTool) => void;
+
   /** Optional custom style */
   style?: React.CSSProperties;
 
@@ -57,6 +105,17 @@ export interface CanvasProps {
   className?: string;
 }
 
+/**
+ * Whether a pointer event should extend the selection instead of replacing it
+ */
+const isAdditiveSelection = (e?: { evt?: Event }): boolean => {
+  const evt = e?.evt as MouseEvent | TouchEvent | undefined;
+  return !!evt && (evt.shiftKey || evt.ctrlKey || evt.metaKey);
+};
+
+/** Minimum drag distance (canvas pixels) before a press on empty space counts as a marquee */
+const MARQUEE_THRESHOLD = 3;
+
 /**
  * Canvas component - renders the Konva stage with all elements
  */
@@ -64,6 +123,7 @@ export const Canvas: React.FC<CanvasProps> = ({
   canvasSize,
   elements,
   selectedElementId,
+  selectedElementIds,
   registry,
   mode,
   readonly = false,
@@ -72,13 +132,41 @@ export const Canvas: React.FC<CanvasProps> = ({
   backgroundImageUrl,
   hideElements = false,
   onSelectElement,
+  onToggleElementSelection,
+  onSelectElements,
   onTransformElement,
+  onTransformElements,
+  onAutoSizeElement,
+  activeTool = "select",
+  onDrawPath,
+  onToolChange,
   style,
   className = "",
 }) => {
   const stageRef = useRef<any>(null);
+  const layerRef = useRef<any>(null);
   const containerRef = useRef<HTMLDivElement>(null);
 
+  // Marquee (rubber-band) selection, tracked in canvas coordinates
+  const [marquee, setMarquee] = useState<SelectionRect | null>(null);
+  const marqueeStart = useRef<{ x: number; y: number } | null>(null);
+  const marqueeRect = useRef<SelectionRect | null>(null);
+  // The stage fires a click after a marquee drag; it must not clear the new selection
+  const suppressStageClick = useRef(false);
+
+  const selectedIds = React.useMemo(
+    () => selectedElementIds ?? (selectedElementId ? [selectedElementId] : []),
+    [selectedElementIds, selectedElementId]
+  );
+  const isMultiSelection = selectedIds.length > 1;
+
+  // Text element being edited in place (double-click), drawn as an HTML overlay
+  const [editingTextId, setEditingTextId] = useState<string | null>(null);
+  const editingText = editingTextId ? elements.find((el) => el.id === editingTextId) : undefined;
+
+  // Transforms of a multi-selection arrive once per node; collect them so they commit together
+  const pendingTransforms = useRef<ElementUpdate[]>([]);
+
   const [snapGuides, setSnapGuides] = useState<{
     vertical: SnapGuide[];
     horizontal: SnapGuide[];
@@ -98,6 +186,17 @@ export const Canvas: React.FC<CanvasProps> = ({
   // Transformer update trigger - incremented when we need to force transformer re-attachment
   const [transformerUpdateTrigger, setTransformerUpdateTrigger] = useState(0);
 
+  // Changes whenever fonts finish loading, so text is measured again with the real font
+  const fontsVersion = useFontLoader(mode?.fonts);
+
+  // Konva caches text layout until a text attribute changes; lay all text out again
+  React.useEffect(() => {
+    if (fontsVersion === 0) return;
+    stageRef.current?.find("Text").forEach((node: Konva.Text) => node._setTextData());
+    layerRef.current?.batchDraw();
+    setTransformerUpdateTrigger((prev) => prev + 1);
+  }, [fontsVersion]);
+
   // Load background image when URL changes
   React.useEffect(() => {
     if (!backgroundImageUrl) {
@@ -167,6 +266,11 @@ export const Canvas: React.FC<CanvasProps> = ({
   // Handle click on canvas background (deselect)
   const handleStageClick = useCallback(
     (e: any) => {
+      if (suppressStageClick.current) {
+        suppressStageClick.current = false;
+        return;
+      }
+
       // Clicked on stage - deselect
       if (e.target === e.target.getStage()) {
         onSelectElement(null);
@@ -175,6 +279,60 @@ export const Canvas: React.FC<CanvasProps> = ({
     [onSelectElement]
   );
 
+  // Elements whose drag or transform was just committed. Middleware may cancel or clamp the
+  // update, leaving the element props unchanged, so react-konva wouldn't move the nodes back.
+  const committedIds = useRef<string[]>([]);
+  const [commitVersion, setCommitVersion] = useState(0);
+
+  const syncCommittedNodes = useCallback((ids: string[]) => {
+    committedIds.current.push(...ids);
+    setCommitVersion((prev) => prev + 1);
+  }, []);
+
+  // Move committed nodes to their stored position and rotation (a no-op for applied updates)
+  useLayoutEffect(() => {
+    const ids = committedIds.current;
+    committedIds.current = [];
+    ids.forEach((id) => {
+      const element = elements.find((el) => el.id === id);
+      const node = stageRef.current?.findOne(`#${id}`);
+      if (!element || !node) return;
+      node.position(element.position);
+      node.rotation(element.rotation);
+      node.getLayer()?.batchDraw();
+    });
+    // Only runs after commits; `elements` is read as it is after the commit
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [commitVersion]);
+
+  // Commit a transform, batching the per-node updates of a multi-selection into one change.
+  // `batch` also batches other updates committed together (e.g., a mask and its content).
+  const commitTransform = useCallback(
+    (id: string, updates: Partial<EditorElement>, batch = false) => {
+      if (!batch && (!isMultiSelection || !selectedIds.includes(id))) {
+        onTransformElement(id, updates);
+        syncCommittedNodes([id]);
+        return;
+      }
+
+      pendingTransforms.current.push({ id, updates });
+      if (pendingTransforms.current.length > 1) return;
+
+      // Konva ends every dragged/transformed node synchronously, so flush after the current task
+      queueMicrotask(() => {
+        const batch = pendingTransforms.current;
+        pendingTransforms.current = [];
+        if (onTransformElements) {
+          onTransformElements(batch);
+        } else {
+          batch.forEach((item) => onTransformElement(item.id, item.updates));
+        }
+        syncCommittedNodes(batch.map((item) => item.id));
+      });
+    },
+    [isMultiSelection, selectedIds, onTransformElement, onTransformElements, syncCommittedNodes]
+  );
+
   const onClearSnapGuides = useCallback(() => {
     setSnapGuides({ vertical: [], horizontal: [] });
   }, []);
@@ -223,23 +381,95 @@ export const Canvas: React.FC<CanvasProps> = ({
     [enablePanZoom]
   );
 
-  // Handle pan start (middle mouse button or space + drag)
+  // Handle pan start (middle mouse button or shift + drag) and marquee start (drag on empty space)
   const handleMouseDown = useCallback(
     (e: any) => {
-      if (!enablePanZoom) return;
-
-      // Middle mouse button or space + left click
-      if (e.evt.button === 1 || (e.evt.button === 0 && e.evt.shiftKey)) {
+      suppressStageClick.current = false;
+
+      // Middle mouse button or shift + left click on empty space
+      // (shift-clicking an element toggles it in the selection instead)
+      const isStageTarget = e.target === e.target.getStage();
+      if (
+        enablePanZoom &&
+        (e.evt.button === 1 || (e.evt.button === 0 && e.evt.shiftKey && isStageTarget))
+      ) {
         e.evt.preventDefault();
         isPanning.current = true;
+        return;
       }
+
+      // Left click on empty space starts a marquee selection
+      if (!onSelectElements || readonly || hideElements) return;
+      if (e.evt.button !== 0 || !isStageTarget) return;
+
+      // The layer's relative pointer position accounts for pan, zoom and the centering offset
+      const point = layerRef.current?.getRelativePointerPosition();
+      if (!point) return;
+
+      marqueeStart.current = point;
+      marqueeRect.current = null;
     },
-    [enablePanZoom]
+    [enablePanZoom, onSelectElements, readonly, hideElements]
   );
 
+  // Update the marquee rectangle while dragging
+  const updateMarquee = useCallback(() => {
+    const start = marqueeStart.current;
+    const point = layerRef.current?.getRelativePointerPosition();
+    if (!start || !point) return;
+
+    const rect = getRectFromPoints(start, point);
+    const isDrag =
+      marqueeRect.current !== null ||
+      rect.width >= MARQUEE_THRESHOLD ||
+      rect.height >= MARQUEE_THRESHOLD;
+    if (!isDrag) return;
+
+    marqueeRect.current = rect;
+    setMarquee(rect);
+  }, []);
+
+  // Select the elements hit by the marquee and reset it
+  const finishMarquee = useCallback(
+    (evt?: MouseEvent) => {
+      if (!marqueeStart.current) return;
+
+      const rect = marqueeRect.current;
+      marqueeStart.current = null;
+      marqueeRect.current = null;
+      setMarquee(null);
+
+      if (!rect || !onSelectElements) return;
+
+      // Alt requires elements to be fully inside; Ctrl/Cmd adds to the current selection
+      const hits = getElementsInRect(elements, rect, {
+        mode: evt?.altKey ? "contain" : "intersect",
+      }).map((el) => el.id);
+      const additive = !!evt && (evt.ctrlKey || evt.metaKey);
+      onSelectElements(
+        additive ? [...selectedIds.filter((id) => !hits.includes(id)), ...hits] : hits
+      );
+      suppressStageClick.current = true;
+    },
+    [elements, selectedIds, onSelectElements]
+  );
+
+  // Finish the marquee even when the pointer is released outside the stage
+  React.useEffect(() => {
+    if (!marquee) return;
+    const handleWindowMouseUp = (evt: MouseEvent) => finishMarquee(evt);
+    window.addEventListener("mouseup", handleWindowMouseUp);
+    return () => window.removeEventListener("mouseup", handleWindowMouseUp);
+  }, [marquee, finishMarquee]);
+
   // Handle pan move
   const handleMouseMove = useCallback(
     (e: any) => {
+      if (marqueeStart.current) {
+        updateMarquee();
+        return;
+      }
+
       if (!enablePanZoom || !isPanning.current) return;
 
       e.evt.preventDefault();
@@ -254,13 +484,17 @@ export const Canvas: React.FC<CanvasProps> = ({
 
       setStagePosition(newPos);
     },
-    [enablePanZoom, stagePosition]
+    [enablePanZoom, stagePosition, updateMarquee]
   );
 
-  // Handle pan end
-  const handleMouseUp = useCallback(() => {
-    isPanning.current = false;
-  }, []);
+  // Handle pan and marquee end
+  const handleMouseUp = useCallback(
+    (e: any) => {
+      isPanning.current = false;
+      finishMarquee(e?.evt);
+    },
+    [finishMarquee]
+  );
 
   // Update stage transform
   React.useEffect(() => {
@@ -272,10 +506,31 @@ export const Canvas: React.FC<CanvasProps> = ({
     }
   }, [stageScale, stagePosition]);
 
+  // Leave the pen tool when drawing is cancelled
+  const handlePenCancel = useCallback(() => onToolChange?.("select"), [onToolChange]);
+
+  // Stop editing when the element goes away (e.g., deleted or undone)
+  React.useEffect(() => {
+    if (editingTextId && !editingText) setEditingTextId(null);
+  }, [editingTextId, editingText]);
+
+  // Commit an in-place text edit as a single update (one undo step)
+  const handleTextEditCommit = useCallback(
+    (content: string) => {
+      if (editingText && content !== editingText.props.content) {
+        onTransformElement(editingText.id, { props: { ...editingText.props, content } });
+      }
+      setEditingTextId(null);
+    },
+    [editingText, onTransformElement]
+  );
+
+  const isPenActive = activeTool === "pen" && !!onDrawPath && !readonly && !hideElements;
+
   // Render element using registry
   const renderElement = useCallback(
     (element: EditorElement) => {
-      const isSelected = selectedElementId === element.id;
+      const isSelected = selectedIds.includes(element.id);
 
       // Get the renderer from registry
       const renderer = registry.get(element.type);
@@ -295,13 +550,32 @@ export const Canvas: React.FC<CanvasProps> = ({
       const commonProps = {
         element,
         isSelected,
-        onSelect: () => !readonly && onSelectElement(element.id),
+        onSelect: (e?: { evt?: Event }) => {
+          if (readonly) return;
+          if (onToggleElementSelection && isAdditiveSelection(e)) {
+            onToggleElementSelection(element.id);
+          } else {
+            onSelectElement(element.id);
+          }
+        },
+        // Masks may be moved together with their clipped elements
         onTransform: (updates: Partial<EditorElement>) =>
-          !readonly && onTransformElement(element.id, updates),
+          !readonly && commitTransform(element.id, updates, element.clipMask),
+        // Renderers that measure text re-measure when this changes
+        fontsVersion,
+        // In-place text editing
+        onEditText: readonly ? undefined : () => setEditingTextId(element.id),
+        isEditingText: editingTextId === element.id,
+        onAutoSize:
+          onAutoSizeElement && !readonly
+            ? (size: { width: number; height: number }) => onAutoSizeElement(element.id, size)
+            : undefined,
         // Snapping callbacks
         allElements: elements,
         canvasSize,
-        onSnapGuides: enableSnapGuides ? setSnapGuides : undefined,
+        // Elements dragged as part of a group move together, so they don't snap individually
+        onSnapGuides:
+          enableSnapGuides && !(isSelected && isMultiSelection) ? setSnapGuides : undefined,
         onClearSnapGuides: enableSnapGuides ? onClearSnapGuides : undefined,
         // Pass element ID for centralized transformer lookup
         elementId: element.id,
@@ -309,18 +583,32 @@ export const Canvas: React.FC<CanvasProps> = ({
         disableTransformer: true,
         // Callback to notify when node structure changes (e.g., image loads)
         onNodeUpdate: onTransformerUpdate,
+        // Registry for renderers that render nested elements (e.g., groups)
+        registry,
         // Pass mode context to renderers (e.g., cardData for TemplatedText)
         ...(mode?.context || {}),
       };
 
-      return <RendererComponent key={element.id} {...commonProps} />;
+      return (
+        <ElementStyleGroup
+          key={element.id}
+          element={element}
+          renderer={RendererComponent}
+          rendererProps={commonProps}
+        />
+      );
     },
     [
-      selectedElementId,
+      selectedIds,
+      isMultiSelection,
       registry,
       readonly,
       onSelectElement,
-      onTransformElement,
+      onToggleElementSelection,
+      commitTransform,
+      onAutoSizeElement,
+      editingTextId,
+      fontsVersion,
       elements,
       canvasSize,
       enableSnapGuides,
@@ -330,8 +618,32 @@ export const Canvas: React.FC<CanvasProps> = ({
     ]
   );
 
-  // Sort elements by z-index
-  const sortedElements = [...elements].sort((a, b) => a.zIndex - b.zIndex);
+  // Draw the elements clipped to a mask inside its group; dragging the mask with Alt moves
+  // them along, unless they are selected and dragged with it anyway
+  const renderMaskRun = ({ element, masked }: MaskRun) => {
+    if (masked.length === 0) return renderElement(element);
+
+    const canMoveMasked = !readonly && !masked.some((el) => selectedIds.includes(el.id));
+    const moveMasked = (delta: { x: number; y: number }) =>
+      masked.forEach((el) =>
+        commitTransform(
+          el.id,
+          { position: { x: el.position.x + delta.x, y: el.position.y + delta.y } },
+          true
+        )
+      );
+
+    return (
+      <MaskGroup
+        key={element.id}
+        maskId={element.id}
+        mask={renderElement(element)}
+        onMoveMasked={canMoveMasked ? moveMasked : undefined}
+      >
+        {masked.map(renderElement)}
+      </MaskGroup>
+    );
+  };
 
   return (
     <div
@@ -376,10 +688,10 @@ export const Canvas: React.FC<CanvasProps> = ({
           onMouseUp={handleMouseUp}
           style={{
             boxShadow: "0 2px 8px rgba(0,0,0,0.1)",
-            cursor: isPanning.current ? "grabbing" : "default",
+            cursor: isPanning.current ? "grabbing" : isPenActive ? "crosshair" : "default",
           }}
         >
-          <Layer x={layerOffset.x} y={layerOffset.y} listening={true}>
+          <Layer ref={layerRef} x={layerOffset.x} y={layerOffset.y} listening={true}>
             {/* Canvas background - shows the actual canvas bounds */}
             {backgroundImage ? (
               <KonvaImage
@@ -396,13 +708,13 @@ export const Canvas: React.FC<CanvasProps> = ({
                 y={0}
                 width={canvasSize.width}
                 height={canvasSize.height}
-                fill={mode?.backgroundColor || "#ffffff"}
+                {...getKonvaFill(mode?.backgroundColor || "#ffffff", canvasSize)}
                 listening={false}
               />
             )}
 
             {/* Elements can now render outside canvas bounds */}
-            {!hideElements && sortedElements.map(renderElement)}
+            {!hideElements && getMaskRuns(elements).map(renderMaskRun)}
 
             {/* Snap guides */}
             {enableSnapGuides && (
@@ -413,15 +725,40 @@ export const Canvas: React.FC<CanvasProps> = ({
               />
             )}
 
+            {/* Marquee selection rectangle */}
+            {marquee && (
+              <Rect
+                x={marquee.x}
+                y={marquee.y}
+                width={marquee.width}
+                height={marquee.height}
+                fill="rgba(59, 130, 246, 0.1)"
+                stroke="#3b82f6"
+                strokeWidth={1 / stageScale}
+                dash={[4 / stageScale, 4 / stageScale]}
+                listening={false}
+              />
+            )}
+
+            {/* Pen tool - captures clicks above the elements while drawing a path */}
+            {isPenActive && onDrawPath && (
+              <PenToolOverlay
+                stageScale={stageScale}
+                onComplete={onDrawPath}
+                onCancel={handlePenCancel}
+              />
+            )}
+
             {/* Centralized Transformer */}
             <CentralizedTransformer
               selectedElementId={selectedElementId}
+              selectedElementIds={selectedIds}
               stageRef={stageRef}
               isLocked={readonly}
               updateTrigger={transformerUpdateTrigger}
               onTransform={(elementId, updates) => {
                 // During transform, calculate snap guides based on the new size/position
-                if (!enableSnapGuides) return;
+                if (!enableSnapGuides || isMultiSelection) return;
 
                 const element = elements.find((el) => el.id === elementId);
                 if (!element) return;
@@ -455,13 +792,27 @@ export const Canvas: React.FC<CanvasProps> = ({
                 });
               }}
               onTransformEnd={(elementId, updates) => {
-                onTransformElement(elementId, updates);
+                commitTransform(elementId, updates);
                 // Clear snap guides after transform ends
                 setSnapGuides({ vertical: [], horizontal: [] });
               }}
             />
           </Layer>
         </Stage>
+
+        {/* In-place text editor */}
+        {editingText && !hideElements && (
+          <TextEditOverlay
+            key={editingText.id}
+            element={editingText as EditorElement<TextElementProps>}
+            stageRef={stageRef}
+            containerRef={containerRef}
+            stageScale={stageScale}
+            stagePosition={stagePosition}
+            onCommit={handleTextEditCommit}
+            onCancel={() => setEditingTextId(null)}
+          />
+        )}
       </div>
     </div>
   );
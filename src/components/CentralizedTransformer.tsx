@@ -3,6 +3,7 @@
  *
  * A single transformer that handles all selected elements,
  * eliminating the need for individual transformers in each element.
+ * When several elements are selected, one transformer wraps the whole group.
  */
 
 import React, { useEffect, useRef } from "react";
@@ -14,6 +15,9 @@ export interface CentralizedTransformerProps {
   /** ID of the selected element */
   selectedElementId: string | null;
 
+  /** IDs of all selected elements (takes precedence over selectedElementId) */
+  selectedElementIds?: string[];
+
   /** Reference to the stage to find nodes */
   stageRef: React.RefObject<Konva.Stage>;
 
@@ -23,7 +27,7 @@ export interface CentralizedTransformerProps {
   /** Update trigger - increment this to force re-attachment */
   updateTrigger?: number;
 
-  /** Callback when transform ends */
+  /** Callback when transform ends (called once per transformed element) */
   onTransformEnd?: (
     elementId: string,
     updates: {
@@ -33,7 +37,7 @@ export interface CentralizedTransformerProps {
     }
   ) => void;
 
-  /** Callback during transform for snap guides (optional) */
+  /** Callback during transform for snap guides (optional, called once per transformed element) */
   onTransform?: (
     elementId: string,
     updates: {
@@ -49,6 +53,7 @@ export interface CentralizedTransformerProps {
  */
 export const CentralizedTransformer: React.FC<CentralizedTransformerProps> = ({
   selectedElementId,
+  selectedElementIds,
   stageRef,
   isLocked = false,
   updateTrigger = 0,
@@ -57,11 +62,15 @@ export const CentralizedTransformer: React.FC<CentralizedTransformerProps> = ({
 }) => {
   const transformerRef = useRef<Konva.Transformer>(null);
 
+  const ids = selectedElementIds ?? (selectedElementId ? [selectedElementId] : []);
+  // Stable key so the effect only re-runs when the selection actually changes
+  const idsKey = ids.join(",");
+
   useEffect(() => {
     const transformer = transformerRef.current;
     const stage = stageRef.current;
 
-    if (!transformer || !stage || !selectedElementId || isLocked) {
+    if (!transformer || !stage || ids.length === 0 || isLocked) {
       // Clear transformer if no selection or locked
       if (transformer) {
         transformer.nodes([]);
@@ -99,20 +108,18 @@ export const CentralizedTransformer: React.FC<CentralizedTransformerProps> = ({
       return findInChildren(layer);
     };
 
-    const selectedNode = findNodeById(selectedElementId);
+    const selectedNodes = ids
+      .map((id) => findNodeById(id))
+      .filter((node): node is Konva.Node => node !== null && node.draggable());
 
-    if (selectedNode && selectedNode.draggable()) {
-      // Attach transformer to the node
-      transformer.nodes([selectedNode]);
-      transformer.getLayer()?.batchDraw();
-    } else {
-      transformer.nodes([]);
-      transformer.getLayer()?.batchDraw();
-    }
-  }, [selectedElementId, stageRef, isLocked, updateTrigger]);
+    // Attach transformer to every selectable node
+    transformer.nodes(selectedNodes);
+    transformer.getLayer()?.batchDraw();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [idsKey, stageRef, isLocked, updateTrigger]);
 
   const handleTransform = (e: KonvaEventObject<Event>) => {
-    if (!onTransform || !selectedElementId) return;
+    if (!onTransform || ids.length === 0) return;
 
     const node = e.target;
     const scaleX = node.scaleX();
@@ -130,37 +137,40 @@ export const CentralizedTransformer: React.FC<CentralizedTransformerProps> = ({
       rotation: node.rotation(),
     };
 
-    onTransform(selectedElementId, updates);
+    onTransform(node.id(), updates);
   };
 
-  const handleTransformEnd = (e: KonvaEventObject<Event>) => {
-    if (!onTransformEnd || !selectedElementId) return;
-
-    const node = e.target;
-    const scaleX = node.scaleX();
-    const scaleY = node.scaleY();
-
-    // Reset scale to 1 and apply it to width/height
-    node.scaleX(1);
-    node.scaleY(1);
-
-    const updates = {
-      position: {
-        x: node.x(),
-        y: node.y(),
-      },
-      size: {
-        width: Math.max(5, node.width() * scaleX),
-        height: Math.max(5, node.height() * scaleY),
-      },
-      rotation: node.rotation(),
-    };
+  const handleTransformEnd = () => {
+    const transformer = transformerRef.current;
+    if (!onTransformEnd || !transformer) return;
+
+    // The transformer fires transformend once for the whole group, so report every node
+    transformer.nodes().forEach((node) => {
+      const scaleX = node.scaleX();
+      const scaleY = node.scaleY();
+
+      // Reset scale to 1 and apply it to width/height
+      node.scaleX(1);
+      node.scaleY(1);
+
+      const updates = {
+        position: {
+          x: node.x(),
+          y: node.y(),
+        },
+        size: {
+          width: Math.max(5, node.width() * scaleX),
+          height: Math.max(5, node.height() * scaleY),
+        },
+        rotation: node.rotation(),
+      };
 
-    onTransformEnd(selectedElementId, updates);
+      onTransformEnd(node.id(), updates);
+    });
   };
 
   // Don't render if locked or no selection
-  if (isLocked || !selectedElementId) {
+  if (isLocked || ids.length === 0) {
     return null;
   }
 
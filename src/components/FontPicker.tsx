@@ -0,0 +1,82 @@
+/**
+ * Font Picker Component
+ *
+ * Select for `font` inspector fields. Lists the mode's registered fonts and the
+ * field's options, each drawn in its own font as a preview.
+ */
+
+import React from "react";
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectSeparator,
+  SelectTrigger,
+  SelectValue,
+} from "@/ui/select";
+import { EditorFontMap } from "../types";
+import { getFontFamilyStyle, getFontPickerFamilies } from "../utils/fontUtils";
+
+export interface FontPickerProps {
+  /** Selected font family */
+  value: string;
+
+  /** Called with the picked font family */
+  onChange: (family: string) => void;
+
+  /** Fonts registered by the mode (usually `mode.fonts`) */
+  fonts?: EditorFontMap;
+
+  /** Other font families to offer (e.g., the field's options) */
+  options?: string[];
+
+  /** Id of the trigger, for labels */
+  id?: string;
+
+  /** Placeholder shown without a value */
+  placeholder?: string;
+}
+
+/**
+ * Font picker - a select previewing each font family
+ */
+export const FontPicker: React.FC<FontPickerProps> = ({
+  value,
+  onChange,
+  fonts,
+  options,
+  id,
+  placeholder,
+}) => {
+  const { registered, other } = getFontPickerFamilies(fonts, options, value);
+
+  const renderItem = (family: string) => (
+    <SelectItem key={family} value={family} style={{ fontFamily: getFontFamilyStyle(family) }}>
+      {family}
+    </SelectItem>
+  );
+
+  return (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger
+        id={id}
+        className="h-8 mt-1"
+        style={value ? { fontFamily: getFontFamilyStyle(value) } : undefined}
+      >
+        <SelectValue placeholder={placeholder} />
+      </SelectTrigger>
+      <SelectContent>
+        {registered.length > 0 && (
+          <SelectGroup>
+            <SelectLabel className="text-xs text-muted-foreground">Custom Fonts</SelectLabel>
+            {registered.map(renderItem)}
+          </SelectGroup>
+        )}
+        {registered.length > 0 && other.length > 0 && <SelectSeparator />}
+        {other.length > 0 && <SelectGroup>{other.map(renderItem)}</SelectGroup>}
+      </SelectContent>
+    </Select>
+  );
+};
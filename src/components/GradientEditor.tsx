@@ -0,0 +1,181 @@
+/**
+ * Gradient Editor Component
+ *
+ * Editor for fills: a solid color, or a linear/radial gradient with a list of color stops,
+ * an angle (linear) or a center (radial), and a preview of the result.
+ */
+
+import React from "react";
+import { Plus, Trash2 } from "lucide-react";
+import { Input } from "@/ui/input";
+import { Label } from "@/ui/label";
+import { Button } from "@/ui/button";
+import { Slider } from "@/ui/slider";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/ui/select";
+import { EditorFill, GradientFill, GradientStop } from "../types";
+import { convertFill, getCssFill, getFillColor, isGradientFill } from "../utils/fillUtils";
+
+export interface GradientEditorProps {
+  /** Current fill */
+  value?: EditorFill;
+
+  /** Callback with the updated fill */
+  onChange: (fill: EditorFill) => void;
+
+  /** Id prefix of the editor's inputs */
+  id?: string;
+}
+
+type FillType = "solid" | GradientFill["type"];
+
+/** Gradients need at least two stops */
+const MIN_STOPS = 2;
+
+const FILL_TYPES: { value: FillType; label: string }[] = [
+  { value: "solid", label: "Solid" },
+  { value: "linear", label: "Linear" },
+  { value: "radial", label: "Radial" },
+];
+
+/**
+ * Fill editor with gradient stops
+ */
+export const GradientEditor: React.FC<GradientEditorProps> = ({ value, onChange, id = "fill" }) => {
+  const gradient = isGradientFill(value) ? value : null;
+  const type: FillType = gradient ? gradient.type : "solid";
+
+  const setStops = (stops: GradientStop[]) => gradient && onChange({ ...gradient, stops });
+
+  const updateStop = (index: number, update: Partial<GradientStop>) =>
+    gradient &&
+    setStops(gradient.stops.map((stop, i) => (i === index ? { ...stop, ...update } : stop)));
+
+  // New stops go halfway between the last two, in the color of the last one
+  const addStop = () => {
+    if (!gradient) return;
+    const sorted = [...gradient.stops].sort((a, b) => a.offset - b.offset);
+    const last = sorted[sorted.length - 1];
+    const previous = sorted[sorted.length - 2];
+    const offset = previous ? (previous.offset + last.offset) / 2 : 1;
+    setStops([...gradient.stops, { offset, color: last?.color ?? getFillColor(undefined) }]);
+  };
+
+  return (
+    <div className="space-y-2 mt-1">
+      <div className="flex items-center gap-2">
+        <Select
+          value={type}
+          onValueChange={(newType: FillType) => onChange(convertFill(value, newType))}
+        >
+          <SelectTrigger className="h-8 w-24">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {FILL_TYPES.map((fillType) => (
+              <SelectItem key={fillType.value} value={fillType.value}>
+                {fillType.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {gradient ? (
+          <div
+            className="h-8 flex-1 rounded border"
+            style={{ background: getCssFill(gradient) }}
+            aria-hidden
+          />
+        ) : (
+          <Input
+            id={id}
+            type="color"
+            value={getFillColor(value)}
+            onChange={(e) => onChange(e.target.value)}
+            className="h-8 flex-1"
+          />
+        )}
+      </div>
+
+      {gradient && (
+        <>
+          {gradient.stops.map((stop, index) => (
+            <div key={index} className="flex items-center gap-1">
+              <Input
+                id={`${id}-stop-${index}-color`}
+                aria-label={`Stop ${index + 1} color`}
+                type="color"
+                value={stop.color}
+                onChange={(e) => updateStop(index, { color: e.target.value })}
+                className="h-8 w-12 p-1"
+              />
+              <Input
+                id={`${id}-stop-${index}-offset`}
+                aria-label={`Stop ${index + 1} position`}
+                type="number"
+                min={0}
+                max={100}
+                value={Math.round(stop.offset * 100)}
+                onChange={(e) =>
+                  updateStop(index, {
+                    offset: Math.min(100, Math.max(0, Number(e.target.value) || 0)) / 100,
+                  })
+                }
+                className="h-8 flex-1"
+              />
+              <span className="text-xs text-muted-foreground">%</span>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-8 w-8 p-0"
+                aria-label={`Remove stop ${index + 1}`}
+                disabled={gradient.stops.length <= MIN_STOPS}
+                onClick={() => setStops(gradient.stops.filter((_, i) => i !== index))}
+              >
+                <Trash2 className="h-3 w-3" />
+              </Button>
+            </div>
+          ))}
+          <Button variant="outline" size="sm" className="h-7 w-full" onClick={addStop}>
+            <Plus className="h-3 w-3 mr-1" />
+            Add Stop
+          </Button>
+
+          {gradient.type === "linear" ? (
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <Label className="text-xs">Angle</Label>
+                <span className="text-xs text-muted-foreground">{gradient.angle}°</span>
+              </div>
+              <Slider
+                value={[gradient.angle]}
+                onValueChange={([angle]) => onChange({ ...gradient, angle })}
+                min={0}
+                max={360}
+                step={1}
+              />
+            </div>
+          ) : (
+            (["centerX", "centerY"] as const).map((key) => (
+              <div key={key}>
+                <div className="flex items-center justify-between mb-2">
+                  <Label className="text-xs">{key === "centerX" ? "Center X" : "Center Y"}</Label>
+                  <span className="text-xs text-muted-foreground">
+                    {Math.round((gradient[key] ?? 0.5) * 100)}%
+                  </span>
+                </div>
+                <Slider
+                  value={[gradient[key] ?? 0.5]}
+                  onValueChange={([center]) => onChange({ ...gradient, [key]: center })}
+                  min={0}
+                  max={1}
+                  step={0.01}
+                />
+              </div>
+            ))
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default GradientEditor;
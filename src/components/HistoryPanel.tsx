@@ -0,0 +1,95 @@
+/**
+ * History Panel Component
+ *
+ * Lists the undo history with a label per step and lets the user jump to any
+ * past or future state.
+ */
+
+import React from "react";
+import { Badge } from "@/ui/badge";
+import { ScrollArea } from "@/ui/scroll-area";
+import { History, CircleDot, Circle } from "lucide-react";
+import { EditorAPI, HistoryEntry } from "../types";
+import { cn } from "@/lib/utils";
+
+export interface HistoryPanelProps {
+  /** Editor API used to read and navigate the history */
+  api: EditorAPI;
+
+  /** Optional custom style */
+  style?: React.CSSProperties;
+
+  /** Optional className */
+  className?: string;
+}
+
+/**
+ * History Panel component
+ */
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({ api, style, className }) => {
+  // Re-render whenever a step is recorded, undone or redone, or the history is cleared
+  const [, refresh] = React.useReducer((count: number) => count + 1, 0);
+  React.useEffect(() => api.on("history:changed", refresh), [api]);
+
+  const entries: HistoryEntry[] = api.getHistory();
+
+  // Show the most recent step at the top, like the layers list
+  const sortedEntries = [...entries].reverse();
+
+  return (
+    <div className={cn("flex flex-col bg-card border-l", className)} style={style}>
+      {/* Header */}
+      <div className="flex h-10 items-center justify-between px-3 py-2 border-b bg-popover">
+        <div className="flex items-center gap-2">
+          <History className="h-4 w-4" />
+          <h3 className="text-sm font-semibold">History</h3>
+        </div>
+        <Badge variant="default" className="text-xs">
+          {entries.length - 1}
+        </Badge>
+      </div>
+
+      {/* History List */}
+      <ScrollArea className="flex-1">
+        <div className="p-2 space-y-1">
+          {sortedEntries.map((entry) => {
+            const isCurrent = entry.status === "current";
+            const isFuture = entry.status === "future";
+
+            return (
+              <div
+                key={entry.index}
+                role="button"
+                aria-current={isCurrent ? "step" : undefined}
+                className={cn(
+                  "flex items-center gap-2 px-2 py-1.5 rounded cursor-pointer transition-all text-xs",
+                  isCurrent
+                    ? "bg-primary/15 border border-primary/30 shadow-sm"
+                    : "hover:bg-muted/70",
+                  isFuture && "opacity-50 italic"
+                )}
+                onClick={() => !isCurrent && api.goToHistory(entry.index)}
+              >
+                <div className="text-muted-foreground">
+                  {isCurrent ? <CircleDot className="h-3 w-3" /> : <Circle className="h-3 w-3" />}
+                </div>
+                <span className="flex-1 min-w-0 truncate">{entry.label}</span>
+              </div>
+            );
+          })}
+        </div>
+      </ScrollArea>
+
+      {/* Footer Stats */}
+      <div className="border-t p-2">
+        <div className="flex items-center justify-between text-xs text-muted-foreground">
+          <span>{entries.filter((entry) => entry.status === "past").length} undoable</span>
+          <span>•</span>
+          <span>{entries.filter((entry) => entry.status === "future").length} redoable</span>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default HistoryPanel;
@@ -0,0 +1,85 @@
+/**
+ * Icon Picker Component
+ *
+ * Popover listing the icons of the mode's icon map. Picking one inserts its
+ * token (e.g., `{mana:red}`) into the text being edited.
+ */
+
+import React from "react";
+import { Popover, PopoverContent, PopoverTrigger } from "@/ui/popover";
+import { TooltipButton } from "@/ui/general/TooltipButton";
+import { SmilePlus } from "lucide-react";
+import { IconUrlMap, getIconEntries, resolveIconUrl } from "../utils/iconUtils";
+
+export interface IconPickerProps {
+  /** Icon map (usually `mode.context.iconUrls`) */
+  icons: IconUrlMap;
+
+  /** Image URL mapping for icons stored as asset keys */
+  imageUrls?: Map<string, string>;
+
+  /** Called with the picked icon name */
+  onSelect: (name: string) => void;
+
+  /** Disable the trigger button */
+  disabled?: boolean;
+}
+
+/**
+ * Icon picker - a button that opens a grid of insertable icons
+ */
+export const IconPicker: React.FC<IconPickerProps> = ({
+  icons,
+  imageUrls,
+  onSelect,
+  disabled,
+}) => {
+  const [open, setOpen] = React.useState(false);
+  const entries = getIconEntries(icons);
+
+  if (entries.length === 0) return null;
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <TooltipButton
+          variant="outline"
+          size="sm"
+          className="icon-button"
+          tooltip="Insert Icon"
+          tooltipDelay={500}
+          disabled={disabled}
+        >
+          <SmilePlus className="h-4 w-4" />
+        </TooltipButton>
+      </PopoverTrigger>
+      <PopoverContent className="w-64 p-2" align="start">
+        <div className="grid grid-cols-6 gap-1 max-h-60 overflow-auto">
+          {entries.map(([name]) => (
+            <button
+              key={name}
+              type="button"
+              title={`{${name}}`}
+              aria-label={`Insert ${name} icon`}
+              className="flex items-center justify-center h-9 w-9 rounded hover:bg-accent"
+              // Keep focus (and the caret position) in the text field
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => {
+                onSelect(name);
+                setOpen(false);
+              }}
+            >
+              <img
+                src={resolveIconUrl(name, icons, imageUrls)}
+                alt={name}
+                className="h-6 w-6 object-contain"
+              />
+            </button>
+          ))}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default IconPicker;
@@ -21,6 +21,16 @@ import {
   EditorMode,
 } from "../types";
 import { Checkbox } from "@/ui/checkbox";
+import { RichTextField } from "./RichTextField";
+import { IconPicker } from "./IconPicker";
+import { FontPicker } from "./FontPicker";
+import { NineSliceField } from "./NineSliceField";
+import { GradientEditor } from "./GradientEditor";
+import { IconUrlMap, formatIconToken } from "../utils/iconUtils";
+import { resolveImageSrc } from "../utils/imageUtils";
+import { getAtlasFrame } from "../utils/atlasUtils";
+import { getFillColor } from "../utils/fillUtils";
+import { ELEMENT_BLEND_MODES } from "../utils/styleUtils";
 
 export interface InspectorProps {
   /** Currently selected element */
@@ -48,6 +58,98 @@ export interface InspectorProps {
   className?: string;
 }
 
+/** Prefix of the names of the common style fields */
+const STYLE_FIELD_PREFIX = "style.";
+
+/**
+ * Fields of the styling every element shares (`EditorElement.style`)
+ */
+const ELEMENT_STYLE_FIELDS: InspectorFieldSchema[] = [
+  {
+    name: "shadowColor",
+    type: "color",
+    label: "Shadow Color",
+    defaultValue: "#000000",
+  },
+  {
+    name: "shadowBlur",
+    type: "number",
+    label: "Shadow Blur",
+    min: 0,
+    max: 100,
+    step: 1,
+    defaultValue: 0,
+  },
+  {
+    name: "shadowOffsetX",
+    type: "number",
+    label: "Shadow Offset X",
+    min: -100,
+    max: 100,
+    step: 1,
+    defaultValue: 0,
+  },
+  {
+    name: "shadowOffsetY",
+    type: "number",
+    label: "Shadow Offset Y",
+    min: -100,
+    max: 100,
+    step: 1,
+    defaultValue: 0,
+  },
+  {
+    name: "shadowOpacity",
+    type: "slider",
+    label: "Shadow Opacity",
+    min: 0,
+    max: 1,
+    step: 0.05,
+    defaultValue: 1,
+  },
+  {
+    name: "glowColor",
+    type: "color",
+    label: "Glow Color",
+    defaultValue: "#ffffff",
+  },
+  {
+    name: "glowSize",
+    type: "slider",
+    label: "Glow Size",
+    min: 0,
+    max: 50,
+    step: 1,
+    defaultValue: 0,
+  },
+  {
+    name: "glowOpacity",
+    type: "slider",
+    label: "Glow Opacity",
+    min: 0,
+    max: 1,
+    step: 0.05,
+    defaultValue: 1,
+  },
+  {
+    name: "blendMode",
+    type: "select",
+    label: "Blend Mode",
+    options: ELEMENT_BLEND_MODES,
+    defaultValue: "source-over",
+  },
+  {
+    name: "cornerRadius",
+    type: "number",
+    label: "Corner Radius",
+    description: "Rounds the corners of the element box, clipping its content",
+    min: 0,
+    max: 500,
+    step: 1,
+    defaultValue: 0,
+  },
+];
+
 /**
  * Inspector component that renders property fields based on element schema
  */
@@ -119,6 +221,32 @@ export const Inspector: React.FC<InspectorProps> = ({
     });
   };
 
+  // Handler for updating the common style of the element
+  const handleStyleChange = (styleName: string, value: unknown) => {
+    api.updateElement(selectedElement.id, {
+      style: {
+        ...selectedElement.style,
+        [styleName]: value,
+      },
+    });
+  };
+
+  // Style fields are named with a prefix, so their editing values don't clash with props
+  const handleFieldChange = (name: string, value: unknown) => {
+    if (name.startsWith(STYLE_FIELD_PREFIX)) {
+      handleStyleChange(name.slice(STYLE_FIELD_PREFIX.length), value);
+    } else {
+      handlePropChange(name, value);
+    }
+  };
+
+  const styleFieldValues = Object.fromEntries(
+    Object.entries(selectedElement.style ?? {}).map(([name, value]) => [
+      STYLE_FIELD_PREFIX + name,
+      value,
+    ])
+  );
+
   // Debounced handler for color changes (300ms delay)
   const handleColorChange = (propName: string, value: string) => {
     // Clear existing timer for this property
@@ -131,7 +259,7 @@ export const Inspector: React.FC<InspectorProps> = ({
 
     // Set new timer to update the actual element
     debounceTimers.current[propName] = setTimeout(() => {
-      handlePropChange(propName, value);
+      handleFieldChange(propName, value);
       // Clear editing state after update
       setEditingValues((prev) => {
         const newState = { ...prev };
@@ -387,6 +515,23 @@ export const Inspector: React.FC<InspectorProps> = ({
 
           <Separator className="my-4" />
 
+          {/* Common Style (always visible) */}
+          <h4 className="text-sm font-medium mb-3">Style</h4>
+          <div className="space-y-3">
+            {ELEMENT_STYLE_FIELDS.map((field) =>
+              renderField(
+                { ...field, name: STYLE_FIELD_PREFIX + field.name },
+                styleFieldValues,
+                editingValues,
+                handleFieldChange,
+                handleColorChange,
+                mode
+              )
+            )}
+          </div>
+
+          <Separator className="my-4" />
+
           {/* Element-specific Properties */}
           {schema.length > 0 && (
             <>
@@ -411,6 +556,50 @@ export const Inspector: React.FC<InspectorProps> = ({
   );
 };
 
+/**
+ * Multiline text field with an optional icon picker that inserts icon tokens at the caret
+ */
+const MultilineTextField: React.FC<{
+  id: string;
+  value: string;
+  onChange: (value: string) => void;
+  icons?: IconUrlMap;
+  imageUrls?: Map<string, string>;
+}> = ({ id, value, onChange, icons, imageUrls }) => {
+  const selection = React.useRef({ start: value.length, end: value.length });
+
+  const handleSelect = (e: React.SyntheticEvent<HTMLTextAreaElement>) => {
+    const { selectionStart, selectionEnd } = e.currentTarget;
+    selection.current = { start: selectionStart, end: selectionEnd };
+  };
+
+  const insertIcon = (name: string) => {
+    const start = Math.min(selection.current.start, value.length);
+    const end = Math.min(selection.current.end, value.length);
+    const token = formatIconToken(name);
+    onChange(value.slice(0, start) + token + value.slice(end));
+    selection.current = { start: start + token.length, end: start + token.length };
+  };
+
+  return (
+    <>
+      <Textarea
+        id={id}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        onSelect={handleSelect}
+        className="mt-1"
+        rows={3}
+      />
+      {icons && (
+        <div className="flex mt-1">
+          <IconPicker icons={icons} imageUrls={imageUrls} onSelect={insertIcon} />
+        </div>
+      )}
+    </>
+  );
+};
+
 /**
  * Render a single inspector field based on its type
  */
@@ -455,12 +644,12 @@ export function renderField(
             {field.label}
           </Label>
           {isMultiline ? (
-            <Textarea
+            <MultilineTextField
               id={field.name}
               value={value || ""}
-              onChange={(e) => onChange(field.name, e.target.value)}
-              className="mt-1"
-              rows={3}
+              onChange={(text) => onChange(field.name, text)}
+              icons={mode?.context?.iconUrls}
+              imageUrls={mode?.context?.imageUrls}
             />
           ) : (
             <Input
@@ -520,6 +709,29 @@ export function renderField(
       );
     }
 
+    case "gradient": {
+      return (
+        <div key={field.name}>
+          <Label htmlFor={field.name} className="text-xs">
+            {field.label}
+          </Label>
+          <GradientEditor
+            id={field.name}
+            value={value}
+            // Solid colors are debounced like color fields
+            onChange={(fill) =>
+              typeof fill === "string"
+                ? onColorChange(field.name, fill)
+                : onChange(field.name, fill)
+            }
+          />
+          {field.description && (
+            <p className="text-xs text-muted-foreground mt-1">{field.description}</p>
+          )}
+        </div>
+      );
+    }
+
     case "select": {
       return (
         <div key={field.name}>
@@ -548,6 +760,27 @@ export function renderField(
       );
     }
 
+    case "font": {
+      return (
+        <div key={field.name}>
+          <Label htmlFor={field.name} className="text-xs">
+            {field.label}
+          </Label>
+          <FontPicker
+            id={field.name}
+            value={value || field.defaultValue || ""}
+            onChange={(family) => onChange(field.name, family)}
+            fonts={mode?.fonts}
+            options={field.options?.map((option) => String(option.value))}
+            placeholder={field.label}
+          />
+          {field.description && (
+            <p className="text-xs text-muted-foreground mt-1">{field.description}</p>
+          )}
+        </div>
+      );
+    }
+
     case "boolean": {
       return (
         <div key={field.name} className="flex items-start space-x-2">
@@ -591,6 +824,40 @@ export function renderField(
       );
     }
 
+    case "richText": {
+      return (
+        <RichTextField
+          key={field.name}
+          value={props[field.name] || []}
+          onChange={(runs) => onChange(field.name, runs)}
+          field={field}
+          defaultColor={getFillColor(props.color)}
+          defaultFontSize={props.fontSize}
+          icons={mode?.context?.iconUrls}
+          imageUrls={mode?.context?.imageUrls}
+        />
+      );
+    }
+
+    case "nineSlice": {
+      const atlasFrame = getAtlasFrame(props.src, mode?.context?.imageAtlases);
+      return (
+        <NineSliceField
+          key={field.name}
+          value={props[field.name]}
+          onChange={(insets) => onChange(field.name, insets)}
+          field={field}
+          imageSrc={
+            props.src
+              ? resolveImageSrc(atlasFrame ? atlasFrame.image : props.src, mode?.context?.imageUrls)
+              : undefined
+          }
+          crop={props.crop}
+          atlasFrame={atlasFrame?.frame}
+        />
+      );
+    }
+
     case "image": {
       return (
         <div key={field.name}>
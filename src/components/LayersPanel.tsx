@@ -2,7 +2,8 @@
  * Layers Panel Component
  *
  * Displays all elements in the canvas with controls to show/hide, lock/unlock,
- * reorder, and delete elements.
+ * reorder, and delete elements. Clipping masks are marked, and the elements clipped
+ * to them are indented above them.
  */
 
 import React from "react";
@@ -21,9 +22,15 @@ import {
   Image as ImageIcon,
   Layers,
   ChevronUp,
+  ChevronRight,
   Filter,
+  Group as GroupIcon,
+  SquareDashed,
+  CornerLeftDown,
 } from "lucide-react";
-import { EditorElement, EditorAPI, ElementRenderer } from "../types";
+import { EditorElement, EditorAPI, ElementRenderer, GroupElementProps } from "../types";
+import { isGroupElement, updateGroupChild } from "../utils/groupUtils";
+import { getClippingMasks, getMaskBelow, getMaskToggleUpdates } from "../utils/maskUtils";
 import { cn } from "@/lib/utils";
 
 export interface LayersPanelProps {
@@ -33,6 +40,9 @@ export interface LayersPanelProps {
   /** Currently selected element ID */
   selectedElementId: string | null;
 
+  /** All selected element IDs (defaults to the single selectedElementId) */
+  selectedElementIds?: string[];
+
   /** Editor API for manipulating elements */
   api: EditorAPI;
 
@@ -55,6 +65,8 @@ const getElementIcon = (type: string) => {
       return <Type className="h-4 w-4" />;
     case "image":
       return <ImageIcon className="h-4 w-4" />;
+    case "group":
+      return <GroupIcon className="h-4 w-4" />;
     default:
       return <Layers className="h-4 w-4" />;
   }
@@ -86,12 +98,134 @@ const getElementDisplayName = (element: EditorElement, renderer?: ElementRendere
 export const LayersPanel: React.FC<LayersPanelProps> = ({
   elements,
   selectedElementId,
+  selectedElementIds,
   api,
   elementRenderers,
   style,
   className,
 }) => {
   const [filter, setFilter] = React.useState<string>("all");
+  const [expandedGroups, setExpandedGroups] = React.useState<Set<string>>(new Set());
+
+  const selectedIds = selectedElementIds ?? (selectedElementId ? [selectedElementId] : []);
+
+  // Shift/Ctrl/Cmd-click toggles the layer in the selection, plain click selects only it
+  const handleLayerClick = (element: EditorElement, e: React.MouseEvent) => {
+    if (element.locked === true) return;
+    if (e.shiftKey || e.ctrlKey || e.metaKey) {
+      api.toggleElementSelection(element.id);
+    } else {
+      api.selectElement(element.id);
+    }
+  };
+
+  const toggleGroupExpanded = (id: string, e: React.MouseEvent) => {
+    e.stopPropagation();
+    setExpandedGroups((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  // Children live inside their top-level group, so updates are applied to the group
+  const updateChild = (
+    root: EditorElement<GroupElementProps>,
+    childId: string,
+    updates: Partial<EditorElement>
+  ) => {
+    const updated = updateGroupChild(root, childId, updates);
+    api.updateElement(root.id, { props: updated.props });
+  };
+
+  // Render the children of a group as indented rows; clicking a child selects the top-level group
+  const renderChildRows = (
+    root: EditorElement<GroupElementProps>,
+    group: EditorElement<GroupElementProps>,
+    depth: number
+  ): React.ReactNode => {
+    const childMasks = getClippingMasks(group.props.children);
+
+    return [...group.props.children]
+      .sort((a, b) => b.zIndex - a.zIndex)
+      .map((child) => {
+        const renderer = elementRenderers.get(child.type);
+        const isVisible = child.visible !== false;
+        const isLocked = child.locked === true;
+        const isExpanded = expandedGroups.has(child.id);
+        const isClipped = childMasks.has(child.id);
+
+        return (
+          <React.Fragment key={child.id}>
+            <div
+              className={cn(
+                "group flex items-center gap-2 px-2 py-1.5 rounded cursor-pointer transition-all hover:bg-muted/70",
+                isLocked && "opacity-60",
+                !isVisible && "opacity-40"
+              )}
+              style={{ paddingLeft: `${(depth + (isClipped ? 1 : 0)) * 16 + 8}px` }}
+              onClick={(e) => handleLayerClick(root, e)}
+            >
+              {isClipped && <CornerLeftDown className="h-3 w-3 text-muted-foreground" />}
+              {isGroupElement(child) ? (
+                <button
+                  className="text-muted-foreground"
+                  onClick={(e) => toggleGroupExpanded(child.id, e)}
+                  aria-label={isExpanded ? "Collapse group" : "Expand group"}
+                >
+                  {isExpanded ? (
+                    <ChevronDown className="h-3 w-3" />
+                  ) : (
+                    <ChevronRight className="h-3 w-3" />
+                  )}
+                </button>
+              ) : (
+                <span className="w-3" />
+              )}
+              <div className="text-muted-foreground">{getElementIcon(child.type)}</div>
+              <div className="flex-1 min-w-0 text-xs truncate">
+                {getElementDisplayName(child, renderer)}
+              </div>
+              {child.clipMask && <SquareDashed className="h-3 w-3 text-muted-foreground" />}
+
+              <div className="flex items-center gap-0.5 opacity-0 group-hover:opacity-100 transition-opacity">
+                <TooltipButton
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    updateChild(root, child.id, { visible: !isVisible });
+                  }}
+                  tooltip={isVisible ? "Hide" : "Show"}
+                  tooltipDelay={500}
+                >
+                  {isVisible ? <Eye className="h-3 w-3" /> : <EyeOff className="h-3 w-3" />}
+                </TooltipButton>
+                <TooltipButton
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    updateChild(root, child.id, { locked: !isLocked });
+                  }}
+                  tooltip={isLocked ? "Unlock" : "Lock"}
+                  tooltipDelay={500}
+                >
+                  {isLocked ? <Lock className="h-3 w-3" /> : <Unlock className="h-3 w-3" />}
+                </TooltipButton>
+              </div>
+            </div>
+            {isGroupElement(child) && isExpanded && renderChildRows(root, child, depth + 1)}
+          </React.Fragment>
+        );
+      });
+  };
 
   // Get all available element types from the registry
   const availableTypes = Array.from(elementRenderers.keys());
@@ -99,6 +233,9 @@ export const LayersPanel: React.FC<LayersPanelProps> = ({
   // Sort elements by z-index (descending - top to bottom)
   const sortedElements = [...elements].sort((a, b) => b.zIndex - a.zIndex);
 
+  // Elements clipped to a mask, with their mask
+  const clippingMasks = getClippingMasks(elements);
+
   // Filter elements
   const filteredElements = sortedElements.filter((el) => {
     if (filter === "all") return true;
@@ -177,112 +314,183 @@ export const LayersPanel: React.FC<LayersPanelProps> = ({
           ) : (
             filteredElements.map((element) => {
               const renderer = elementRenderers.get(element.type);
-              const isSelected = element.id === selectedElementId;
+              const isSelected = selectedIds.includes(element.id);
               const isVisible = element.visible !== false;
               const isLocked = element.locked === true;
+              const isExpanded = expandedGroups.has(element.id);
+              const clippingMask = clippingMasks.get(element.id);
+              const canClip = element.clipped || !!getMaskBelow(elements, element.id);
 
               return (
-                <div
-                  key={element.id}
-                  className={cn(
-                    "group flex items-center gap-2 px-2 py-2 rounded cursor-pointer transition-all",
-                    isSelected
-                      ? "bg-primary/15 border border-primary/30 shadow-sm"
-                      : "hover:bg-muted/70",
-                    isLocked && "opacity-60",
-                    !isVisible && "opacity-40"
-                  )}
-                  onClick={() => !isLocked && api.selectElement(element.id)}
-                >
-                  {/* Element Icon */}
-                  <div className="text-muted-foreground">{getElementIcon(element.type)}</div>
-
-                  {/* Element Info */}
-                  <div className="flex-1 min-w-0">
-                    <div className="text-xs font-medium truncate">
-                      {getElementDisplayName(element, renderer)}
-                    </div>
-                    <div className="flex items-center gap-2 text-[10px] text-muted-foreground">
-                      <span>z:{element.zIndex}</span>
+                <React.Fragment key={element.id}>
+                  <div
+                    className={cn(
+                      "group flex items-center gap-2 px-2 py-2 rounded cursor-pointer transition-all",
+                      isSelected
+                        ? "bg-primary/15 border border-primary/30 shadow-sm"
+                        : "hover:bg-muted/70",
+                      isLocked && "opacity-60",
+                      !isVisible && "opacity-40",
+                      clippingMask && "ml-4"
+                    )}
+                    onClick={(e) => handleLayerClick(element, e)}
+                  >
+                    {/* Clipped to the mask below */}
+                    {clippingMask && <CornerLeftDown className="h-3 w-3 text-muted-foreground" />}
+
+                    {/* Group expand/collapse toggle */}
+                    {isGroupElement(element) && (
+                      <button
+                        className="text-muted-foreground"
+                        onClick={(e) => toggleGroupExpanded(element.id, e)}
+                        aria-label={isExpanded ? "Collapse group" : "Expand group"}
+                      >
+                        {isExpanded ? (
+                          <ChevronDown className="h-3 w-3" />
+                        ) : (
+                          <ChevronRight className="h-3 w-3" />
+                        )}
+                      </button>
+                    )}
+
+                    {/* Element Icon */}
+                    <div className="text-muted-foreground">{getElementIcon(element.type)}</div>
+
+                    {/* Element Info */}
+                    <div className="flex-1 min-w-0">
+                      <div className="text-xs font-medium truncate">
+                        {getElementDisplayName(element, renderer)}
+                      </div>
+                      <div className="flex items-center gap-2 text-[10px] text-muted-foreground">
+                        <span>z:{element.zIndex}</span>
+                        {element.clipMask && (
+                          <span className="flex items-center gap-0.5">
+                            <SquareDashed className="h-2.5 w-2.5" />
+                            Mask
+                          </span>
+                        )}
+                        {clippingMask && (
+                          <span className="truncate">
+                            Clipped to{" "}
+                            {getElementDisplayName(
+                              clippingMask,
+                              elementRenderers.get(clippingMask.type)
+                            )}
+                          </span>
+                        )}
+                      </div>
                     </div>
-                  </div>
 
-                  {/* Quick Actions */}
-                  <div className="flex items-center gap-0.5 opacity-0 group-hover:opacity-100 transition-opacity">
-                    {/* Z-index Controls */}
-                    <div className="flex flex-col">
-                      {element.zIndex < elements.length - 1 && (
+                    {/* Quick Actions */}
+                    <div className="flex items-center gap-0.5 opacity-0 group-hover:opacity-100 transition-opacity">
+                      {/* Z-index Controls */}
+                      <div className="flex flex-col">
+                        {element.zIndex < elements.length - 1 && (
+                          <TooltipButton
+                            variant="ghost"
+                            size="icon"
+                            className="h-3 w-6"
+                            onClick={(e) => handleMoveUp(element, e)}
+                            tooltip="Move Upward"
+                            tooltipDelay={500}
+                          >
+                            <ChevronUp className="h-3 w-3" />
+                          </TooltipButton>
+                        )}
+                        {element.zIndex > 0 && (
+                          <TooltipButton
+                            variant="ghost"
+                            size="icon"
+                            className="h-3 w-6"
+                            onClick={(e) => handleMoveDown(element, e)}
+                            tooltip="Move Downward"
+                            tooltipDelay={500}
+                          >
+                            <ChevronDown className="h-3 w-3" />
+                          </TooltipButton>
+                        )}
+                      </div>
+
+                      {/* Clipping Mask Toggles */}
+                      <TooltipButton
+                        variant="ghost"
+                        size="icon"
+                        className={cn("h-6 w-6", element.clipMask && "text-primary")}
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          api.updateElements(getMaskToggleUpdates(elements, element.id));
+                        }}
+                        tooltip={element.clipMask ? "Release Mask" : "Use as Mask"}
+                        tooltipDelay={500}
+                      >
+                        <SquareDashed className="h-3 w-3" />
+                      </TooltipButton>
+                      {canClip && (
                         <TooltipButton
                           variant="ghost"
                           size="icon"
-                          className="h-3 w-6"
-                          onClick={(e) => handleMoveUp(element, e)}
-                          tooltip="Move Upward"
+                          className={cn("h-6 w-6", element.clipped && "text-primary")}
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            api.updateElement(element.id, { clipped: !element.clipped });
+                          }}
+                          tooltip={element.clipped ? "Release from Mask" : "Clip to Mask Below"}
                           tooltipDelay={500}
                         >
-                          <ChevronUp className="h-3 w-3" />
+                          <CornerLeftDown className="h-3 w-3" />
                         </TooltipButton>
                       )}
-                      {element.zIndex > 0 && (
-                        <TooltipButton
-                          variant="ghost"
-                          size="icon"
-                          className="h-3 w-6"
-                          onClick={(e) => handleMoveDown(element, e)}
-                          tooltip="Move Downward"
-                          tooltipDelay={500}
-                        >
-                          <ChevronDown className="h-3 w-3" />
-                        </TooltipButton>
-                      )}
-                    </div>
 
-                    {/* Visibility Toggle */}
-                    <TooltipButton
-                      variant="ghost"
-                      size="icon"
-                      className="h-6 w-6"
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        api.updateElement(element.id, { visible: !isVisible });
-                      }}
-                      tooltip={isVisible ? "Hide" : "Show"}
-                      tooltipDelay={500}
-                    >
-                      {isVisible ? <Eye className="h-3 w-3" /> : <EyeOff className="h-3 w-3" />}
-                    </TooltipButton>
-
-                    {/* Lock Toggle */}
-                    <TooltipButton
-                      variant="ghost"
-                      size="icon"
-                      className="h-6 w-6"
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        api.updateElement(element.id, { locked: !isLocked });
-                      }}
-                      tooltip={isLocked ? "Unlock" : "Lock"}
-                      tooltipDelay={500}
-                    >
-                      {isLocked ? <Lock className="h-3 w-3" /> : <Unlock className="h-3 w-3" />}
-                    </TooltipButton>
-
-                    {/* Delete */}
-                    <TooltipButton
-                      variant="ghost"
-                      size="icon"
-                      className="h-6 w-6 text-destructive hover:text-destructive"
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        api.removeElement(element.id);
-                      }}
-                      tooltip="Delete"
-                      tooltipDelay={500}
-                    >
-                      <Trash2 className="h-3 w-3" />
-                    </TooltipButton>
+                      {/* Visibility Toggle */}
+                      <TooltipButton
+                        variant="ghost"
+                        size="icon"
+                        className="h-6 w-6"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          api.updateElement(element.id, { visible: !isVisible });
+                        }}
+                        tooltip={isVisible ? "Hide" : "Show"}
+                        tooltipDelay={500}
+                      >
+                        {isVisible ? <Eye className="h-3 w-3" /> : <EyeOff className="h-3 w-3" />}
+                      </TooltipButton>
+
+                      {/* Lock Toggle */}
+                      <TooltipButton
+                        variant="ghost"
+                        size="icon"
+                        className="h-6 w-6"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          api.updateElement(element.id, { locked: !isLocked });
+                        }}
+                        tooltip={isLocked ? "Unlock" : "Lock"}
+                        tooltipDelay={500}
+                      >
+                        {isLocked ? <Lock className="h-3 w-3" /> : <Unlock className="h-3 w-3" />}
+                      </TooltipButton>
+
+                      {/* Delete */}
+                      <TooltipButton
+                        variant="ghost"
+                        size="icon"
+                        className="h-6 w-6 text-destructive hover:text-destructive"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          api.removeElement(element.id);
+                        }}
+                        tooltip="Delete"
+                        tooltipDelay={500}
+                      >
+                        <Trash2 className="h-3 w-3" />
+                      </TooltipButton>
+                    </div>
                   </div>
-                </div>
+
+                  {/* Group children */}
+                  {isGroupElement(element) && isExpanded && renderChildRows(element, element, 1)}
+                </React.Fragment>
               );
             })
           )}
@@ -292,6 +500,12 @@ export const LayersPanel: React.FC<LayersPanelProps> = ({
       {/* Footer Stats */}
       <div className="border-t p-2">
         <div className="flex items-center justify-between text-xs text-muted-foreground">
+          {selectedIds.length > 1 && (
+            <>
+              <span>{selectedIds.length} selected</span>
+              <span>•</span>
+            </>
+          )}
           <span>{elements.filter((e) => e.visible !== false).length} visible</span>
           <span>•</span>
           <span>{elements.filter((e) => e.locked === true).length} locked</span>
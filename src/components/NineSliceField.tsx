@@ -0,0 +1,162 @@
+/**
+ * Nine-Slice Field Component
+ *
+ * Inspector field for the nine-slice insets of an image: one number per side and a
+ * preview of the (cropped) image with the slice lines drawn over it.
+ */
+
+import React from "react";
+import { Label } from "@/ui/label";
+import { Input } from "@/ui/input";
+import { ImageCrop, ImageSliceInsets, InspectorFieldSchema } from "../types";
+import { normalizeImageCrop } from "../utils/imageUtils";
+import { ImageAtlasFrame } from "../utils/atlasUtils";
+
+export interface NineSliceFieldProps {
+  /** Current insets (unset = not sliced) */
+  value?: ImageSliceInsets;
+
+  /** Callback with the updated insets */
+  onChange: (insets: ImageSliceInsets) => void;
+
+  /** Field schema */
+  field: InspectorFieldSchema;
+
+  /** Resolved URL of the image to preview */
+  imageSrc?: string;
+
+  /** Crop of the image; insets are measured from its edges */
+  crop?: ImageCrop;
+
+  /** Atlas frame the image shows, for atlas sources (`imageSrc` is then the atlas image) */
+  atlasFrame?: ImageAtlasFrame;
+}
+
+const SIDES: { key: keyof ImageSliceInsets; label: string }[] = [
+  { key: "top", label: "Top" },
+  { key: "right", label: "Right" },
+  { key: "bottom", label: "Bottom" },
+  { key: "left", label: "Left" },
+];
+
+const NO_INSETS: ImageSliceInsets = { top: 0, right: 0, bottom: 0, left: 0 };
+
+const LINE_CLASS = "absolute bg-blue-500 pointer-events-none";
+
+/**
+ * Nine-slice inspector field
+ */
+export const NineSliceField: React.FC<NineSliceFieldProps> = ({
+  value,
+  onChange,
+  field,
+  imageSrc,
+  crop,
+  atlasFrame,
+}) => {
+  const insets = value ?? NO_INSETS;
+  const [imageSize, setImageSize] = React.useState<{ width: number; height: number } | null>(null);
+
+  React.useEffect(() => {
+    setImageSize(null);
+  }, [imageSrc]);
+
+  // Cropped part of the image in pixels, which the insets are measured in
+  const base = atlasFrame ?? { x: 0, y: 0, ...(imageSize ?? { width: 0, height: 0 }) };
+  const fraction = normalizeImageCrop(crop);
+  const region = {
+    x: base.x + fraction.x * base.width,
+    y: base.y + fraction.y * base.height,
+    width: fraction.width * base.width,
+    height: fraction.height * base.height,
+  };
+  const regionWidth = imageSize ? region.width : 0;
+  const regionHeight = imageSize ? region.height : 0;
+  const percent = (inset: number, length: number) =>
+    `${Math.min(100, Math.max(0, (inset / length) * 100))}%`;
+
+  return (
+    <div>
+      <Label className="text-xs">{field.label}</Label>
+      {imageSrc && (
+        <div
+          className="relative mt-1 overflow-hidden rounded border bg-muted"
+          style={{
+            aspectRatio: regionWidth && regionHeight ? `${regionWidth} / ${regionHeight}` : "1",
+          }}
+        >
+          <img
+            src={imageSrc}
+            alt=""
+            className="absolute max-w-none"
+            style={
+              imageSize && regionWidth && regionHeight
+                ? {
+                    left: `${(-region.x / regionWidth) * 100}%`,
+                    top: `${(-region.y / regionHeight) * 100}%`,
+                    width: `${(imageSize.width / regionWidth) * 100}%`,
+                    height: `${(imageSize.height / regionHeight) * 100}%`,
+                  }
+                : { visibility: "hidden" }
+            }
+            onLoad={(e) =>
+              setImageSize({
+                width: e.currentTarget.naturalWidth,
+                height: e.currentTarget.naturalHeight,
+              })
+            }
+          />
+          {imageSize && (
+            <>
+              <div
+                className={LINE_CLASS}
+                style={{ left: 0, right: 0, height: 1, top: percent(insets.top, regionHeight) }}
+              />
+              <div
+                className={LINE_CLASS}
+                style={{
+                  left: 0,
+                  right: 0,
+                  height: 1,
+                  bottom: percent(insets.bottom, regionHeight),
+                }}
+              />
+              <div
+                className={LINE_CLASS}
+                style={{ top: 0, bottom: 0, width: 1, left: percent(insets.left, regionWidth) }}
+              />
+              <div
+                className={LINE_CLASS}
+                style={{ top: 0, bottom: 0, width: 1, right: percent(insets.right, regionWidth) }}
+              />
+            </>
+          )}
+        </div>
+      )}
+      <div className="grid grid-cols-4 gap-1 mt-2">
+        {SIDES.map((side) => (
+          <div key={side.key}>
+            <Label htmlFor={`${field.name}-${side.key}`} className="text-[10px]">
+              {side.label}
+            </Label>
+            <Input
+              id={`${field.name}-${side.key}`}
+              type="number"
+              min={0}
+              value={insets[side.key]}
+              onChange={(e) =>
+                onChange({ ...insets, [side.key]: Math.max(0, Number(e.target.value) || 0) })
+              }
+              className="h-8"
+            />
+          </div>
+        ))}
+      </div>
+      {field.description && (
+        <p className="text-xs text-muted-foreground mt-1">{field.description}</p>
+      )}
+    </div>
+  );
+};
+
+export default NineSliceField;
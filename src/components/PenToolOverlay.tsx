@@ -0,0 +1,199 @@
+/**
+ * Pen Tool Overlay Component
+ *
+ * Captures pointer input on the canvas while the pen tool is active and draws a new
+ * path click by click. Click to add a corner anchor, click and drag to pull out smooth
+ * bezier handles, click the first anchor to close the path, and press Enter or
+ * double-click to finish an open path. Escape cancels and Backspace removes the last anchor.
+ */
+
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import { Rect, Path, Line, Circle } from "react-konva";
+import { PathAnchor, PathContour, PathPoint } from "../types";
+import { serializePathData } from "../utils/pathUtils";
+import { isInputFocused } from "../utils/editorUtils";
+import { KonvaEventObject } from "konva/lib/Node";
+
+export interface PenToolOverlayProps {
+  /** Current stage zoom, used to keep markers a constant on-screen size */
+  stageScale?: number;
+
+  /** Called with the finished contour (canvas coordinates) */
+  onComplete: (contour: PathContour) => void;
+
+  /** Called when drawing is cancelled with Escape */
+  onCancel?: () => void;
+}
+
+/** Screen distance (pixels) within which a click on the first anchor closes the path */
+const CLOSE_DISTANCE = 8;
+
+/** Size of the invisible area that captures pointer input around the canvas */
+const CAPTURE_EXTENT = 100000;
+
+const PEN_COLOR = "#3b82f6";
+
+/**
+ * Drop anchors that repeat the previous one (a double-click adds two at the same spot)
+ */
+const dedupeAnchors = (anchors: PathAnchor[]): PathAnchor[] =>
+  anchors.filter((anchor, index) => {
+    const previous = anchors[index - 1];
+    return !previous || Math.hypot(anchor.x - previous.x, anchor.y - previous.y) > 0.5;
+  });
+
+/**
+ * Pen tool overlay - renders inside the canvas layer above the elements
+ */
+export const PenToolOverlay: React.FC<PenToolOverlayProps> = ({
+  stageScale = 1,
+  onComplete,
+  onCancel,
+}) => {
+  const [anchors, setAnchors] = useState<PathAnchor[]>([]);
+  const [cursor, setCursor] = useState<PathPoint | null>(null);
+  const isDragging = useRef(false);
+
+  const getPointer = (e: KonvaEventObject<MouseEvent>): PathPoint | null =>
+    e.target.getLayer()?.getRelativePointerPosition() ?? null;
+
+  const finish = useCallback(
+    (closed: boolean) => {
+      const result = dedupeAnchors(anchors);
+      setAnchors([]);
+      isDragging.current = false;
+      if (result.length >= 2) {
+        onComplete({ anchors: result, closed });
+      }
+    },
+    [anchors, onComplete]
+  );
+
+  // Keyboard shortcuts while drawing
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      // Keys typed into inputs (e.g., inspector fields) don't edit the drawing
+      if (isInputFocused()) return;
+      if (e.key === "Enter") {
+        e.preventDefault();
+        finish(false);
+      } else if (e.key === "Escape") {
+        setAnchors([]);
+        onCancel?.();
+      } else if (e.key === "Backspace" && anchors.length > 0) {
+        // The key edits the drawing, not the selection
+        e.preventDefault();
+        e.stopImmediatePropagation();
+        setAnchors((prev) => prev.slice(0, -1));
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown, true);
+    return () => window.removeEventListener("keydown", handleKeyDown, true);
+  }, [anchors.length, finish, onCancel]);
+
+  const handleMouseDown = (e: KonvaEventObject<MouseEvent>) => {
+    if (e.evt.button !== 0) return;
+    const point = getPointer(e);
+    if (!point) return;
+
+    // Clicking the first anchor closes the path
+    const first = anchors[0];
+    if (
+      first &&
+      anchors.length >= 2 &&
+      Math.hypot(point.x - first.x, point.y - first.y) * stageScale <= CLOSE_DISTANCE
+    ) {
+      finish(true);
+      return;
+    }
+
+    isDragging.current = true;
+    setAnchors((prev) => [...prev, { x: point.x, y: point.y }]);
+  };
+
+  const handleMouseMove = (e: KonvaEventObject<MouseEvent>) => {
+    const point = getPointer(e);
+    if (!point) return;
+    setCursor(point);
+
+    // Dragging after a click pulls out symmetric handles on the new anchor
+    if (!isDragging.current) return;
+    setAnchors((prev) => {
+      const last = prev[prev.length - 1];
+      if (!last) return prev;
+      const handleOut = { x: point.x, y: point.y };
+      const handleIn = { x: 2 * last.x - point.x, y: 2 * last.y - point.y };
+      return [...prev.slice(0, -1), { ...last, handleIn, handleOut }];
+    });
+  };
+
+  const handleMouseUp = () => {
+    isDragging.current = false;
+  };
+
+  const last = anchors[anchors.length - 1];
+  const markerRadius = 4 / stageScale;
+
+  return (
+    <>
+      {/* Transparent capture area - keeps clicks from reaching elements and the stage */}
+      <Rect
+        x={-CAPTURE_EXTENT / 2}
+        y={-CAPTURE_EXTENT / 2}
+        width={CAPTURE_EXTENT}
+        height={CAPTURE_EXTENT}
+        fill="transparent"
+        onMouseDown={handleMouseDown}
+        onMouseMove={handleMouseMove}
+        onMouseUp={handleMouseUp}
+        onDblClick={() => finish(false)}
+      />
+
+      {/* Path drawn so far */}
+      {anchors.length > 1 && (
+        <Path
+          data={serializePathData([{ anchors, closed: false }])}
+          stroke={PEN_COLOR}
+          strokeWidth={2 / stageScale}
+          listening={false}
+        />
+      )}
+
+      {/* Rubber band from the last anchor to the pointer */}
+      {last && cursor && !isDragging.current && (
+        <Line
+          points={[last.x, last.y, cursor.x, cursor.y]}
+          stroke={PEN_COLOR}
+          strokeWidth={1 / stageScale}
+          dash={[4 / stageScale, 4 / stageScale]}
+          listening={false}
+        />
+      )}
+
+      {/* Handles of the anchor being dragged */}
+      {last?.handleIn && last.handleOut && (
+        <Line
+          points={[last.handleIn.x, last.handleIn.y, last.handleOut.x, last.handleOut.y]}
+          stroke={PEN_COLOR}
+          strokeWidth={1 / stageScale}
+          listening={false}
+        />
+      )}
+
+      {anchors.map((anchor, index) => (
+        <Circle
+          key={index}
+          x={anchor.x}
+          y={anchor.y}
+          radius={index === 0 ? markerRadius * 1.5 : markerRadius}
+          fill="#ffffff"
+          stroke={PEN_COLOR}
+          strokeWidth={1.5 / stageScale}
+          listening={false}
+        />
+      ))}
+    </>
+  );
+};
+
+export default PenToolOverlay;
@@ -0,0 +1,166 @@
+/**
+ * Rich Text Field Component
+ *
+ * Inspector field for editing rich text runs: a plain text editor plus style controls
+ * that apply to the selected character range.
+ */
+
+import React from "react";
+import { Label } from "@/ui/label";
+import { Input } from "@/ui/input";
+import { Textarea } from "@/ui/textarea";
+import { TooltipButton } from "@/ui/general/TooltipButton";
+import { Bold, Italic, Underline, Strikethrough, RemoveFormatting } from "lucide-react";
+import { InspectorFieldSchema, TextRun, TextRunStyle } from "../types";
+import { IconPicker } from "./IconPicker";
+import { IconUrlMap, formatIconToken } from "../utils/iconUtils";
+import {
+  applyRunStyle,
+  clearRunStyle,
+  getRangeStyle,
+  getRunsText,
+  setRunsText,
+} from "../utils/richTextUtils";
+
+export interface RichTextFieldProps {
+  /** Current runs */
+  value: TextRun[];
+
+  /** Callback with the updated runs */
+  onChange: (runs: TextRun[]) => void;
+
+  /** Field schema */
+  field: InspectorFieldSchema;
+
+  /** Element defaults shown when the selection has no inline color or size */
+  defaultColor?: string;
+  defaultFontSize?: number;
+
+  /** Icon map; when set, an icon picker inserts icon tokens at the caret */
+  icons?: IconUrlMap;
+
+  /** Image URL mapping for icons stored as asset keys */
+  imageUrls?: Map<string, string>;
+}
+
+type ToggleStyle = "bold" | "italic" | "underline" | "strikethrough";
+
+const TOGGLES: { key: ToggleStyle; label: string; icon: React.ReactNode }[] = [
+  { key: "bold", label: "Bold", icon: <Bold className="h-4 w-4" /> },
+  { key: "italic", label: "Italic", icon: <Italic className="h-4 w-4" /> },
+  { key: "underline", label: "Underline", icon: <Underline className="h-4 w-4" /> },
+  { key: "strikethrough", label: "Strikethrough", icon: <Strikethrough className="h-4 w-4" /> },
+];
+
+/**
+ * Rich text inspector field
+ */
+export const RichTextField: React.FC<RichTextFieldProps> = ({
+  value,
+  onChange,
+  field,
+  defaultColor = "#000000",
+  defaultFontSize = 16,
+  icons,
+  imageUrls,
+}) => {
+  const runs = React.useMemo(() => value || [], [value]);
+  const text = getRunsText(runs);
+  const [selection, setSelection] = React.useState({ start: 0, end: 0 });
+
+  // Keep the remembered selection inside the text when it shrinks
+  const start = Math.min(selection.start, text.length);
+  const end = Math.min(selection.end, text.length);
+  const hasSelection = end > start;
+  const rangeStyle = getRangeStyle(runs, start, end);
+
+  const handleSelect = (e: React.SyntheticEvent<HTMLTextAreaElement>) => {
+    const target = e.currentTarget;
+    setSelection({ start: target.selectionStart, end: target.selectionEnd });
+  };
+
+  // Replace the selection with an icon token, styled like the text before it
+  const insertIcon = (name: string) => {
+    const token = formatIconToken(name);
+    onChange(setRunsText(runs, text.slice(0, start) + token + text.slice(end)));
+    setSelection({ start: start + token.length, end: start + token.length });
+  };
+
+  const applyStyle = (style: Partial<TextRunStyle>) => {
+    if (!hasSelection) return;
+    onChange(applyRunStyle(runs, start, end, style));
+  };
+
+  return (
+    <div>
+      <Label htmlFor={field.name} className="text-xs">
+        {field.label}
+      </Label>
+      <Textarea
+        id={field.name}
+        value={text}
+        onChange={(e) => onChange(setRunsText(runs, e.target.value))}
+        onSelect={handleSelect}
+        className="mt-1"
+        rows={3}
+      />
+
+      {/* Style controls for the selected range */}
+      <div className="flex flex-wrap items-center gap-1 mt-2">
+        {TOGGLES.map((toggle) => (
+          <TooltipButton
+            key={toggle.key}
+            variant={rangeStyle[toggle.key] ? "default" : "outline"}
+            size="sm"
+            className="icon-button"
+            tooltip={toggle.label}
+            tooltipDelay={500}
+            disabled={!hasSelection}
+            aria-pressed={!!rangeStyle[toggle.key]}
+            onClick={() => applyStyle({ [toggle.key]: rangeStyle[toggle.key] ? undefined : true })}
+          >
+            {toggle.icon}
+          </TooltipButton>
+        ))}
+        <Input
+          type="color"
+          aria-label="Selection color"
+          value={rangeStyle.color ?? defaultColor}
+          disabled={!hasSelection}
+          onChange={(e) => applyStyle({ color: e.target.value })}
+          className="h-8 w-10 p-1"
+        />
+        <Input
+          type="number"
+          aria-label="Selection font size"
+          min={1}
+          value={rangeStyle.fontSize ?? defaultFontSize}
+          disabled={!hasSelection}
+          onChange={(e) => {
+            const size = Number(e.target.value);
+            if (size > 0) applyStyle({ fontSize: size });
+          }}
+          className="h-8 w-16"
+        />
+        <TooltipButton
+          variant="outline"
+          size="sm"
+          className="icon-button"
+          tooltip="Clear Formatting"
+          tooltipDelay={500}
+          disabled={!hasSelection}
+          onClick={() => onChange(clearRunStyle(runs, start, end))}
+        >
+          <RemoveFormatting className="h-4 w-4" />
+        </TooltipButton>
+        {icons && <IconPicker icons={icons} imageUrls={imageUrls} onSelect={insertIcon} />}
+      </div>
+
+      {field.description && (
+        <p className="text-xs text-muted-foreground mt-1">{field.description}</p>
+      )}
+    </div>
+  );
+};
+
+export default RichTextField;
@@ -0,0 +1,204 @@
+/**
+ * Text Edit Overlay Component
+ *
+ * In-place editor for text elements. A textarea is laid over the element's Konva node,
+ * positioned, scaled and rotated with the node's absolute transform (so it follows the
+ * current pan and zoom) and styled with the element's font. Enter or blur commits the
+ * edit and Escape cancels it; Shift+Enter inserts a line break.
+ */
+
+import React, { useLayoutEffect, useRef, useState } from "react";
+import type Konva from "konva";
+import { EditorElement, TextElementProps } from "../types";
+import { getTextTypography } from "../utils/typographyUtils";
+import { getFillColor } from "../utils/fillUtils";
+
+export interface TextEditOverlayProps {
+  /** Text element being edited */
+  element: EditorElement<TextElementProps>;
+
+  /** Stage the element is drawn on */
+  stageRef: React.RefObject<Konva.Stage>;
+
+  /** Positioned element the overlay is placed in (usually the canvas container) */
+  containerRef: React.RefObject<HTMLElement>;
+
+  /** Current zoom and pan; the overlay is re-positioned when they change */
+  stageScale: number;
+  stagePosition: { x: number; y: number };
+
+  /** Called with the edited content */
+  onCommit: (content: string) => void;
+
+  /** Called when editing is cancelled with Escape */
+  onCancel: () => void;
+}
+
+interface OverlayPlacement {
+  left: number;
+  top: number;
+  matrix: number[];
+  fontSize: number;
+}
+
+/**
+ * Build the CSS text decoration of a text element
+ */
+const getTextDecoration = (props: TextElementProps): string => {
+  const decorations: string[] = [];
+  if (props.underline) decorations.push("underline");
+  if (props.strikethrough) decorations.push("line-through");
+  if (props.overline) decorations.push("overline");
+  return decorations.join(" ") || "none";
+};
+
+/**
+ * Text edit overlay - an HTML textarea matching the text node under it
+ */
+export const TextEditOverlay: React.FC<TextEditOverlayProps> = ({
+  element,
+  stageRef,
+  containerRef,
+  stageScale,
+  stagePosition,
+  onCommit,
+  onCancel,
+}) => {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [value, setValue] = useState(element.props.content || "");
+  const [placement, setPlacement] = useState<OverlayPlacement | null>(null);
+  // Enter and Escape end the edit before the textarea blurs; the blur must not commit again
+  const isDone = useRef(false);
+
+  const { width, height } = element.size;
+
+  useLayoutEffect(() => {
+    const stage = stageRef.current;
+    const container = containerRef.current;
+    const node = stage?.findOne(`#${element.id}`);
+    if (!stage || !container || !node) return;
+
+    // The drawn font size (e.g., after shrink-to-fit) can differ from the stored one
+    const textNode =
+      node.getClassName() === "Text" ? node : (node as Konva.Container).findOne("Text");
+    const stageBox = stage.container().getBoundingClientRect();
+    const containerBox = container.getBoundingClientRect();
+    setPlacement({
+      left: stageBox.left - containerBox.left,
+      top: stageBox.top - containerBox.top,
+      matrix: node.getAbsoluteTransform().getMatrix(),
+      fontSize: textNode ? (textNode as Konva.Text).fontSize() : element.props.fontSize || 16,
+    });
+  }, [
+    stageRef,
+    containerRef,
+    element.id,
+    element.position.x,
+    element.position.y,
+    element.rotation,
+    element.props.fontSize,
+    width,
+    height,
+    stageScale,
+    stagePosition.x,
+    stagePosition.y,
+  ]);
+
+  // Focus once positioned, with the whole text selected
+  const isPlaced = placement !== null;
+  useLayoutEffect(() => {
+    if (!isPlaced || !textareaRef.current) return;
+    textareaRef.current.focus();
+    textareaRef.current.select();
+  }, [isPlaced]);
+
+  // Grow with the text, so lines past the bottom of the box stay visible while typing
+  useLayoutEffect(() => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    textarea.style.height = "auto";
+    textarea.style.height = `${Math.max(height, textarea.scrollHeight)}px`;
+  }, [value, height, isPlaced]);
+
+  const finish = (commit: boolean) => {
+    if (isDone.current) return;
+    isDone.current = true;
+    if (commit) {
+      onCommit(value);
+    } else {
+      onCancel();
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    // Keep editor shortcuts (delete, nudge, undo) away from the text
+    e.stopPropagation();
+    if (e.key === "Escape") {
+      e.preventDefault();
+      finish(false);
+    } else if (e.key === "Enter" && !e.shiftKey) {
+      e.preventDefault();
+      finish(true);
+    }
+  };
+
+  if (!placement) return null;
+
+  const { props } = element;
+  const typography = getTextTypography(props);
+  const isVertical = typography.writingMode === "vertical";
+  return (
+    <textarea
+      ref={textareaRef}
+      aria-label="Edit text"
+      value={value}
+      onChange={(e) => setValue(e.target.value)}
+      onKeyDown={handleKeyDown}
+      onBlur={() => finish(true)}
+      spellCheck={false}
+      style={{
+        position: "absolute",
+        left: placement.left,
+        top: placement.top,
+        width,
+        minHeight: height,
+        transformOrigin: "0 0",
+        transform: `matrix(${placement.matrix.join(", ")})`,
+        zIndex: 20,
+        margin: 0,
+        padding: typography.padding,
+        boxSizing: "border-box",
+        border: "none",
+        outline: "1px dashed #3b82f6",
+        background:
+          props.backgroundColor && (props.backgroundOpacity ?? 1) > 0
+            ? props.backgroundColor
+            : "transparent",
+        borderRadius: props.backgroundCornerRadius || 0,
+        resize: "none",
+        overflow: "hidden",
+        whiteSpace: "pre-wrap",
+        overflowWrap: "break-word",
+        color: getFillColor(props.color),
+        fontFamily: props.fontFamily || "Arial",
+        fontSize: placement.fontSize,
+        fontWeight: props.bold ? "bold" : "normal",
+        fontStyle: props.italic ? "italic" : "normal",
+        textDecoration: getTextDecoration(props),
+        textAlign: props.align || "left",
+        lineHeight: typography.lineHeight,
+        letterSpacing: typography.letterSpacing,
+        textTransform:
+          typography.textTransform === "smallCaps" || typography.textTransform === "none"
+            ? "none"
+            : typography.textTransform,
+        fontVariant: typography.textTransform === "smallCaps" ? "small-caps" : "normal",
+        writingMode: isVertical ? "vertical-rl" : "horizontal-tb",
+        textOrientation: isVertical ? "upright" : "mixed",
+        opacity: element.opacity,
+      }}
+    />
+  );
+};
+
+export default TextEditOverlay;
@@ -7,9 +7,10 @@
 import React from "react";
 import { Separator } from "@/ui/separator";
 import { TooltipButton } from "@/ui/general/TooltipButton";
-import { Plus } from "lucide-react";
-import { EditorAPI, ElementRenderer, ToolbarConfig } from "../types";
+import { Plus, PenTool } from "lucide-react";
+import { EditorAPI, EditorTool, ElementRenderer, ToolbarConfig } from "../types";
 import { createElement } from "../utils/editorUtils";
+import { PATH_ELEMENT_TYPE } from "../utils/pathUtils";
 import { useEditorState } from "../core/useEditorState";
 import CustomActionRenderer from "./CustomActionRenderer";
 
@@ -26,6 +27,12 @@ export interface ToolbarProps {
   /** Configuration for toolbar visibility and custom tools */
   config?: ToolbarConfig;
 
+  /** Active canvas tool, highlighted in the toolbar */
+  activeTool?: EditorTool;
+
+  /** Callback to switch canvas tools. The pen tool button is only shown when provided. */
+  onToolChange?: (tool: EditorTool) => void;
+
   /** Optional custom style */
   style?: React.CSSProperties;
 
@@ -41,6 +48,8 @@ export const Toolbar: React.FC<ToolbarProps> = ({
   elementRenderers,
   canvasSize,
   config,
+  activeTool = "select",
+  onToolChange,
   style,
   className,
 }) => {
@@ -62,9 +71,19 @@ export const Toolbar: React.FC<ToolbarProps> = ({
 
   // Filter element renderers based on configuration
   const visibleRenderers = showElementTools
-    ? elementRenderers.filter((renderer) => !hiddenElementTypes.includes(renderer.type))
+    ? elementRenderers.filter(
+        (renderer) => renderer.creatable !== false && !hiddenElementTypes.includes(renderer.type)
+      )
     : [];
 
+  // The pen tool draws path elements, so it follows the path element's visibility
+  const showPenTool =
+    !!onToolChange &&
+    showElementTools &&
+    elementRenderers.some((renderer) => renderer.type === PATH_ELEMENT_TYPE) &&
+    !hiddenElementTypes.includes(PATH_ELEMENT_TYPE);
+  const hasElementTools = visibleRenderers.length > 0 || showPenTool;
+
   // Create a new element of the given type
   const handleCreateElement = (renderer: ElementRenderer) => {
     const newElement = createElement(renderer.type, renderer.defaultProps, {
@@ -102,14 +121,14 @@ export const Toolbar: React.FC<ToolbarProps> = ({
             ))}
           </div>
           {/* Separator after start tools if there are more sections */}
-          {(visibleRenderers.length > 0 || endTools.length > 0) && (
+          {(hasElementTools || endTools.length > 0) && (
             <Separator orientation="horizontal" />
           )}
         </>
       )}
 
       {/* Element Creation Buttons */}
-      {visibleRenderers.length > 0 && (
+      {hasElementTools && (
         <>
           <div className="flex flex-col gap-1">
             {visibleRenderers.map((renderer) => (
@@ -126,6 +145,20 @@ export const Toolbar: React.FC<ToolbarProps> = ({
                 {renderer.icon || <Plus className="h-4 w-4" />}
               </TooltipButton>
             ))}
+            {showPenTool && (
+              <TooltipButton
+                variant={activeTool === "pen" ? "default" : "outline"}
+                size="sm"
+                onClick={() => onToolChange?.(activeTool === "pen" ? "select" : "pen")}
+                className="icon-button"
+                tooltip="Pen Tool"
+                tooltipDelay={500}
+                tooltipSide="right"
+                aria-pressed={activeTool === "pen"}
+              >
+                <PenTool className="h-4 w-4" />
+              </TooltipButton>
+            )}
           </div>
           {/* Separator after element tools if there are end tools */}
           {endTools.length > 0 && (
@@ -7,8 +7,22 @@
 import React from "react";
 import { Separator } from "@/ui/separator";
 import { TooltipButton } from "@/ui/general/TooltipButton";
-import { Undo, Redo, Trash2, Download, Upload, Copy, Clipboard, CopyPlus, Image, X } from "lucide-react";
-import { EditorAPI, TopbarConfig } from "../types";
+import {
+  Undo,
+  Redo,
+  Trash2,
+  Download,
+  Upload,
+  Copy,
+  Clipboard,
+  CopyPlus,
+  Group,
+  Ungroup,
+  Image,
+  X,
+} from "lucide-react";
+import { isGroupElement } from "../utils/groupUtils";
+import { EditorAPI, EditorElement, EditorFill, TopbarConfig } from "../types";
 import { Input } from "@/ui/input";
 import { Button } from "@/ui/button";
 import {
@@ -18,7 +32,10 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/ui/select";
+import { Popover, PopoverContent, PopoverTrigger } from "@/ui/popover";
 import CustomActionRenderer from "./CustomActionRenderer";
+import { GradientEditor } from "./GradientEditor";
+import { getCssFill } from "../utils/fillUtils";
 
 export interface TopbarProps {
   /** Editor API for performing actions */
@@ -48,11 +65,11 @@ export interface TopbarProps {
   /** Set canvas size callback */
   setCanvasSize: (width: number, height: number) => void;
 
-  /** Background color */
-  backgroundColor?: string;
+  /** Background fill (a color or a gradient) */
+  backgroundColor?: EditorFill;
 
-  /** Set background color callback */
-  setBackgroundColor?: (color: string) => void;
+  /** Set background fill callback */
+  setBackgroundColor?: (color: EditorFill) => void;
 
   /** Background image filename */
   backgroundImage?: string;
@@ -63,8 +80,8 @@ export interface TopbarProps {
   /** Available images from context (for image picker) */
   imageUrls?: Map<string, string>;
 
-  /** Clipboard ref for copy/paste operations */
-  clipboardRef?: React.MutableRefObject<any>;
+  /** Clipboard ref for copy/paste operations (holds the elements copied together) */
+  clipboardRef?: React.MutableRefObject<EditorElement[]>;
 
   /** Enable snap guides */
   enableSnapGuides?: boolean;
@@ -107,7 +124,10 @@ export const Topbar: React.FC<TopbarProps> = ({
   style,
   className,
 }) => {
-  const selectedElement = api.getSelectedElement();
+  const selectedElements = api.getSelectedElements();
+  const hasSelection = selectedElements.length > 0;
+  const canGroup = selectedElements.length > 1;
+  const canUngroup = isGroupElement(api.getSelectedElement());
 
   // Default config values
   const {
@@ -117,6 +137,7 @@ export const Topbar: React.FC<TopbarProps> = ({
     showCopy = true,
     showPaste = true,
     showDuplicate = true,
+    showGroup = true,
     showExport = true,
     showImport = true,
     showCanvasSize = true,
@@ -147,31 +168,40 @@ export const Topbar: React.FC<TopbarProps> = ({
   // Combine actionsEnd with default snap guides and customActions for backwards compatibility
   const endActions = [...actionsEnd, ...defaultSnapGuidesAction, ...customActions];
 
-  // Delete selected element
+  // Delete selected elements
   const handleDelete = () => {
-    if (selectedElement) {
-      api.removeElement(selectedElement.id);
+    if (hasSelection) {
+      api.removeElements(selectedElements.map((el) => el.id));
     }
   };
 
-  // Copy selected element
+  // Copy selected elements
   const handleCopy = () => {
-    const copied = api.copyElement();
-    if (copied && clipboardRef) {
+    const copied = api.copyElements();
+    if (copied.length > 0 && clipboardRef) {
       clipboardRef.current = copied;
     }
   };
 
   // Paste from clipboard
   const handlePaste = () => {
-    if (clipboardRef?.current) {
-      api.pasteElement(clipboardRef.current);
+    if (clipboardRef?.current?.length) {
+      api.pasteElements(clipboardRef.current);
     }
   };
 
-  // Duplicate selected element
+  // Duplicate selected elements
   const handleDuplicate = () => {
-    api.duplicateElement();
+    api.duplicateElements();
+  };
+
+  // Group selected elements / ungroup the selected group
+  const handleGroup = () => {
+    api.groupElements();
+  };
+
+  const handleUngroup = () => {
+    api.ungroup();
   };
 
   // Helper to check if an action should be disabled
@@ -220,13 +250,23 @@ export const Topbar: React.FC<TopbarProps> = ({
           {setBackgroundColor && backgroundColor && (
             <div className="flex items-center gap-1">
               <span className="text-xs text-muted-foreground whitespace-nowrap">BG:</span>
-              <Input
-                placeholder="#000000"
-                className="h-8 w-24"
-                type="color"
-                value={backgroundColor}
-                onChange={(e) => setBackgroundColor(e.target.value)}
-              />
+              <Popover>
+                <PopoverTrigger asChild>
+                  <button
+                    type="button"
+                    aria-label="Background fill"
+                    className="h-8 w-24 rounded-md border"
+                    style={{ background: getCssFill(backgroundColor) }}
+                  />
+                </PopoverTrigger>
+                <PopoverContent className="w-64 p-2" align="start">
+                  <GradientEditor
+                    id="background-fill"
+                    value={backgroundColor}
+                    onChange={setBackgroundColor}
+                  />
+                </PopoverContent>
+              </Popover>
             </div>
           )}
           {setBackgroundImage && imageUrls && imageUrls.size > 0 && (
@@ -342,6 +382,7 @@ export const Topbar: React.FC<TopbarProps> = ({
             {(showCopy ||
               showPaste ||
               showDuplicate ||
+              showGroup ||
               showDelete ||
               (showExport && onExport) ||
               (showImport && onImport) ||
@@ -350,7 +391,7 @@ export const Topbar: React.FC<TopbarProps> = ({
         )}
 
         {/* Element Actions */}
-        {(showCopy || showPaste || showDuplicate || showDelete) && (
+        {(showCopy || showPaste || showDuplicate || showGroup || showDelete) && (
           <>
             <div className="flex items-center gap-1">
               {showCopy && (
@@ -358,7 +399,7 @@ export const Topbar: React.FC<TopbarProps> = ({
                   variant="ghost"
                   size="icon"
                   onClick={handleCopy}
-                  disabled={!selectedElement}
+                  disabled={!hasSelection}
                   className="h-8 w-8"
                   tooltip="Copy"
                   shortcut="Ctrl+C"
@@ -373,7 +414,7 @@ export const Topbar: React.FC<TopbarProps> = ({
                   variant="ghost"
                   size="icon"
                   onClick={handlePaste}
-                  disabled={!clipboardRef?.current}
+                  disabled={!clipboardRef?.current?.length}
                   className="h-8 w-8"
                   tooltip="Paste"
                   shortcut="Ctrl+V"
@@ -388,7 +429,7 @@ export const Topbar: React.FC<TopbarProps> = ({
                   variant="ghost"
                   size="icon"
                   onClick={handleDuplicate}
-                  disabled={!selectedElement}
+                  disabled={!hasSelection}
                   className="h-8 w-8"
                   tooltip="Duplicate"
                   shortcut="Ctrl+D"
@@ -398,12 +439,42 @@ export const Topbar: React.FC<TopbarProps> = ({
                 </TooltipButton>
               )}
 
+              {showGroup && (
+                <TooltipButton
+                  variant="ghost"
+                  size="icon"
+                  onClick={handleGroup}
+                  disabled={!canGroup}
+                  className="h-8 w-8"
+                  tooltip="Group"
+                  shortcut="Ctrl+G"
+                  tooltipDelay={500}
+                >
+                  <Group className="h-4 w-4" />
+                </TooltipButton>
+              )}
+
+              {showGroup && (
+                <TooltipButton
+                  variant="ghost"
+                  size="icon"
+                  onClick={handleUngroup}
+                  disabled={!canUngroup}
+                  className="h-8 w-8"
+                  tooltip="Ungroup"
+                  shortcut="Ctrl+Shift+G"
+                  tooltipDelay={500}
+                >
+                  <Ungroup className="h-4 w-4" />
+                </TooltipButton>
+              )}
+
               {showDelete && (
                 <TooltipButton
                   variant="ghost"
                   size="icon"
                   onClick={handleDelete}
-                  disabled={!selectedElement}
+                  disabled={!hasSelection}
                   className="h-8 w-8 text-destructive hover:text-destructive"
                   tooltip="Delete Selected"
                   shortcut="Delete"
@@ -9,12 +9,29 @@ import React, { useCallback, useImperativeHandle } from "react";
 import { Topbar } from "./Topbar";
 import { Inspector } from "./Inspector";
 import { LayersPanel } from "./LayersPanel";
+import { HistoryPanel } from "./HistoryPanel";
 import { Canvas } from "./Canvas";
 import { useEditorState } from "../core/useEditorState";
 import { useElementRegistry } from "../core/ElementRegistry";
 import { defaultElements } from "../elements";
-import { exportToJSON, importFromJSON } from "../utils/editorUtils";
-import type { EditorMode, CanvasExport, EditorAPI, EditorElement } from "../types";
+import {
+  canvasExportToDocument,
+  exportToJSON,
+  importFromJSON,
+  isInputFocused,
+} from "../utils/editorUtils";
+import { PATH_ELEMENT_TYPE, createPathElement } from "../utils/pathUtils";
+import type {
+  EditorMode,
+  CanvasExport,
+  EditorAPI,
+  EditorElement,
+  EditorFill,
+  EditorMiddleware,
+  EditorTool,
+  PathContour,
+  PathElementProps,
+} from "../types";
 import { Toolbar } from "./Toolbar";
 
 export interface VisualEditorWorkspaceProps {
@@ -51,6 +68,9 @@ export interface VisualEditorWorkspaceProps {
   /** Whether to show the layers panel */
   showLayers?: boolean;
 
+  /** Whether to show the history panel */
+  showHistory?: boolean;
+
   /** Whether to show the asset picker (if defined in mode) */
   showAssetPicker?: boolean;
 
@@ -74,6 +94,12 @@ export interface VisualEditorWorkspaceProps {
 
   /** Ref to access the editor API */
   apiRef?: React.Ref<EditorAPI>;
+
+  /** Maximum number of undo steps kept in history (overrides the mode, 0 = unlimited) */
+  maxHistory?: number;
+
+  /** Middleware that validates, rewrites or cancels actions (runs after the mode's middleware) */
+  middleware?: EditorMiddleware[];
 }
 
 /**
@@ -91,6 +117,7 @@ export const VisualEditorWorkspace: React.FC<VisualEditorWorkspaceProps> = ({
   showToolbar = true,
   showInspector = true,
   showLayers = true,
+  showHistory = false,
   showAssetPicker = true,
   showCanvas = true,
   enableSnapGuides = true,
@@ -99,6 +126,8 @@ export const VisualEditorWorkspace: React.FC<VisualEditorWorkspaceProps> = ({
   hideElements = false,
   className = "",
   apiRef,
+  maxHistory,
+  middleware,
 }) => {
   // Memoize element list to prevent re-registration
   const elementList = React.useMemo(() => {
@@ -109,39 +138,63 @@ export const VisualEditorWorkspace: React.FC<VisualEditorWorkspaceProps> = ({
   const registry = useElementRegistry(elementList);
 
   // Initialize editor state
-  const { state, api, undo, redo, canUndo, canRedo, setCanvasSize } = useEditorState(mode || null);
+  const { state, api, undo, redo, canUndo, canRedo, setCanvasSize } = useEditorState(
+    mode || null,
+    { maxHistory, middleware }
+  );
 
-  // Clipboard ref for copy/paste operations
-  const clipboardRef = React.useRef<EditorElement | null>(null);
+  // Active canvas tool (the pen tool draws new paths)
+  const [activeTool, setActiveTool] = React.useState<EditorTool>("select");
+
+  // Add a path drawn with the pen tool, then return to the select tool
+  const handleDrawPath = useCallback(
+    (contour: PathContour) => {
+      // Styling comes from the path renderer's defaults; geometry comes from the drawing
+      const defaults = (registry.get(PATH_ELEMENT_TYPE)?.defaultProps ||
+        {}) as Partial<PathElementProps>;
+      const { fill, stroke, strokeWidth, fillRule } = defaults;
+      const element = createPathElement([contour], { fill, stroke, strokeWidth, fillRule }, {
+        zIndex: api.getAllElements().length,
+      });
+      api.addElement(element);
+      api.selectElement(element.id);
+      setActiveTool("select");
+    },
+    [api, registry]
+  );
+
+  // Clipboard ref for copy/paste operations (holds every element copied together)
+  const clipboardRef = React.useRef<EditorElement[]>([]);
 
   // Snap guides state (controlled internally)
   const [snapGuidesEnabled, setSnapGuidesEnabled] = React.useState(enableSnapGuides);
 
-  // Background color state (controlled locally, initialized from mode)
-  const [backgroundColor, setBackgroundColor] = React.useState(
-    mode?.backgroundColor || "#1a1a1a"
-  );
-
-  // Background image state (controlled locally, initialized from mode)
-  const [backgroundImage, setBackgroundImage] = React.useState<string>(
-    mode?.backgroundImage || ""
+  // Background is part of the document (undoable and exported), initialized from mode
+  const backgroundColor = state.backgroundColor || "#1a1a1a";
+  const backgroundImage = state.backgroundImage || "";
+  const setBackgroundColor = useCallback(
+    (color: EditorFill) => api.setBackground({ color }),
+    [api]
   );
+  const setBackgroundImage = useCallback((image: string) => api.setBackground({ image }), [api]);
 
   // Sync external enableSnapGuides prop changes
   React.useEffect(() => {
     setSnapGuidesEnabled(enableSnapGuides);
   }, [enableSnapGuides]);
 
-  // Sync mode backgroundColor changes
+  // Sync mode backgroundColor changes (mode configuration is not an undoable edit)
   React.useEffect(() => {
     if (mode?.backgroundColor) {
-      setBackgroundColor(mode.backgroundColor);
+      api.loadDocument({ backgroundColor: mode.backgroundColor });
     }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [mode?.backgroundColor]);
 
   // Sync mode backgroundImage changes (including empty string to clear)
   React.useEffect(() => {
-    setBackgroundImage(mode?.backgroundImage || "");
+    api.loadDocument({ backgroundImage: mode?.backgroundImage || "" });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [mode?.backgroundImage]);
 
   // Sync canvas size with editor state (editor state is the source of truth)
@@ -152,19 +205,17 @@ export const VisualEditorWorkspace: React.FC<VisualEditorWorkspaceProps> = ({
 
   // Load initial data
   React.useEffect(() => {
-    if (initialData && initialData.elements && initialData.elements.length > 0) {
-      // Use loadElements to avoid recording history
-      api.loadElements(initialData.elements);
-      if (initialData.width && initialData.height) {
-        setCanvasSize(initialData.width, initialData.height);
-      }
+    if (initialData && initialData.elements) {
+      // Use loadDocument to avoid recording history
+      api.loadDocument(canvasExportToDocument(initialData));
     }
   }, []); // Only run once on mount
 
   // Get available element renderers for toolbar
   const availableRenderers = Array.from(registry.getAll().values());
 
-  // Get current selection and renderer for inspector
+  // Get current selection and renderer for inspector (the inspector edits the primary selection)
+  const selectedElementIds = state.selectedElementIds;
   const selectedElement = state.selectedElementId
     ? state.elements.find((el) => el.id === state.selectedElementId) || null
     : null;
@@ -174,9 +225,7 @@ export const VisualEditorWorkspace: React.FC<VisualEditorWorkspaceProps> = ({
   // Handle export
   const handleExport = useCallback(() => {
     const data: CanvasExport = {
-      width: canvasSize.width,
-      height: canvasSize.height,
-      elements: state.elements,
+      ...api.exportJSON(),
       metadata: {
         version: "1.0",
         mode: mode?.name || "default",
@@ -192,7 +241,7 @@ export const VisualEditorWorkspace: React.FC<VisualEditorWorkspaceProps> = ({
     a.download = `canvas-${Date.now()}.json`;
     a.click();
     URL.revokeObjectURL(url);
-  }, [state.elements, canvasSize, mode]);
+  }, [api, mode]);
 
   // Handle import
   const handleImport = useCallback(() => {
@@ -208,16 +257,8 @@ export const VisualEditorWorkspace: React.FC<VisualEditorWorkspaceProps> = ({
         const imported = importFromJSON(text);
 
         if (imported) {
-          // Clear current elements
-          state.elements.forEach((el) => api.removeElement(el.id));
-
-          // Load imported elements
-          imported.elements.forEach((el) => api.addElement(el));
-
-          // Update canvas size
-          if (imported.width && imported.height) {
-            setCanvasSize(imported.width, imported.height);
-          }
+          // Replace the whole document (elements, size, background) in a single undo step
+          api.importJSON(imported);
         }
       } catch (error) {
         console.error("Failed to import:", error);
@@ -225,7 +266,7 @@ export const VisualEditorWorkspace: React.FC<VisualEditorWorkspaceProps> = ({
       }
     };
     input.click();
-  }, [state.elements, api]);
+  }, [api]);
 
   // Notify parent of changes (use ref to prevent infinite loops)
   const onChangeRef = React.useRef(onChange);
@@ -239,19 +280,24 @@ export const VisualEditorWorkspace: React.FC<VisualEditorWorkspaceProps> = ({
         width: canvasSize.width,
         height: canvasSize.height,
         elements: state.elements,
+        backgroundColor: state.backgroundColor,
+        backgroundImage: state.backgroundImage,
+        // Kept in metadata for consumers of the previous format
         metadata: {
-          backgroundColor: backgroundColor,
-          backgroundImage: backgroundImage,
+          backgroundColor: state.backgroundColor,
+          backgroundImage: state.backgroundImage,
         },
       });
     }
-  }, [state.elements, canvasSize, backgroundColor, backgroundImage]);
+  }, [state.elements, canvasSize, state.backgroundColor, state.backgroundImage]);
 
   // Keyboard shortcuts
   React.useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
       if (readonly) return;
 
+      const hasSelection = selectedElementIds.length > 0;
+
       // Undo: Ctrl+Z
       if (e.ctrlKey && e.key === "z" && !e.shiftKey) {
         e.preventDefault();
@@ -263,71 +309,75 @@ export const VisualEditorWorkspace: React.FC<VisualEditorWorkspaceProps> = ({
         if (canRedo) redo();
       }
       // Delete: Delete
-      else if (e.key === "Delete" && selectedElement) {
+      else if (e.key === "Delete" && hasSelection) {
         e.preventDefault();
-        api.removeElement(selectedElement.id);
+        api.removeElements(selectedElementIds);
       }
       // Deselect: Escape
       else if (e.key === "Escape") {
         e.preventDefault();
         api.selectElement(null);
       }
+      // Select all: Ctrl+A
+      else if (e.ctrlKey && !e.shiftKey && e.key === "a" && !isInputFocused()) {
+        e.preventDefault();
+        api.selectAll();
+      }
+      // Invert selection: Ctrl+Shift+I
+      else if (e.ctrlKey && e.shiftKey && e.key.toLowerCase() === "i" && !isInputFocused()) {
+        e.preventDefault();
+        api.invertSelection();
+      }
       // Copy: Ctrl+C
-      else if (e.ctrlKey && e.key === "c" && selectedElement) {
+      else if (e.ctrlKey && e.key === "c" && hasSelection) {
         e.preventDefault();
-        const copied = api.copyElement();
-        if (copied) {
+        const copied = api.copyElements();
+        if (copied.length > 0) {
           // Store in a temporary clipboard (we'll use a ref for this)
           clipboardRef.current = copied;
         }
       }
       // Paste: Ctrl+V
-      else if (e.ctrlKey && e.key === "v" && clipboardRef.current) {
+      else if (e.ctrlKey && e.key === "v" && clipboardRef.current.length > 0) {
         e.preventDefault();
-        api.pasteElement(clipboardRef.current);
+        api.pasteElements(clipboardRef.current);
       }
       // Duplicate: Ctrl+D
-      else if (e.ctrlKey && e.key === "d" && selectedElement) {
+      else if (e.ctrlKey && e.key === "d" && hasSelection) {
         e.preventDefault();
-        api.duplicateElement();
+        api.duplicateElements();
+      }
+      // Group: Ctrl+G, Ungroup: Ctrl+Shift+G
+      else if (e.ctrlKey && e.key.toLowerCase() === "g" && hasSelection && !isInputFocused()) {
+        e.preventDefault();
+        if (e.shiftKey) {
+          api.ungroup();
+        } else {
+          api.groupElements();
+        }
       }
 
-      // Move selected element with arrow keys only when no input/textarea/select
-      // or contentEditable element is focused. Prevent interfering with text editing.
-      const isInputFocused = () => {
-        const active = document.activeElement as HTMLElement | null;
-        if (!active) return false;
-        // If body is focused, nothing else is focused
-        if (active === document.body) return false;
-        // Content editable elements
-        if (active.isContentEditable) return true;
-        const tag = active.tagName?.toLowerCase();
-        if (tag === "input" || tag === "textarea" || tag === "select") return true;
-        const role = active.getAttribute ? active.getAttribute("role") : null;
-        if (role === "textbox") return true;
-        return false;
-      };
-
-      if (selectedElement && !isInputFocused()) {
+      // Move selected elements with arrow keys
+      if (hasSelection && !isInputFocused()) {
         if (e.key === "ArrowUp") {
           e.preventDefault();
-          api.moveElement(selectedElement.id, 0, -1);
+          api.moveElements(selectedElementIds, 0, -1);
         } else if (e.key === "ArrowDown") {
           e.preventDefault();
-          api.moveElement(selectedElement.id, 0, 1);
+          api.moveElements(selectedElementIds, 0, 1);
         } else if (e.key === "ArrowLeft") {
           e.preventDefault();
-          api.moveElement(selectedElement.id, -1, 0);
+          api.moveElements(selectedElementIds, -1, 0);
         } else if (e.key === "ArrowRight") {
           e.preventDefault();
-          api.moveElement(selectedElement.id, 1, 0);
+          api.moveElements(selectedElementIds, 1, 0);
         }
       }
     };
 
     window.addEventListener("keydown", handleKeyDown);
     return () => window.removeEventListener("keydown", handleKeyDown);
-  }, [canUndo, canRedo, undo, redo, selectedElement, api, readonly]);
+  }, [canUndo, canRedo, undo, redo, selectedElementIds, api, readonly]);
 
   return (
     <div className={`flex flex-col ${className}`}>
@@ -364,6 +414,8 @@ export const VisualEditorWorkspace: React.FC<VisualEditorWorkspaceProps> = ({
             elementRenderers={availableRenderers}
             canvasSize={canvasSize}
             config={mode?.toolbarConfig}
+            activeTool={activeTool}
+            onToolChange={readonly ? undefined : setActiveTool}
           />
         )}
 
@@ -373,6 +425,7 @@ export const VisualEditorWorkspace: React.FC<VisualEditorWorkspaceProps> = ({
             canvasSize={canvasSize}
             elements={state.elements}
             selectedElementId={state.selectedElementId}
+            selectedElementIds={selectedElementIds}
             registry={registry}
             mode={mode ? { ...mode, backgroundColor } : undefined}
             readonly={readonly}
@@ -385,7 +438,14 @@ export const VisualEditorWorkspace: React.FC<VisualEditorWorkspaceProps> = ({
             }
             hideElements={hideElements}
             onSelectElement={(id) => api.selectElement(id)}
+            onToggleElementSelection={(id) => api.toggleElementSelection(id)}
+            onSelectElements={(ids) => api.selectElements(ids)}
             onTransformElement={(id, updates) => api.updateElement(id, updates)}
+            onTransformElements={(updates) => api.updateElements(updates)}
+            onAutoSizeElement={(id, size) => api.setAutoSize(id, size)}
+            activeTool={activeTool}
+            onDrawPath={handleDrawPath}
+            onToolChange={setActiveTool}
           />
         )}
 
@@ -394,12 +454,16 @@ export const VisualEditorWorkspace: React.FC<VisualEditorWorkspaceProps> = ({
           <LayersPanel
             elements={state.elements}
             selectedElementId={state.selectedElementId}
+            selectedElementIds={selectedElementIds}
             api={api}
             elementRenderers={registry.getMap()}
             className="w-64"
           />
         )}
 
+        {/* History Panel */}
+        {showHistory && <HistoryPanel api={api} className="w-56" />}
+
         {/* Inspector Panel (with asset picker at bottom if position === 'bottom') */}
         {showInspector && (
           <div className="w-80 h-full border-l bg-background flex flex-col">
@@ -0,0 +1,93 @@
+/**
+ * Tests for Canvas component
+ */
+
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import { Canvas } from '../Canvas';
+import { ElementRegistry } from '../../core/ElementRegistry';
+import { EditorElement } from '../../types';
+import { createElement } from '../../utils/editorUtils';
+
+// Konva node of the dragged element
+const mockNode = { position: jest.fn(), rotation: jest.fn(), getLayer: () => null };
+
+// Stage with the node lookup and view methods the canvas calls
+jest.mock('react-konva', () => {
+  const mockReact = jest.requireActual('react');
+  const Stage = mockReact.forwardRef(
+    ({ children }: { children: React.ReactNode }, ref: React.Ref<unknown>) => {
+      mockReact.useImperativeHandle(ref, () => ({
+        findOne: () => mockNode,
+        scale: () => undefined,
+        position: () => undefined,
+        batchDraw: () => undefined,
+      }));
+      return mockReact.createElement('div', null, children);
+    }
+  );
+  return {
+    Stage,
+    Layer: 'div',
+    Rect: 'div',
+    Circle: 'div',
+    Ellipse: 'div',
+    Text: 'div',
+    Image: 'img',
+    Transformer: 'div',
+    Group: 'div',
+    Line: 'div',
+    Path: 'div',
+  };
+});
+
+describe('Canvas', () => {
+  // jsdom doesn't measure layout
+  beforeAll(() => {
+    global.ResizeObserver = class {
+      observe() {}
+      unobserve() {}
+      disconnect() {}
+    };
+  });
+
+  // Renderer that drops its element at (50, 50) when clicked
+  const registry = new ElementRegistry();
+  registry.register({
+    type: 'box',
+    displayName: 'Box',
+    render: () => null,
+    renderComponent: ({ onTransform }) => (
+      <button onClick={() => onTransform({ position: { x: 50, y: 50 } })}>Drop</button>
+    ),
+    defaultProps: {},
+  });
+
+  const element: EditorElement = createElement(
+    'box',
+    {},
+    { position: { x: 10, y: 20 }, rotation: 15 }
+  );
+
+  it('should move a node back when its drag-end update is rejected', () => {
+    // Middleware cancelled the update: the elements stay as they are
+    const onTransformElement = jest.fn();
+    render(
+      <Canvas
+        canvasSize={{ width: 800, height: 600 }}
+        elements={[element]}
+        selectedElementId={null}
+        registry={registry}
+        onSelectElement={jest.fn()}
+        onTransformElement={onTransformElement}
+      />
+    );
+
+    fireEvent.click(screen.getByText('Drop'));
+
+    expect(onTransformElement).toHaveBeenCalledWith(element.id, { position: { x: 50, y: 50 } });
+    expect(mockNode.position).toHaveBeenCalledWith({ x: 10, y: 20 });
+    expect(mockNode.rotation).toHaveBeenCalledWith(15);
+  });
+});
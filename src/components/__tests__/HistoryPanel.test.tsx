@@ -0,0 +1,34 @@
+/**
+ * Tests for HistoryPanel component
+ */
+
+import React from 'react';
+import { render, screen, act } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import { HistoryPanel } from '../HistoryPanel';
+import { EditorStore } from '../../core/EditorStore';
+import { createElement } from '../../utils/editorUtils';
+
+describe('HistoryPanel', () => {
+  it('should update when the history changes', () => {
+    const store = new EditorStore();
+    const element = { ...createElement('text', { content: 'Hello' }), displayName: 'Title' };
+    render(<HistoryPanel api={store} />);
+
+    expect(screen.getByText('0 undoable')).toBeInTheDocument();
+
+    act(() => {
+      store.addElement(element);
+    });
+
+    expect(screen.getByText('Add Title')).toBeInTheDocument();
+    expect(screen.getByText('1 undoable')).toBeInTheDocument();
+
+    act(() => {
+      store.undo();
+    });
+
+    expect(screen.getByText('0 undoable')).toBeInTheDocument();
+    expect(screen.getByText('1 redoable')).toBeInTheDocument();
+  });
+});
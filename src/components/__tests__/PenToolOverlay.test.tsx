@@ -0,0 +1,29 @@
+/**
+ * Tests for PenToolOverlay component
+ */
+
+import React from 'react';
+import { render, fireEvent } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import { PenToolOverlay } from '../PenToolOverlay';
+
+describe('PenToolOverlay', () => {
+  it('should leave keys typed into inputs alone', () => {
+    const onCancel = jest.fn();
+    const { getByRole } = render(
+      <>
+        <input aria-label="Width" />
+        <PenToolOverlay onComplete={jest.fn()} onCancel={onCancel} />
+      </>
+    );
+    const input = getByRole('textbox');
+
+    input.focus();
+    fireEvent.keyDown(input, { key: 'Escape' });
+    expect(onCancel).not.toHaveBeenCalled();
+
+    input.blur();
+    fireEvent.keyDown(window, { key: 'Escape' });
+    expect(onCancel).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * Tests for TextEditOverlay component
+ */
+
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import type Konva from 'konva';
+import { TextEditOverlay } from '../TextEditOverlay';
+import { EditorElement, TextElementProps } from '../../types';
+import { createElement } from '../../utils/editorUtils';
+
+describe('TextEditOverlay', () => {
+  const element = {
+    ...createElement<TextElementProps>(
+      'text',
+      { content: 'Hello', fontSize: 24, color: '#ff0000', bold: true },
+      { position: { x: 10, y: 20 }, size: { width: 200, height: 50 } }
+    ),
+    id: 'text-1',
+  } as EditorElement<TextElementProps>;
+
+  // Stage node zoomed 2x and panned by (30, 40)
+  const node = {
+    getAbsoluteTransform: () => ({ getMatrix: () => [2, 0, 0, 2, 50, 80] }),
+    getClassName: () => 'Text',
+    fontSize: () => 18,
+  };
+  const stage = {
+    findOne: jest.fn(() => node),
+    container: () => document.createElement('div'),
+  };
+  const stageRef = { current: stage as unknown as Konva.Stage };
+
+  const renderOverlay = (handlers: { onCommit?: jest.Mock; onCancel?: jest.Mock } = {}) => {
+    const onCommit = handlers.onCommit ?? jest.fn();
+    const onCancel = handlers.onCancel ?? jest.fn();
+    render(
+      <TextEditOverlay
+        element={element}
+        stageRef={stageRef}
+        containerRef={{ current: document.createElement('div') }}
+        stageScale={2}
+        stagePosition={{ x: 30, y: 40 }}
+        onCommit={onCommit}
+        onCancel={onCancel}
+      />
+    );
+    return { onCommit, onCancel, textarea: screen.getByLabelText('Edit text') };
+  };
+
+  it('should match the node transform and the text style', () => {
+    const { textarea } = renderOverlay();
+
+    expect(stage.findOne).toHaveBeenCalledWith('#text-1');
+    expect(textarea).toHaveValue('Hello');
+    expect(textarea).toHaveFocus();
+    expect(textarea.style.transform).toBe('matrix(2, 0, 0, 2, 50, 80)');
+    expect(textarea.style.width).toBe('200px');
+    // The drawn font size (e.g., after shrink-to-fit) wins over the stored one
+    expect(textarea.style.fontSize).toBe('18px');
+    expect(textarea.style.fontWeight).toBe('bold');
+    expect(textarea.style.color).toBe('rgb(255, 0, 0)');
+  });
+
+  it('should commit once on Enter', () => {
+    const { textarea, onCommit } = renderOverlay();
+
+    fireEvent.change(textarea, { target: { value: 'Hello world' } });
+    fireEvent.keyDown(textarea, { key: 'Enter' });
+    fireEvent.blur(textarea);
+
+    expect(onCommit).toHaveBeenCalledTimes(1);
+    expect(onCommit).toHaveBeenCalledWith('Hello world');
+  });
+
+  it('should keep line breaks typed with Shift+Enter', () => {
+    const { textarea, onCommit } = renderOverlay();
+
+    fireEvent.keyDown(textarea, { key: 'Enter', shiftKey: true });
+    expect(onCommit).not.toHaveBeenCalled();
+  });
+
+  it('should commit on blur', () => {
+    const { textarea, onCommit } = renderOverlay();
+
+    fireEvent.change(textarea, { target: { value: 'Bye' } });
+    fireEvent.blur(textarea);
+
+    expect(onCommit).toHaveBeenCalledWith('Bye');
+  });
+
+  it('should cancel on Escape without committing', () => {
+    const { textarea, onCommit, onCancel } = renderOverlay();
+
+    fireEvent.change(textarea, { target: { value: 'Discarded' } });
+    fireEvent.keyDown(textarea, { key: 'Escape' });
+    fireEvent.blur(textarea);
+
+    expect(onCancel).toHaveBeenCalledTimes(1);
+    expect(onCommit).not.toHaveBeenCalled();
+  });
+
+  it('should not let keys reach editor shortcuts', () => {
+    const { textarea } = renderOverlay();
+    const listener = jest.fn();
+    document.addEventListener('keydown', listener);
+
+    fireEvent.keyDown(textarea, { key: 'Backspace' });
+
+    document.removeEventListener('keydown', listener);
+    expect(listener).not.toHaveBeenCalled();
+  });
+});
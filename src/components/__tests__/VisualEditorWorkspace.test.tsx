@@ -106,6 +106,13 @@ describe('VisualEditorWorkspace', () => {
       expect(screen.queryByTestId('inspector')).not.toBeInTheDocument();
     });
 
+    it('should show the history panel when showHistory is true', () => {
+      render(<VisualEditorWorkspace showHistory />);
+
+      expect(screen.getByText('History')).toBeInTheDocument();
+      expect(screen.getByText('Initial state')).toBeInTheDocument();
+    });
+
     it('should apply custom className', () => {
       const { container } = render(<VisualEditorWorkspace className="custom-class" />);
 
@@ -0,0 +1,519 @@
+/**
+ * Visual Editor - Headless Editor Store
+ *
+ * Framework-agnostic owner of the editor state. Implements the full EditorAPI
+ * on top of the editor reducer, so documents can be loaded, edited and exported
+ * without mounting React (e.g. in Node scripts, tests or web workers).
+ * The React bindings in useEditorState subscribe to a store instance.
+ */
+
+import {
+  EditorState,
+  EditorAction,
+  EditorElement,
+  EditorAPI,
+  EditorMode,
+  CanvasExport,
+  ElementUpdate,
+  EditorStateOptions,
+  EditorDocument,
+  EditorEventHandler,
+  EditorEventMap,
+  EditorEventName,
+  EditorMiddleware,
+  EditorFill,
+  HistoryEntry,
+} from "../types";
+import {
+  canvasExportToDocument,
+  duplicateElement as duplicateElementUtil,
+  generateElementId,
+  sortByZIndex,
+} from "../utils/editorUtils";
+import { getStateEvents } from "../utils/eventUtils";
+import { INITIAL_HISTORY_LABEL } from "../utils/historyUtils";
+import { getElementFonts } from "../utils/fontUtils";
+import { createInitialState, editorReducer } from "./editorReducer";
+
+/**
+ * Listener notified after every state change
+ */
+export type EditorStoreListener = () => void;
+
+/**
+ * Event handlers registered with `on`, by event
+ */
+type EditorEventHandlers = { [E in EditorEventName]: Set<EditorEventHandler<E>> };
+
+/**
+ * Headless editor store.
+ *
+ * All methods are bound to the instance, so they can be passed around as callbacks.
+ *
+ * @example
+ * ```ts
+ * const store = new EditorStore();
+ * store.importJSON(data);
+ * store.moveElements(null, 10, 0);
+ * const result = store.exportJSON();
+ * ```
+ */
+export class EditorStore implements EditorAPI {
+  private state: EditorState;
+  private listeners: Set<EditorStoreListener> = new Set();
+  private handlers: EditorEventHandlers = {
+    "element:added": new Set(),
+    "element:updated": new Set(),
+    "element:removed": new Set(),
+    "selection:changed": new Set(),
+    "history:changed": new Set(),
+    "canvas:resized": new Set(),
+  };
+  private middleware: EditorMiddleware[];
+
+  constructor(initialMode: EditorMode | null = null, options: EditorStateOptions = {}) {
+    this.state = createInitialState(initialMode, options);
+    this.middleware = options.middleware ?? [];
+
+    // Mode behavior hooks are regular event handlers
+    this.on("element:added", ({ element }) => {
+      this.state.mode?.onElementAdded?.(element, this);
+    });
+    this.on("element:removed", ({ element }) => {
+      this.state.mode?.onElementRemoved?.(element, this);
+    });
+  }
+
+  // ============================================================================
+  // Store
+  // ============================================================================
+
+  /**
+   * Get the current state snapshot. Snapshots are immutable; a new object is
+   * returned after every change.
+   */
+  getState = (): EditorState => this.state;
+
+  /**
+   * Subscribe to state changes. Returns an unsubscribe function.
+   */
+  subscribe = (listener: EditorStoreListener): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  /**
+   * Run an action through the middleware chain (mode middleware first), apply it to the
+   * state and notify subscribers if anything changed
+   */
+  dispatch = (action: EditorAction): void => {
+    const middleware = [...(this.state.mode?.middleware ?? []), ...this.middleware];
+
+    let current: EditorAction | null = action;
+    for (const intercept of middleware) {
+      current = intercept(current, this.state);
+      if (!current) return;
+    }
+
+    this.setState(editorReducer(this.state, current), current);
+  };
+
+  /**
+   * Replace the store-level middleware (the mode's middleware is always applied first)
+   */
+  setMiddleware = (middleware: EditorMiddleware[]) => {
+    this.middleware = middleware;
+  };
+
+  /**
+   * Listen for a specific kind of change. Returns an unsubscribe function.
+   */
+  on = <E extends EditorEventName>(event: E, handler: EditorEventHandler<E>): (() => void) => {
+    this.handlers[event].add(handler);
+    return () => {
+      this.handlers[event].delete(handler);
+    };
+  };
+
+  private emit<E extends EditorEventName>(event: E, payload: EditorEventMap[E]) {
+    this.handlers[event].forEach((handler) => handler(payload));
+  }
+
+  private setState(next: EditorState, action?: EditorAction) {
+    const previous = this.state;
+    if (next === previous) return;
+    this.state = next;
+
+    getStateEvents(previous, next, action).forEach(({ type, payload }) => this.emit(type, payload));
+    this.listeners.forEach((listener) => listener());
+  }
+
+  // ============================================================================
+  // Elements
+  // ============================================================================
+
+  addElement = (element: EditorElement) => {
+    this.dispatch({ type: "ADD_ELEMENT", element });
+  };
+
+  updateElement = (id: string, updates: Partial<EditorElement>) => {
+    this.dispatch({ type: "UPDATE_ELEMENT", id, updates });
+  };
+
+  updateElements = (updates: ElementUpdate[]) => {
+    this.dispatch({ type: "UPDATE_ELEMENTS", updates });
+  };
+
+  removeElement = (id: string) => {
+    this.dispatch({ type: "REMOVE_ELEMENT", id });
+  };
+
+  removeElements = (ids: string[]) => {
+    this.dispatch({ type: "REMOVE_ELEMENTS", ids });
+  };
+
+  getAllElements = (): EditorElement[] => {
+    return this.state.elements;
+  };
+
+  moveElement = (id: string, deltaX: number, deltaY: number) => {
+    const element = this.state.elements.find((el) => el.id === id);
+    if (!element) return;
+
+    this.updateElement(id, {
+      position: {
+        x: element.position.x + deltaX,
+        y: element.position.y + deltaY,
+      },
+    });
+  };
+
+  moveElements = (ids: string[] | null, deltaX: number, deltaY: number) => {
+    const targetIds = new Set(ids ?? this.state.selectedElementIds);
+    const updates = this.state.elements
+      .filter((el) => targetIds.has(el.id))
+      .map((el) => ({
+        id: el.id,
+        updates: {
+          position: {
+            x: el.position.x + deltaX,
+            y: el.position.y + deltaY,
+          },
+        },
+      }));
+    if (updates.length === 0) return;
+
+    this.updateElements(updates);
+  };
+
+  rotateElement = (id: string, angle: number) => {
+    this.updateElement(id, { rotation: angle });
+  };
+
+  resizeElement = (id: string, width: number, height: number) => {
+    this.updateElement(id, {
+      size: { width, height },
+    });
+  };
+
+  setAutoSize = (id: string, size: { width: number; height: number }) => {
+    this.dispatch({ type: "SET_AUTO_SIZE", id, size });
+  };
+
+  updateZIndex = (id: string, zIndex: number) => {
+    this.updateElement(id, { zIndex });
+  };
+
+  reorderElement = (id: string, newIndex: number) => {
+    this.dispatch({ type: "REORDER_ELEMENT", elementId: id, newIndex });
+  };
+
+  // ============================================================================
+  // Selection
+  // ============================================================================
+
+  selectElement = (id: string | null) => {
+    this.dispatch({ type: "SELECT_ELEMENT", id });
+  };
+
+  selectElements = (ids: string[]) => {
+    this.dispatch({ type: "SELECT_ELEMENTS", ids });
+  };
+
+  toggleElementSelection = (id: string) => {
+    this.dispatch({ type: "TOGGLE_ELEMENT_SELECTION", id });
+  };
+
+  selectAll = () => {
+    const ids = this.state.elements
+      .filter((el) => el.visible !== false && el.locked !== true)
+      .map((el) => el.id);
+    this.dispatch({ type: "SELECT_ELEMENTS", ids });
+  };
+
+  invertSelection = () => {
+    const selected = new Set(this.state.selectedElementIds);
+    const ids = this.state.elements
+      .filter((el) => el.visible !== false && el.locked !== true && !selected.has(el.id))
+      .map((el) => el.id);
+    this.dispatch({ type: "SELECT_ELEMENTS", ids });
+  };
+
+  getSelectedElement = (): EditorElement | null => {
+    const { selectedElementId, elements } = this.state;
+    if (!selectedElementId) return null;
+    return elements.find((el) => el.id === selectedElementId) || null;
+  };
+
+  getSelectedElements = (): EditorElement[] => {
+    const { selectedElementIds, elements } = this.state;
+    return selectedElementIds
+      .map((id) => elements.find((el) => el.id === id))
+      .filter((el): el is EditorElement => el !== undefined);
+  };
+
+  // ============================================================================
+  // Document
+  // ============================================================================
+
+  exportJSON = (): CanvasExport => {
+    const { canvasSize, elements, backgroundColor, backgroundImage, mode } = this.state;
+    const fonts = getElementFonts(elements);
+    return {
+      width: canvasSize.width,
+      height: canvasSize.height,
+      elements,
+      ...(backgroundColor !== undefined && { backgroundColor }),
+      ...(backgroundImage && { backgroundImage }),
+      ...(fonts.length > 0 && { fonts }),
+      metadata: {
+        version: "1.0.0",
+        mode: mode?.name,
+        created: new Date().toISOString(),
+      },
+    };
+  };
+
+  importJSON = (data: CanvasExport) => {
+    this.dispatch({ type: "SET_DOCUMENT", document: canvasExportToDocument(data) });
+  };
+
+  clear = () => {
+    this.dispatch({ type: "CLEAR" });
+  };
+
+  setCanvasSize = (width: number, height: number) => {
+    this.dispatch({ type: "SET_CANVAS_SIZE", width, height });
+  };
+
+  setBackground = (background: { color?: EditorFill; image?: string }) => {
+    this.dispatch({ type: "SET_BACKGROUND", ...background });
+  };
+
+  setMode = (mode: EditorMode) => {
+    this.dispatch({ type: "SET_MODE", mode });
+  };
+
+  /** Load elements without creating a history entry */
+  loadElements = (elements: EditorElement[]) => {
+    this.dispatch({ type: "LOAD_ELEMENTS", elements });
+  };
+
+  /** Load document fields without creating a history entry */
+  loadDocument = (document: Partial<EditorDocument>) => {
+    this.dispatch({ type: "LOAD_DOCUMENT", document });
+  };
+
+  // ============================================================================
+  // Copy/Paste/Duplicate Operations
+  // ============================================================================
+
+  copyElement = (id: string | null = null): EditorElement | null => {
+    const elementToCopy = id
+      ? this.state.elements.find((el) => el.id === id)
+      : this.getSelectedElement();
+
+    if (!elementToCopy) return null;
+
+    // Return a deep copy for clipboard
+    return {
+      ...elementToCopy,
+      props: { ...elementToCopy.props },
+      position: { ...elementToCopy.position },
+      size: { ...elementToCopy.size },
+    };
+  };
+
+  copyElements = (ids: string[] | null = null): EditorElement[] => {
+    const targetIds = ids ?? this.state.selectedElementIds;
+    return targetIds
+      .map((id) => this.copyElement(id))
+      .filter((el): el is EditorElement => el !== null);
+  };
+
+  duplicateElement = (id: string | null = null, offset = { x: 20, y: 20 }) => {
+    const elementToDuplicate = id
+      ? this.state.elements.find((el) => el.id === id)
+      : this.getSelectedElement();
+
+    if (!elementToDuplicate) return;
+
+    this.addElement(duplicateElementUtil(elementToDuplicate, offset));
+  };
+
+  duplicateElements = (ids: string[] | null = null, offset = { x: 20, y: 20 }) => {
+    const { elements, selectedElementIds } = this.state;
+    const targetIds = new Set(ids ?? selectedElementIds);
+    const maxZIndex = Math.max(...elements.map((el) => el.zIndex), 0);
+
+    // Keep the relative stacking order of the originals, above everything else
+    const duplicates = sortByZIndex(elements.filter((el) => targetIds.has(el.id))).map(
+      (el, index) => ({
+        ...duplicateElementUtil(el, offset),
+        zIndex: maxZIndex + index + 1,
+      })
+    );
+    if (duplicates.length === 0) return;
+
+    this.dispatch({ type: "ADD_ELEMENTS", elements: duplicates });
+  };
+
+  pasteElement = (copiedElement: EditorElement, offset = { x: 20, y: 20 }) => {
+    if (!copiedElement) return;
+
+    // Create new element with new ID and offset position
+    const pasted: EditorElement = {
+      ...copiedElement,
+      id: generateElementId(),
+      props: { ...copiedElement.props },
+      position: {
+        x: copiedElement.position.x + offset.x,
+        y: copiedElement.position.y + offset.y,
+      },
+      size: { ...copiedElement.size },
+      zIndex: Math.max(...this.state.elements.map((el) => el.zIndex), 0) + 1,
+    };
+
+    this.addElement(pasted);
+  };
+
+  pasteElements = (copiedElements: EditorElement[], offset = { x: 20, y: 20 }) => {
+    if (!copiedElements || copiedElements.length === 0) return;
+
+    const maxZIndex = Math.max(...this.state.elements.map((el) => el.zIndex), 0);
+    const pasted = sortByZIndex(copiedElements).map(
+      (el, index): EditorElement => ({
+        ...el,
+        id: generateElementId(),
+        props: { ...el.props },
+        position: {
+          x: el.position.x + offset.x,
+          y: el.position.y + offset.y,
+        },
+        size: { ...el.size },
+        zIndex: maxZIndex + index + 1,
+      })
+    );
+
+    this.dispatch({ type: "ADD_ELEMENTS", elements: pasted });
+  };
+
+  // ============================================================================
+  // Grouping
+  // ============================================================================
+
+  groupElements = (ids: string[] | null = null): string | null => {
+    const targetIds = ids ?? this.state.selectedElementIds;
+    const existing = new Set(this.state.elements.map((el) => el.id));
+    if (targetIds.filter((id) => existing.has(id)).length < 2) return null;
+
+    const groupId = generateElementId();
+    this.dispatch({ type: "GROUP_ELEMENTS", ids: targetIds, groupId });
+    return groupId;
+  };
+
+  ungroup = (id: string | null = null) => {
+    const targetId = id ?? this.state.selectedElementId;
+    if (!targetId) return;
+    this.dispatch({ type: "UNGROUP_ELEMENT", id: targetId });
+  };
+
+  // ============================================================================
+  // Transactions
+  // ============================================================================
+
+  beginTransaction = (label?: string) => {
+    this.dispatch({ type: "BEGIN_TRANSACTION", label });
+  };
+
+  commitTransaction = () => {
+    this.dispatch({ type: "COMMIT_TRANSACTION" });
+  };
+
+  rollback = () => {
+    this.dispatch({ type: "ROLLBACK_TRANSACTION" });
+  };
+
+  batch = <T>(fn: () => T, label?: string): T => {
+    this.beginTransaction(label);
+    try {
+      const result = fn();
+      this.commitTransaction();
+      return result;
+    } catch (error) {
+      this.rollback();
+      throw error;
+    }
+  };
+
+  // ============================================================================
+  // History
+  // ============================================================================
+
+  undo = () => {
+    this.dispatch({ type: "UNDO" });
+  };
+
+  redo = () => {
+    this.dispatch({ type: "REDO" });
+  };
+
+  canUndo = (): boolean => this.state.history.past.length > 0;
+
+  canRedo = (): boolean => this.state.history.future.length > 0;
+
+  clearHistory = () => {
+    const { history } = this.state;
+    if (history.past.length === 0 && history.future.length === 0) return;
+    this.setState({
+      ...this.state,
+      history: {
+        ...history,
+        past: [],
+        future: [],
+        lastEdit: null,
+        initialLabel: INITIAL_HISTORY_LABEL,
+      },
+    });
+  };
+
+  getHistory = (): HistoryEntry[] => {
+    const { past, future, initialLabel } = this.state.history;
+    const labels = [
+      initialLabel,
+      ...past.map((step) => step.label),
+      ...future.map((step) => step.label),
+    ];
+    return labels.map((label, index) => ({
+      index,
+      label,
+      status: index < past.length ? "past" : index === past.length ? "current" : "future",
+    }));
+  };
+
+  goToHistory = (index: number) => {
+    this.dispatch({ type: "GO_TO_HISTORY", index });
+  };
+}
@@ -14,6 +14,7 @@ import { VisualEditorProps, EditorElement, EditorMode } from "../types";
 import { useEditorState } from "./useEditorState";
 import { ElementRegistry, useElementRegistry } from "./ElementRegistry";
 import { defaultElements } from "../elements";
+import { getCssFill } from "../utils/fillUtils";
 
 /**
  * Main Visual Editor Component
@@ -30,6 +31,8 @@ export const VisualEditor: React.FC<VisualEditorProps> = ({
   customElements = [],
   showToolbar = true,
   showInspector = true,
+  maxHistory,
+  middleware,
   className = "",
   style = {},
 }) => {
@@ -40,13 +43,12 @@ export const VisualEditor: React.FC<VisualEditorProps> = ({
   const {
     state,
     api,
-    setCanvasSize,
     setMode: setEditorMode,
     undo,
     redo,
     canUndo,
     canRedo,
-  } = useEditorState(mode || null);
+  } = useEditorState(mode || null, { maxHistory, middleware });
 
   // Initialize element registry
   const registry = useElementRegistry([
@@ -60,12 +62,13 @@ export const VisualEditor: React.FC<VisualEditorProps> = ({
   const canvasHeight =
     propHeight || state.canvasSize.height || mode?.defaultCanvasSize.height || 600;
 
-  // Update canvas size when props change
+  // Update canvas size when props change (not an undoable edit)
   useEffect(() => {
     if (propWidth && propHeight) {
-      setCanvasSize(propWidth, propHeight);
+      api.loadDocument({ canvasSize: { width: propWidth, height: propHeight } });
     }
-  }, [propWidth, propHeight, setCanvasSize]);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [propWidth, propHeight]);
 
   // Load initial data
   useEffect(() => {
@@ -97,7 +100,14 @@ export const VisualEditor: React.FC<VisualEditorProps> = ({
       const data = api.exportJSON();
       onChange(data);
     }
-  }, [state.elements, onChange, api]);
+  }, [
+    state.elements,
+    state.canvasSize,
+    state.backgroundColor,
+    state.backgroundImage,
+    onChange,
+    api,
+  ]);
 
   // Notify parent of selection changes
   useEffect(() => {
@@ -126,9 +136,9 @@ export const VisualEditor: React.FC<VisualEditorProps> = ({
       // Delete: Delete or Backspace
       if ((e.key === "Delete" || e.key === "Backspace") && !readonly) {
         e.preventDefault();
-        const selected = api.getSelectedElement();
-        if (selected) {
-          api.removeElement(selected.id);
+        const selected = api.getSelectedElements();
+        if (selected.length > 0) {
+          api.removeElements(selected.map((el) => el.id));
         }
       }
       // Deselect: Escape
@@ -158,19 +168,33 @@ export const VisualEditor: React.FC<VisualEditorProps> = ({
         return null;
       }
 
-      const isSelected = state.selectedElementId === element.id;
+      const isSelected = state.selectedElementIds.includes(element.id);
 
       return (
         <RendererComponent
           key={element.id}
           element={element}
           isSelected={isSelected}
-          onSelect={() => !readonly && api.selectElement(element.id)}
+          onSelect={(e?: { evt?: MouseEvent }) => {
+            if (readonly) return;
+            // Shift/Ctrl/Cmd-click toggles the element in the selection
+            if (e?.evt && (e.evt.shiftKey || e.evt.ctrlKey || e.evt.metaKey)) {
+              api.toggleElementSelection(element.id);
+            } else {
+              api.selectElement(element.id);
+            }
+          }}
           onTransform={(updates) => !readonly && api.updateElement(element.id, updates)}
+          onAutoSize={
+            readonly
+              ? undefined
+              : (size: { width: number; height: number }) => api.setAutoSize(element.id, size)
+          }
+          registry={registry}
         />
       );
     },
-    [registry, state.selectedElementId, readonly, api]
+    [registry, state.selectedElementIds, readonly, api]
   );
 
   // Handle click on canvas background (deselect)
@@ -197,7 +221,7 @@ export const VisualEditor: React.FC<VisualEditorProps> = ({
         display: "flex",
         flexDirection: "column",
         overflow: "hidden",
-        backgroundColor: mode?.backgroundColor || "#f0f0f0",
+        background: getCssFill(mode?.backgroundColor || "#f0f0f0"),
         ...style,
       }}
     >
@@ -0,0 +1,305 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for EditorStore (runs without a DOM or React)
+ */
+
+import { EditorStore } from '../EditorStore';
+import { CanvasExport, EditorMiddleware, EditorMode } from '../../types';
+import { createElement } from '../../utils/editorUtils';
+
+describe('EditorStore', () => {
+  const mockMode: EditorMode = {
+    name: 'test-mode',
+    displayName: 'Test Mode',
+    defaultCanvasSize: { width: 1080, height: 1080 },
+  };
+
+  const data: CanvasExport = {
+    width: 400,
+    height: 300,
+    backgroundColor: '#ffffff',
+    elements: [
+      { ...createElement('text', { content: 'A' }, { position: { x: 0, y: 0 } }), id: 'a' },
+      { ...createElement('text', { content: 'B' }, { position: { x: 50, y: 50 } }), id: 'b' },
+    ],
+  };
+
+  it('should initialize from a mode', () => {
+    const store = new EditorStore(mockMode);
+
+    expect(store.getState().canvasSize).toEqual({ width: 1080, height: 1080 });
+    expect(store.getState().mode).toBe(mockMode);
+    expect(store.getAllElements()).toEqual([]);
+  });
+
+  it('should load, edit and export a document', () => {
+    const store = new EditorStore();
+
+    store.importJSON(data);
+    store.moveElements(['a', 'b'], 10, 5);
+    store.setBackground({ color: '#000000' });
+
+    const result = store.exportJSON();
+    expect(result.width).toBe(400);
+    expect(result.height).toBe(300);
+    expect(result.backgroundColor).toBe('#000000');
+    expect(result.elements.map((el) => el.position)).toEqual([
+      { x: 10, y: 5 },
+      { x: 60, y: 55 },
+    ]);
+  });
+
+  it('should record the fonts a document uses in exports', () => {
+    const store = new EditorStore();
+    store.importJSON(data);
+    expect(store.exportJSON().fonts).toBeUndefined();
+
+    store.updateElement('a', { props: { content: 'A', fontFamily: 'Outfit' } });
+    expect(store.exportJSON().fonts).toEqual(['Outfit']);
+  });
+
+  it('should read the latest state between calls', () => {
+    const store = new EditorStore();
+    store.importJSON(data);
+
+    store.batch(() => {
+      store.moveElement('a', 10, 0);
+      store.moveElement('a', 10, 0);
+    });
+
+    expect(store.getAllElements()[0].position).toEqual({ x: 20, y: 0 });
+    store.undo();
+    expect(store.getAllElements()[0].position).toEqual({ x: 0, y: 0 });
+  });
+
+  it('should notify subscribers only when the state changes', () => {
+    const store = new EditorStore();
+    const listener = jest.fn();
+    const unsubscribe = store.subscribe(listener);
+
+    store.addElement(createElement('text', { content: 'Hello' }));
+    expect(listener).toHaveBeenCalledTimes(1);
+
+    // Undoing with nothing to redo and re-setting the same size are no-ops
+    store.redo();
+    store.setCanvasSize(800, 600);
+    expect(listener).toHaveBeenCalledTimes(1);
+
+    unsubscribe();
+    store.clear();
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it('should return a new snapshot after each change', () => {
+    const store = new EditorStore();
+    const before = store.getState();
+
+    store.dispatch({ type: 'SET_CANVAS_SIZE', width: 100, height: 100 });
+
+    expect(store.getState()).not.toBe(before);
+    expect(before.canvasSize).toEqual({ width: 800, height: 600 });
+  });
+
+  it('should keep methods bound when detached from the instance', () => {
+    const store = new EditorStore();
+    const { addElement, undo, canUndo } = store;
+
+    addElement(createElement('text', { content: 'Hello' }));
+    expect(canUndo()).toBe(true);
+    undo();
+    expect(canUndo()).toBe(false);
+    expect(store.getAllElements()).toHaveLength(0);
+  });
+
+  it('should apply auto sizes without recording history', () => {
+    const store = new EditorStore();
+    store.importJSON(data);
+    store.updateElement('a', { props: { ...store.getAllElements()[0].props, content: 'A\nB' } });
+    const steps = store.getState().history.past.length;
+
+    store.setAutoSize('a', { width: 100, height: 40 });
+
+    expect(store.getAllElements()[0].size).toEqual({ width: 100, height: 40 });
+    expect(store.getState().history.past).toHaveLength(steps);
+    // Measured sizes don't clear the redo stack
+    store.undo();
+    store.setAutoSize('a', { width: 100, height: 20 });
+    expect(store.canRedo()).toBe(true);
+  });
+
+  it('should clear history and notify subscribers', () => {
+    const store = new EditorStore();
+    store.addElement(createElement('text', { content: 'Hello' }));
+    const listener = jest.fn();
+    store.subscribe(listener);
+
+    store.clearHistory();
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(store.canUndo()).toBe(false);
+    expect(store.getAllElements()).toHaveLength(1);
+  });
+
+  describe('Events', () => {
+    it('should emit fine-grained events until unsubscribed', () => {
+      const store = new EditorStore();
+      const added = jest.fn();
+      const updated = jest.fn();
+      const removed = jest.fn();
+      store.on('element:added', added);
+      const off = store.on('element:updated', updated);
+      store.on('element:removed', removed);
+
+      const element = { ...createElement('text', { content: 'Hello' }), id: 'a' };
+      store.addElement(element);
+      store.moveElement('a', 5, 5);
+      off();
+      store.rotateElement('a', 45);
+      store.removeElement('a');
+
+      expect(added).toHaveBeenCalledWith({ element: expect.objectContaining({ id: 'a' }) });
+      expect(updated).toHaveBeenCalledTimes(1);
+      expect(updated.mock.calls[0][0].changedKeys).toEqual(['position']);
+      expect(removed).toHaveBeenCalledTimes(1);
+    });
+
+    it('should emit selection, history and canvas events', () => {
+      const store = new EditorStore();
+      const selection = jest.fn();
+      const history = jest.fn();
+      const resized = jest.fn();
+      store.on('selection:changed', selection);
+      store.on('history:changed', history);
+      store.on('canvas:resized', resized);
+
+      store.setCanvasSize(100, 50);
+      store.undo();
+
+      expect(resized).toHaveBeenCalledTimes(2);
+      expect(resized.mock.calls[1][0]).toEqual({
+        width: 800,
+        height: 600,
+        previous: { width: 100, height: 50 },
+      });
+      expect(history.mock.calls.map(([payload]) => payload)).toEqual([
+        { canUndo: true, canRedo: false },
+        { canUndo: false, canRedo: true },
+      ]);
+      expect(selection).not.toHaveBeenCalled();
+    });
+
+    it('should invoke the mode element hooks', () => {
+      const onElementAdded = jest.fn();
+      const onElementRemoved = jest.fn();
+      const store = new EditorStore({ ...mockMode, onElementAdded, onElementRemoved });
+
+      data.elements.forEach((element) => store.addElement(element));
+      store.removeElement('a');
+
+      expect(onElementAdded).toHaveBeenCalledTimes(2);
+      expect(onElementAdded).toHaveBeenCalledWith(expect.objectContaining({ id: 'a' }), store);
+      expect(onElementRemoved).toHaveBeenCalledWith(expect.objectContaining({ id: 'a' }), store);
+    });
+
+    it('should not report grouped, restored or loaded elements as added or removed', () => {
+      const onElementAdded = jest.fn();
+      const onElementRemoved = jest.fn();
+      const store = new EditorStore({ ...mockMode, onElementAdded, onElementRemoved });
+      const added = jest.fn();
+      const removed = jest.fn();
+      store.on('element:added', added);
+      store.on('element:removed', removed);
+
+      store.importJSON(data);
+      store.loadElements(data.elements);
+      store.selectElements(['a', 'b']);
+      store.groupElements();
+      store.ungroup();
+      store.undo();
+      store.redo();
+      store.undo();
+      store.undo();
+
+      expect(store.getState().elements.map((el) => el.id)).toEqual(['a', 'b']);
+      expect(added).not.toHaveBeenCalled();
+      expect(removed).not.toHaveBeenCalled();
+      expect(onElementAdded).not.toHaveBeenCalled();
+      expect(onElementRemoved).not.toHaveBeenCalled();
+    });
+
+    it('should report elements created or deleted inside a rolled back transaction', () => {
+      const store = new EditorStore();
+      const removed = jest.fn();
+      store.on('element:removed', removed);
+
+      store.beginTransaction();
+      store.addElement({ ...createElement('text', { content: 'Hello' }), id: 'a' });
+      store.rollback();
+
+      expect(removed).toHaveBeenCalledWith({ element: expect.objectContaining({ id: 'a' }) });
+    });
+  });
+
+  describe('Middleware', () => {
+    it('should rewrite actions', () => {
+      const roundSizes: EditorMiddleware = (action) =>
+        action.type === 'UPDATE_ELEMENT' && action.updates.size
+          ? {
+              ...action,
+              updates: {
+                ...action.updates,
+                size: {
+                  width: Math.round(action.updates.size.width),
+                  height: Math.round(action.updates.size.height),
+                },
+              },
+            }
+          : action;
+      const store = new EditorStore(null, { middleware: [roundSizes] });
+      store.importJSON(data);
+
+      store.resizeElement('a', 10.4, 20.6);
+
+      expect(store.getAllElements()[0].size).toEqual({ width: 10, height: 21 });
+    });
+
+    it('should cancel actions and leave the state untouched', () => {
+      const protect: EditorMiddleware = (action) =>
+        action.type === 'REMOVE_ELEMENT' && action.id === 'a' ? null : action;
+      const store = new EditorStore({ ...mockMode, middleware: [protect] });
+      store.importJSON(data);
+      const before = store.getState();
+
+      store.removeElement('a');
+
+      expect(store.getState()).toBe(before);
+      store.removeElement('b');
+      expect(store.getAllElements().map((el) => el.id)).toEqual(['a']);
+    });
+
+    it('should run mode middleware before store middleware, with the current state', () => {
+      const calls: string[] = [];
+      const modeMiddleware: EditorMiddleware = (action, state) => {
+        calls.push(`mode:${action.type}:${state.elements.length}`);
+        return action;
+      };
+      const storeMiddleware: EditorMiddleware = (action) => {
+        calls.push(`store:${action.type}`);
+        return action;
+      };
+      const store = new EditorStore(
+        { ...mockMode, middleware: [modeMiddleware] },
+        { middleware: [storeMiddleware] }
+      );
+
+      store.addElement(createElement('text', { content: 'Hello' }));
+      store.setMiddleware([]);
+      store.clear();
+
+      expect(calls).toEqual(['mode:ADD_ELEMENT:0', 'store:ADD_ELEMENT', 'mode:CLEAR:1']);
+    });
+  });
+});
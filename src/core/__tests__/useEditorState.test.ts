@@ -4,7 +4,7 @@
 
 import { renderHook, act } from '@testing-library/react';
 import { useEditorState } from '../useEditorState';
-import { EditorElement, EditorMode } from '../../types';
+import { EditorElement, EditorMiddleware, EditorMode } from '../../types';
 import { createElement } from '../../utils/editorUtils';
 
 describe('useEditorState', () => {
@@ -241,6 +241,35 @@ describe('useEditorState', () => {
       expect(result.current.state.elements[2].zIndex).toBe(2);
     });
 
+    it('should restore the previous order on undo', () => {
+      const { result } = renderHook(() => useEditorState());
+
+      act(() => {
+        result.current.api.addElement(createElement('text', { content: 'A' }, { zIndex: 0 }));
+        result.current.api.addElement(createElement('text', { content: 'B' }, { zIndex: 1 }));
+      });
+
+      const [first, second] = result.current.state.elements;
+
+      act(() => {
+        result.current.api.reorderElement(first.id, 1);
+      });
+
+      expect(result.current.state.elements.map((el) => [el.id, el.zIndex])).toEqual([
+        [second.id, 0],
+        [first.id, 1],
+      ]);
+
+      act(() => {
+        result.current.undo();
+      });
+
+      expect(result.current.state.elements.map((el) => [el.id, el.zIndex])).toEqual([
+        [first.id, 0],
+        [second.id, 1],
+      ]);
+    });
+
     it('should not reorder if index is same', () => {
       const { result } = renderHook(() => useEditorState());
       const element = createElement('text', { content: 'Hello' });
@@ -677,6 +706,741 @@ describe('useEditorState', () => {
     });
   });
 
+  describe('Multi-selection', () => {
+    const setup = () => {
+      const hook = renderHook(() => useEditorState());
+      const first = createElement('text', { content: 'First' }, { position: { x: 0, y: 0 }, zIndex: 0 });
+      const second = createElement('text', { content: 'Second' }, { position: { x: 50, y: 50 }, zIndex: 1 });
+      const third = createElement('text', { content: 'Third' }, { position: { x: 100, y: 100 }, zIndex: 2 });
+
+      act(() => {
+        hook.result.current.api.addElement(first);
+        hook.result.current.api.addElement(second);
+        hook.result.current.api.addElement(third);
+      });
+
+      return { ...hook, first, second, third };
+    };
+
+    it('should select several elements with the last one as primary', () => {
+      const { result, first, second } = setup();
+
+      act(() => {
+        result.current.api.selectElements([first.id, second.id]);
+      });
+
+      expect(result.current.state.selectedElementIds).toEqual([first.id, second.id]);
+      expect(result.current.state.selectedElementId).toBe(second.id);
+      expect(result.current.api.getSelectedElements().map((el) => el.id)).toEqual([
+        first.id,
+        second.id,
+      ]);
+    });
+
+    it('should toggle elements in and out of the selection', () => {
+      const { result, first, second } = setup();
+
+      act(() => {
+        result.current.api.selectElement(first.id);
+        result.current.api.toggleElementSelection(second.id);
+      });
+
+      expect(result.current.state.selectedElementIds).toEqual([first.id, second.id]);
+
+      act(() => {
+        result.current.api.toggleElementSelection(second.id);
+      });
+
+      expect(result.current.state.selectedElementIds).toEqual([first.id]);
+      expect(result.current.state.selectedElementId).toBe(first.id);
+    });
+
+    it('should select all and invert, skipping locked and hidden elements', () => {
+      const { result, first, second, third } = setup();
+
+      act(() => {
+        result.current.api.updateElement(third.id, { locked: true });
+      });
+
+      act(() => {
+        result.current.api.selectAll();
+      });
+
+      expect(result.current.state.selectedElementIds).toEqual([first.id, second.id]);
+
+      act(() => {
+        result.current.api.selectElement(first.id);
+      });
+
+      act(() => {
+        result.current.api.invertSelection();
+      });
+
+      expect(result.current.state.selectedElementIds).toEqual([second.id]);
+    });
+
+    it('should move all selected elements in a single history step', () => {
+      const { result, first, second } = setup();
+
+      act(() => {
+        result.current.api.selectElements([first.id, second.id]);
+      });
+
+      act(() => {
+        result.current.api.moveElements(null, 10, 5);
+      });
+
+      expect(result.current.state.elements[0].position).toEqual({ x: 10, y: 5 });
+      expect(result.current.state.elements[1].position).toEqual({ x: 60, y: 55 });
+      expect(result.current.state.elements[2].position).toEqual({ x: 100, y: 100 });
+
+      act(() => {
+        result.current.undo();
+      });
+
+      expect(result.current.state.elements[0].position).toEqual({ x: 0, y: 0 });
+      expect(result.current.state.elements[1].position).toEqual({ x: 50, y: 50 });
+    });
+
+    it('should remove several elements and drop them from the selection', () => {
+      const { result, first, second, third } = setup();
+
+      act(() => {
+        result.current.api.selectElements([first.id, second.id, third.id]);
+      });
+
+      act(() => {
+        result.current.api.removeElements([first.id, third.id]);
+      });
+
+      expect(result.current.state.elements.map((el) => el.id)).toEqual([second.id]);
+      expect(result.current.state.selectedElementIds).toEqual([second.id]);
+    });
+
+    it('should copy, duplicate and paste the whole selection', () => {
+      const { result, first, second } = setup();
+
+      act(() => {
+        result.current.api.selectElements([first.id, second.id]);
+      });
+
+      const copied = result.current.api.copyElements();
+      expect(copied.map((el) => el.id)).toEqual([first.id, second.id]);
+
+      act(() => {
+        result.current.api.duplicateElements();
+      });
+
+      expect(result.current.state.elements).toHaveLength(5);
+      expect(result.current.state.selectedElementIds).toHaveLength(2);
+      expect(result.current.api.getSelectedElements().map((el) => el.position)).toEqual([
+        { x: 20, y: 20 },
+        { x: 70, y: 70 },
+      ]);
+
+      act(() => {
+        result.current.api.pasteElements(copied, { x: 5, y: 5 });
+      });
+
+      expect(result.current.state.elements).toHaveLength(7);
+      expect(result.current.api.getSelectedElements().map((el) => el.props.content)).toEqual([
+        'First',
+        'Second',
+      ]);
+    });
+
+    it('should prune the selection when undo removes selected elements', () => {
+      const { result, third } = setup();
+
+      expect(result.current.state.selectedElementId).toBe(third.id);
+
+      act(() => {
+        result.current.undo();
+      });
+
+      expect(result.current.state.selectedElementIds).toEqual([]);
+      expect(result.current.state.selectedElementId).toBeNull();
+    });
+  });
+
+  describe('Grouping', () => {
+    const setup = () => {
+      const hook = renderHook(() => useEditorState());
+      const first = createElement('text', { content: 'First' }, { position: { x: 0, y: 0 }, zIndex: 0 });
+      const second = createElement('text', { content: 'Second' }, { position: { x: 200, y: 100 }, zIndex: 1 });
+
+      act(() => {
+        hook.result.current.api.addElement(first);
+        hook.result.current.api.addElement(second);
+        hook.result.current.api.selectElements([first.id, second.id]);
+      });
+
+      return { ...hook, first, second };
+    };
+
+    it('should group the selection into a single selected element', () => {
+      const { result } = setup();
+
+      let groupId: string | null = null;
+      act(() => {
+        groupId = result.current.api.groupElements();
+      });
+
+      expect(groupId).not.toBeNull();
+      expect(result.current.state.elements).toHaveLength(1);
+      expect(result.current.state.elements[0].type).toBe('group');
+      expect(result.current.state.selectedElementIds).toEqual([groupId]);
+    });
+
+    it('should not group fewer than two elements', () => {
+      const { result, first } = setup();
+
+      let groupId: string | null = 'unchanged';
+      act(() => {
+        groupId = result.current.api.groupElements([first.id]);
+      });
+
+      expect(groupId).toBeNull();
+      expect(result.current.state.elements).toHaveLength(2);
+    });
+
+    it('should restore children positions when ungrouping', () => {
+      const { result, first, second } = setup();
+
+      act(() => {
+        result.current.api.groupElements();
+      });
+      act(() => {
+        result.current.api.ungroup();
+      });
+
+      const elements = result.current.state.elements;
+      expect(elements.map((el) => el.id)).toEqual([first.id, second.id]);
+      expect(elements[1].position.x).toBeCloseTo(200);
+      expect(elements[1].position.y).toBeCloseTo(100);
+      expect(result.current.state.selectedElementIds).toEqual([first.id, second.id]);
+    });
+
+    it('should undo grouping in one step', () => {
+      const { result, first, second } = setup();
+
+      act(() => {
+        result.current.api.groupElements();
+      });
+      act(() => {
+        result.current.undo();
+      });
+
+      expect(result.current.state.elements.map((el) => el.id)).toEqual([first.id, second.id]);
+    });
+  });
+
+  describe('Transactions', () => {
+    it('should record a batch as a single undo step', () => {
+      const { result } = renderHook(() => useEditorState());
+      const elements = [0, 1, 2].map((i) =>
+        createElement('text', { content: `Element ${i}` }, { zIndex: i })
+      );
+
+      act(() => {
+        result.current.api.batch(() => {
+          elements.forEach((el) => result.current.api.addElement(el));
+          result.current.api.updateElement(elements[0].id, { opacity: 0.5 });
+        }, 'Add elements');
+      });
+
+      expect(result.current.state.elements).toHaveLength(3);
+      expect(result.current.state.history.past).toHaveLength(1);
+
+      act(() => {
+        result.current.undo();
+      });
+
+      expect(result.current.state.elements).toHaveLength(0);
+    });
+
+    it('should roll back a batch that throws', () => {
+      const { result } = renderHook(() => useEditorState());
+      const element = createElement('text', { content: 'Hello' });
+
+      act(() => {
+        result.current.api.addElement(element);
+      });
+
+      act(() => {
+        expect(() =>
+          result.current.api.batch(() => {
+            result.current.api.removeElement(element.id);
+            throw new Error('boom');
+          })
+        ).toThrow('boom');
+      });
+
+      expect(result.current.state.elements).toHaveLength(1);
+      expect(result.current.state.selectedElementId).toBe(element.id);
+      expect(result.current.state.history.past).toHaveLength(1);
+      expect(result.current.state.transaction).toBeNull();
+    });
+
+    it('should fold nested transactions into the outermost one', () => {
+      const { result } = renderHook(() => useEditorState());
+
+      act(() => {
+        result.current.api.beginTransaction();
+        result.current.api.addElement(createElement('text', { content: 'A' }));
+        result.current.api.beginTransaction();
+        result.current.api.addElement(createElement('text', { content: 'B' }));
+        result.current.api.commitTransaction();
+      });
+
+      expect(result.current.state.transaction).not.toBeNull();
+      expect(result.current.state.history.past).toHaveLength(0);
+
+      act(() => {
+        result.current.api.commitTransaction();
+      });
+
+      expect(result.current.state.history.past).toHaveLength(1);
+    });
+
+    it('should discard changes on rollback', () => {
+      const { result } = renderHook(() => useEditorState());
+
+      act(() => {
+        result.current.api.beginTransaction();
+        result.current.api.addElement(createElement('text', { content: 'A' }));
+        result.current.api.rollback();
+      });
+
+      expect(result.current.state.elements).toHaveLength(0);
+      expect(result.current.state.history.past).toHaveLength(0);
+    });
+
+    it('should only roll back the inner batch when its error is caught', () => {
+      const { result } = renderHook(() => useEditorState());
+      const [a, b, c] = ['A', 'B', 'C'].map((content, i) =>
+        createElement('text', { content }, { zIndex: i })
+      );
+
+      act(() => {
+        result.current.api.batch(() => {
+          result.current.api.addElement(a);
+          try {
+            result.current.api.batch(() => {
+              result.current.api.addElement(b);
+              throw new Error('boom');
+            });
+          } catch {
+            // The outer batch goes on without the inner changes
+          }
+          result.current.api.addElement(c);
+        });
+      });
+
+      expect(result.current.state.elements.map((el) => el.id)).toEqual([a.id, c.id]);
+      expect(result.current.state.transaction).toBeNull();
+      expect(result.current.state.history.past).toHaveLength(1);
+
+      act(() => {
+        result.current.undo();
+      });
+
+      expect(result.current.state.elements).toHaveLength(0);
+    });
+
+    it('should not record empty transactions', () => {
+      const { result } = renderHook(() => useEditorState());
+
+      act(() => {
+        result.current.api.batch(() => undefined);
+      });
+
+      expect(result.current.state.history.past).toHaveLength(0);
+    });
+  });
+
+  describe('History limits and coalescing', () => {
+    let now = 0;
+
+    beforeEach(() => {
+      now = 0;
+      jest.spyOn(Date, 'now').mockImplementation(() => now);
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    const addElement = (result: { current: ReturnType<typeof useEditorState> }) => {
+      const element = createElement('text', { content: 'Hello', fontSize: 16 });
+      act(() => {
+        result.current.api.addElement(element);
+      });
+      return element;
+    };
+
+    it('should merge rapid nudges of the same element into one step', () => {
+      const { result } = renderHook(() => useEditorState());
+      const element = addElement(result);
+
+      for (let i = 1; i <= 5; i++) {
+        now += 100;
+        act(() => {
+          result.current.api.moveElement(element.id, 1, 0);
+        });
+      }
+
+      expect(result.current.state.elements[0].position.x).toBe(5);
+      expect(result.current.state.history.past).toHaveLength(2);
+
+      act(() => {
+        result.current.undo();
+      });
+
+      expect(result.current.state.elements[0].position.x).toBe(0);
+    });
+
+    it('should not merge edits outside the coalesce window', () => {
+      const { result } = renderHook(() => useEditorState());
+      const element = addElement(result);
+
+      act(() => {
+        result.current.api.moveElement(element.id, 1, 0);
+      });
+      now += 1000;
+      act(() => {
+        result.current.api.moveElement(element.id, 1, 0);
+      });
+
+      expect(result.current.state.history.past).toHaveLength(3);
+    });
+
+    it('should not merge edits of different properties', () => {
+      const { result } = renderHook(() => useEditorState());
+      const element = addElement(result);
+
+      act(() => {
+        result.current.api.updateElement(element.id, {
+          props: { ...element.props, fontSize: 20 },
+        });
+      });
+      act(() => {
+        result.current.api.updateElement(element.id, {
+          props: { ...result.current.state.elements[0].props, content: 'World' },
+        });
+      });
+
+      expect(result.current.state.history.past).toHaveLength(3);
+    });
+
+    it('should merge edits of the same style and not of different styles', () => {
+      const { result } = renderHook(() => useEditorState());
+      const element = addElement(result);
+      const setStyle = (style: Record<string, unknown>) =>
+        act(() => {
+          result.current.api.updateElement(element.id, {
+            style: { ...result.current.state.elements[0].style, ...style },
+          });
+        });
+
+      setStyle({ glowSize: 4 });
+      setStyle({ glowSize: 8 });
+      expect(result.current.state.history.past).toHaveLength(2);
+
+      setStyle({ cornerRadius: 10 });
+      expect(result.current.state.history.past).toHaveLength(3);
+      expect(result.current.state.elements[0].style).toEqual({ glowSize: 8, cornerRadius: 10 });
+    });
+
+    it('should not merge edits separated by an undo', () => {
+      const { result } = renderHook(() => useEditorState());
+      const element = addElement(result);
+
+      act(() => {
+        result.current.api.moveElement(element.id, 1, 0);
+      });
+      act(() => {
+        result.current.undo();
+      });
+      act(() => {
+        result.current.api.moveElement(element.id, 2, 0);
+      });
+
+      expect(result.current.state.history.past).toHaveLength(2);
+    });
+
+    it('should keep at most maxHistory steps', () => {
+      const { result } = renderHook(() => useEditorState(null, { maxHistory: 3 }));
+
+      for (let i = 0; i < 5; i++) {
+        addElement(result);
+      }
+
+      expect(result.current.state.history.past).toHaveLength(3);
+      expect(result.current.state.history.past[0].document.elements).toHaveLength(2);
+    });
+
+    it('should read maxHistory from the mode', () => {
+      const { result } = renderHook(() => useEditorState({ ...mockMode, maxHistory: 2 }));
+
+      for (let i = 0; i < 4; i++) {
+        addElement(result);
+      }
+
+      expect(result.current.state.history.past).toHaveLength(2);
+    });
+
+    it('should keep history memory flat over 10k nudges on a 500-element canvas', () => {
+      const maxHistory = 100;
+      const { result } = renderHook(() => useEditorState(null, { maxHistory }));
+      const elements = Array.from({ length: 500 }, (_, i) =>
+        createElement('text', { content: `Element ${i}` }, { zIndex: i })
+      );
+
+      act(() => {
+        result.current.api.loadElements(elements);
+      });
+
+      // Worst case: nudges far enough apart in time that none of them coalesce
+      const nudge = (from: number, count: number) => {
+        act(() => {
+          for (let i = from; i < from + count; i++) {
+            now += 1000;
+            result.current.api.updateElement(elements[i % elements.length].id, {
+              position: { x: i, y: 0 },
+            });
+          }
+        });
+      };
+      const retainedReferences = () =>
+        result.current.state.history.past.reduce(
+          (total, snapshot) => total + snapshot.document.elements.length,
+          0
+        );
+      const retainedElements = () =>
+        new Set(result.current.state.history.past.flatMap((snapshot) => snapshot.document.elements)).size;
+
+      for (let i = 0; i < 5000; i += 1000) nudge(i, 1000);
+      const halfway = { references: retainedReferences(), elements: retainedElements() };
+
+      for (let i = 5000; i < 10000; i += 1000) nudge(i, 1000);
+
+      expect(result.current.state.history.past).toHaveLength(maxHistory);
+      expect(retainedReferences()).toBe(halfway.references);
+      expect(retainedReferences()).toBe(maxHistory * elements.length);
+      // Snapshots share unchanged elements: one new object per step, not one copy per element
+      expect(retainedElements()).toBeLessThanOrEqual(elements.length + maxHistory);
+      expect(retainedElements()).toBe(halfway.elements);
+    });
+  });
+
+  describe('Document history', () => {
+    it('should undo and redo canvas resizes', () => {
+      const { result } = renderHook(() => useEditorState());
+
+      act(() => {
+        result.current.setCanvasSize(1920, 1080);
+      });
+      act(() => {
+        result.current.undo();
+      });
+
+      expect(result.current.state.canvasSize).toEqual({ width: 800, height: 600 });
+
+      act(() => {
+        result.current.redo();
+      });
+
+      expect(result.current.state.canvasSize).toEqual({ width: 1920, height: 1080 });
+    });
+
+    it('should undo background changes and restore elements alongside', () => {
+      const { result } = renderHook(() =>
+        useEditorState({ ...mockMode, backgroundColor: '#111111' })
+      );
+      const element = createElement('text', { content: 'Hello' });
+
+      act(() => {
+        result.current.api.addElement(element);
+      });
+      act(() => {
+        result.current.api.setBackground({ color: '#ffffff', image: 'bg.png' });
+      });
+
+      expect(result.current.state.backgroundColor).toBe('#ffffff');
+
+      act(() => {
+        result.current.undo();
+      });
+
+      expect(result.current.state.backgroundColor).toBe('#111111');
+      expect(result.current.state.backgroundImage).toBeUndefined();
+      expect(result.current.state.elements).toHaveLength(1);
+    });
+
+    it('should not record unchanged canvas size or background', () => {
+      const { result } = renderHook(() => useEditorState());
+
+      act(() => {
+        result.current.setCanvasSize(800, 600);
+        result.current.api.setBackground({ image: '' });
+      });
+
+      expect(result.current.canUndo).toBe(false);
+    });
+
+    it('should export and import the full document in one undo step', () => {
+      const { result } = renderHook(() => useEditorState());
+
+      act(() => {
+        result.current.api.setBackground({ color: '#123456', image: 'bg.png' });
+      });
+
+      const exported = result.current.api.exportJSON();
+      expect(exported.backgroundColor).toBe('#123456');
+      expect(exported.backgroundImage).toBe('bg.png');
+
+      act(() => {
+        result.current.api.importJSON({
+          width: 300,
+          height: 200,
+          elements: [createElement('text', { content: 'Imported' })],
+          backgroundColor: '#000000',
+        });
+      });
+
+      expect(result.current.state.canvasSize).toEqual({ width: 300, height: 200 });
+      expect(result.current.state.backgroundColor).toBe('#000000');
+
+      act(() => {
+        result.current.undo();
+      });
+
+      expect(result.current.state.canvasSize).toEqual({ width: 800, height: 600 });
+      expect(result.current.state.backgroundColor).toBe('#123456');
+      expect(result.current.state.elements).toHaveLength(0);
+    });
+
+    it('should load a document without recording history', () => {
+      const { result } = renderHook(() => useEditorState());
+
+      act(() => {
+        result.current.api.loadDocument({
+          canvasSize: { width: 500, height: 500 },
+          backgroundColor: '#abcdef',
+        });
+      });
+
+      expect(result.current.state.canvasSize).toEqual({ width: 500, height: 500 });
+      expect(result.current.state.backgroundColor).toBe('#abcdef');
+      expect(result.current.canUndo).toBe(false);
+    });
+  });
+
+  describe('History navigation', () => {
+    const setup = () => {
+      const hook = renderHook(() => useEditorState());
+      const element = { ...createElement('text', { content: 'Hello' }), displayName: 'Title' };
+
+      act(() => {
+        hook.result.current.api.addElement(element);
+      });
+      act(() => {
+        hook.result.current.api.updateElement(element.id, { position: { x: 10, y: 10 } });
+      });
+      act(() => {
+        hook.result.current.setCanvasSize(1000, 1000);
+      });
+
+      return { ...hook, element };
+    };
+
+    it('should list labelled history entries', () => {
+      const { result } = setup();
+
+      expect(result.current.api.getHistory()).toEqual([
+        { index: 0, label: 'Initial state', status: 'past' },
+        { index: 1, label: 'Add Title', status: 'past' },
+        { index: 2, label: 'Move Title', status: 'past' },
+        { index: 3, label: 'Resize canvas', status: 'current' },
+      ]);
+    });
+
+    it('should label the oldest entry after the trimmed step', () => {
+      const { result } = renderHook(() => useEditorState(null, { maxHistory: 2 }));
+      const element = { ...createElement('text', { content: 'Hello' }), displayName: 'Title' };
+
+      act(() => {
+        result.current.api.addElement(element);
+      });
+      act(() => {
+        result.current.api.updateElement(element.id, { position: { x: 10, y: 10 } });
+      });
+      act(() => {
+        result.current.setCanvasSize(1000, 1000);
+      });
+
+      expect(result.current.api.getHistory()).toEqual([
+        { index: 0, label: 'Add Title', status: 'past' },
+        { index: 1, label: 'Move Title', status: 'past' },
+        { index: 2, label: 'Resize canvas', status: 'current' },
+      ]);
+
+      act(() => {
+        result.current.api.clearHistory();
+      });
+
+      expect(result.current.api.getHistory()).toEqual([
+        { index: 0, label: 'Initial state', status: 'current' },
+      ]);
+    });
+
+    it('should keep labels of undone steps as future entries', () => {
+      const { result } = setup();
+
+      act(() => {
+        result.current.undo();
+      });
+
+      const history = result.current.api.getHistory();
+      expect(history[2]).toEqual({ index: 2, label: 'Move Title', status: 'current' });
+      expect(history[3]).toEqual({ index: 3, label: 'Resize canvas', status: 'future' });
+    });
+
+    it('should jump backwards and forwards in history', () => {
+      const { result } = setup();
+
+      act(() => {
+        result.current.api.goToHistory(1);
+      });
+
+      expect(result.current.state.elements[0].position).toEqual({ x: 0, y: 0 });
+      expect(result.current.state.canvasSize).toEqual({ width: 800, height: 600 });
+      expect(result.current.state.history.future).toHaveLength(2);
+
+      act(() => {
+        result.current.api.goToHistory(3);
+      });
+
+      expect(result.current.state.elements[0].position).toEqual({ x: 10, y: 10 });
+      expect(result.current.state.canvasSize).toEqual({ width: 1000, height: 1000 });
+      expect(result.current.canRedo).toBe(false);
+    });
+
+    it('should use the transaction label for batched steps', () => {
+      const { result } = renderHook(() => useEditorState());
+
+      act(() => {
+        result.current.api.batch(() => {
+          result.current.api.addElement(createElement('text', { content: 'A' }));
+          result.current.api.addElement(createElement('text', { content: 'B' }));
+        }, 'Add heading');
+      });
+
+      expect(result.current.api.getHistory()[1].label).toBe('Add heading');
+    });
+  });
+
   describe('Get All Elements', () => {
     it('should return all elements', () => {
       const { result } = renderHook(() => useEditorState());
@@ -693,4 +1457,47 @@ describe('useEditorState', () => {
       expect(allElements).toHaveLength(2);
     });
   });
+
+  describe('Store binding', () => {
+    it('should keep the api stable across renders', () => {
+      const { result } = renderHook(() => useEditorState());
+      const api = result.current.api;
+
+      act(() => {
+        api.addElement(createElement('text', { content: 'Hello' }));
+      });
+
+      expect(result.current.api).toBe(api);
+      expect(result.current.store).toBe(api);
+    });
+
+    it('should re-render when the store is changed directly', () => {
+      const { result } = renderHook(() => useEditorState());
+
+      act(() => {
+        result.current.store.dispatch({ type: 'SET_CANVAS_SIZE', width: 320, height: 240 });
+      });
+
+      expect(result.current.state.canvasSize).toEqual({ width: 320, height: 240 });
+      expect(result.current.canUndo).toBe(true);
+    });
+
+    it('should apply the latest middleware option', () => {
+      const cancelClear: EditorMiddleware = (action) => (action.type === 'CLEAR' ? null : action);
+      const { result, rerender } = renderHook(
+        ({ middleware }) => useEditorState(null, { middleware }),
+        { initialProps: { middleware: [] as EditorMiddleware[] } }
+      );
+
+      act(() => {
+        result.current.api.addElement(createElement('text', { content: 'Hello' }));
+      });
+      rerender({ middleware: [cancelClear] });
+      act(() => {
+        result.current.api.clear();
+      });
+
+      expect(result.current.state.elements).toHaveLength(1);
+    });
+  });
 });
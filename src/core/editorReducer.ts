@@ -0,0 +1,580 @@
+/**
+ * Visual Editor - Editor Reducer
+ *
+ * Pure state transitions for the visual editor. Shared by the headless
+ * EditorStore and the React bindings, so it must not depend on React.
+ */
+
+import {
+  EditorState,
+  EditorAction,
+  EditorElement,
+  EditorMode,
+  EditorStateOptions,
+  EditorDocument,
+  HistoryStep,
+} from "../types";
+import { groupElementsInList, isGroupElement, ungroupElementInList } from "../utils/groupUtils";
+import {
+  DEFAULT_TRANSACTION_LABEL,
+  INITIAL_HISTORY_LABEL,
+  getActionLabel,
+} from "../utils/historyUtils";
+
+/** Default number of undo steps kept in history */
+const DEFAULT_MAX_HISTORY = 100;
+
+/** Default time window (ms) in which repeated edits are merged into one undo step */
+const DEFAULT_COALESCE_WINDOW = 500;
+
+/**
+ * Initial state for the editor
+ */
+export const createInitialState = (
+  mode: EditorMode | null,
+  options: EditorStateOptions = {}
+): EditorState => ({
+  elements: [],
+  selectedElementId: null,
+  selectedElementIds: [],
+  canvasSize: mode?.defaultCanvasSize || { width: 800, height: 600 },
+  backgroundColor: mode?.backgroundColor,
+  backgroundImage: mode?.backgroundImage,
+  zoom: 1,
+  pan: { x: 0, y: 0 },
+  mode,
+  history: {
+    past: [],
+    future: [],
+    maxSize: options.maxHistory ?? mode?.maxHistory ?? DEFAULT_MAX_HISTORY,
+    coalesceWindow: options.coalesceWindow ?? DEFAULT_COALESCE_WINDOW,
+    lastEdit: null,
+    initialLabel: INITIAL_HISTORY_LABEL,
+  },
+  transaction: null,
+});
+
+/**
+ * Build the selection fields of the state from an ordered list of IDs.
+ * The last ID is the primary selection exposed as `selectedElementId`.
+ */
+const toSelection = (
+  ids: string[]
+): Pick<EditorState, "selectedElementId" | "selectedElementIds"> => {
+  const unique = ids.filter((id, index) => ids.indexOf(id) === index);
+  return {
+    selectedElementIds: unique,
+    selectedElementId: unique.length > 0 ? unique[unique.length - 1] : null,
+  };
+};
+
+/**
+ * Drop selected IDs that no longer exist in the given element list
+ */
+const pruneSelection = (state: EditorState, elements: EditorElement[]) => {
+  const existing = new Set(elements.map((el) => el.id));
+  return toSelection(state.selectedElementIds.filter((id) => existing.has(id)));
+};
+
+/**
+ * Snapshot the document part of the state
+ */
+const getDocument = (state: EditorState): EditorDocument => ({
+  elements: state.elements,
+  canvasSize: state.canvasSize,
+  backgroundColor: state.backgroundColor,
+  backgroundImage: state.backgroundImage,
+});
+
+/**
+ * Check whether two document snapshots are identical (fields are compared by reference)
+ */
+const isSameDocument = (a: EditorDocument, b: EditorDocument): boolean =>
+  a.elements === b.elements &&
+  a.canvasSize === b.canvasSize &&
+  a.backgroundColor === b.backgroundColor &&
+  a.backgroundImage === b.backgroundImage;
+
+/**
+ * Restore a document snapshot, dropping selected IDs that no longer exist
+ */
+const restoreDocument = (state: EditorState, document: EditorDocument) => ({
+  ...document,
+  ...pruneSelection(state, document.elements),
+});
+
+/**
+ * Push a snapshot onto the undo stack, dropping the oldest steps beyond `maxSize`.
+ * The oldest remaining entry takes the label of the last dropped step.
+ */
+const pushHistory = (
+  history: EditorState["history"],
+  step: HistoryStep
+): Pick<EditorState["history"], "past" | "initialLabel"> => {
+  const past = [...history.past, step];
+  if (history.maxSize <= 0 || past.length <= history.maxSize) {
+    return { past, initialLabel: history.initialLabel };
+  }
+  const dropped = past.length - history.maxSize;
+  return { past: past.slice(dropped), initialLabel: past[dropped - 1].label };
+};
+
+/**
+ * Push the current document onto the undo stack.
+ * Snapshots share unchanged element objects with the live state, so a step only costs
+ * one array of references. Inside a transaction the stack is left untouched; the whole
+ * transaction is recorded as a single step when it is committed.
+ *
+ * When `editKey` matches the previous edit within the coalesce window (e.g. arrow-key
+ * nudges or slider drags), the edit is merged into the previous step.
+ */
+const recordHistory = (
+  state: EditorState,
+  action: EditorAction,
+  editKey?: string
+): EditorState["history"] => {
+  const { history } = state;
+  if (state.transaction) return history;
+
+  const now = Date.now();
+  const lastEdit = editKey ? { key: editKey, time: now } : null;
+  if (
+    editKey &&
+    history.lastEdit?.key === editKey &&
+    now - history.lastEdit.time <= history.coalesceWindow &&
+    history.past.length > 0
+  ) {
+    return { ...history, future: [], lastEdit };
+  }
+
+  return {
+    ...history,
+    ...pushHistory(history, {
+      document: getDocument(state),
+      label: getActionLabel(state.elements, action),
+    }),
+    future: [],
+    lastEdit,
+  };
+};
+
+/**
+ * Describe which properties an update touches, so repeated edits can be coalesced.
+ * Prop and style updates are keyed by the individual props or styles that actually change.
+ */
+const getEditKey = (elements: EditorElement[], id: string, updates: Partial<EditorElement>) => {
+  const element = elements.find((el) => el.id === id);
+  const keys = Object.keys(updates).flatMap((key) => {
+    if ((key !== "props" && key !== "style") || !element || !updates[key]) return [key];
+    const values: Record<string, unknown> = updates[key] ?? {};
+    const current: Record<string, unknown> = element[key] ?? {};
+    return Object.keys(values)
+      .filter((name) => values[name] !== current[name])
+      .map((name) => `${key}.${name}`);
+  });
+  return `${id}:${keys.sort().join(",")}`;
+};
+
+/**
+ * Ensure an element has explicit visible and locked properties
+ */
+const normalizeElement = (element: EditorElement): EditorElement => ({
+  ...element,
+  visible: element.visible ?? true,
+  locked: element.locked ?? false,
+});
+
+/**
+ * State reducer for the editor
+ */
+export const editorReducer = (state: EditorState, action: EditorAction): EditorState => {
+  switch (action.type) {
+    case "ADD_ELEMENT": {
+      // Normalize element to ensure it has visible and locked properties
+      const normalizedElement = normalizeElement(action.element);
+      const newElements = [...state.elements, normalizedElement];
+      return {
+        ...state,
+        elements: newElements,
+        ...toSelection([normalizedElement.id]),
+        history: recordHistory(state, action),
+      };
+    }
+
+    case "ADD_ELEMENTS": {
+      if (action.elements.length === 0) return state;
+      const normalizedElements = action.elements.map(normalizeElement);
+      return {
+        ...state,
+        elements: [...state.elements, ...normalizedElements],
+        ...toSelection(normalizedElements.map((el) => el.id)),
+        history: recordHistory(state, action),
+      };
+    }
+
+    case "UPDATE_ELEMENT": {
+      const newElements = state.elements.map((el) =>
+        el.id === action.id ? { ...el, ...action.updates } : el
+      );
+      return {
+        ...state,
+        elements: newElements,
+        history: recordHistory(
+          state,
+          action,
+          getEditKey(state.elements, action.id, action.updates)
+        ),
+      };
+    }
+
+    case "UPDATE_ELEMENTS": {
+      if (action.updates.length === 0) return state;
+      const updatesById = new Map<string, Partial<EditorElement>>();
+      action.updates.forEach(({ id, updates }) => {
+        updatesById.set(id, { ...updatesById.get(id), ...updates });
+      });
+      const newElements = state.elements.map((el) =>
+        updatesById.has(el.id) ? { ...el, ...updatesById.get(el.id) } : el
+      );
+      const editKey = Array.from(updatesById.entries())
+        .map(([id, updates]) => getEditKey(state.elements, id, updates))
+        .sort()
+        .join("|");
+      return {
+        ...state,
+        elements: newElements,
+        history: recordHistory(state, action, editKey),
+      };
+    }
+
+    case "REMOVE_ELEMENT": {
+      const newElements = state.elements.filter((el) => el.id !== action.id);
+      return {
+        ...state,
+        elements: newElements,
+        ...toSelection(state.selectedElementIds.filter((id) => id !== action.id)),
+        history: recordHistory(state, action),
+      };
+    }
+
+    case "REMOVE_ELEMENTS": {
+      const ids = new Set(action.ids);
+      const newElements = state.elements.filter((el) => !ids.has(el.id));
+      if (newElements.length === state.elements.length) return state;
+      return {
+        ...state,
+        elements: newElements,
+        ...toSelection(state.selectedElementIds.filter((id) => !ids.has(id))),
+        history: recordHistory(state, action),
+      };
+    }
+
+    case "SELECT_ELEMENT":
+      return {
+        ...state,
+        ...toSelection(action.id ? [action.id] : []),
+      };
+
+    case "SELECT_ELEMENTS":
+      return {
+        ...state,
+        ...toSelection(action.ids),
+      };
+
+    case "TOGGLE_ELEMENT_SELECTION": {
+      const isSelected = state.selectedElementIds.includes(action.id);
+      return {
+        ...state,
+        ...toSelection(
+          isSelected
+            ? state.selectedElementIds.filter((id) => id !== action.id)
+            : [...state.selectedElementIds, action.id]
+        ),
+      };
+    }
+
+    case "GROUP_ELEMENTS": {
+      const existing = new Set(state.elements.map((el) => el.id));
+      const ids = action.ids.filter((id) => existing.has(id));
+      if (ids.length < 2) return state;
+      return {
+        ...state,
+        elements: groupElementsInList(state.elements, ids, action.groupId),
+        ...toSelection([action.groupId]),
+        history: recordHistory(state, action),
+      };
+    }
+
+    case "UNGROUP_ELEMENT": {
+      const group = state.elements.find((el) => el.id === action.id);
+      if (!isGroupElement(group)) return state;
+      return {
+        ...state,
+        elements: ungroupElementInList(state.elements, action.id),
+        ...toSelection(group.props.children.map((child) => child.id)),
+        history: recordHistory(state, action),
+      };
+    }
+
+    case "SET_ELEMENTS":
+      return {
+        ...state,
+        elements: action.elements,
+        history: recordHistory(state, action),
+      };
+
+    case "SET_AUTO_SIZE": {
+      // A size measured from content follows from props that are already in history,
+      // so it is applied silently (recording it would make undo re-measure and clear redo)
+      const element = state.elements.find((el) => el.id === action.id);
+      if (
+        !element ||
+        (element.size.width === action.size.width && element.size.height === action.size.height)
+      ) {
+        return state;
+      }
+      return {
+        ...state,
+        elements: state.elements.map((el) =>
+          el.id === action.id ? { ...el, size: { ...action.size } } : el
+        ),
+      };
+    }
+
+    case "LOAD_ELEMENTS":
+      // Load elements without recording history (for initial load)
+      return {
+        ...state,
+        elements: action.elements.map(normalizeElement),
+      };
+
+    case "REORDER_ELEMENT": {
+      const currentIndex = state.elements.findIndex((el) => el.id === action.elementId);
+      if (currentIndex === -1 || currentIndex === action.newIndex) return state;
+
+      const newElements = [...state.elements];
+      const [element] = newElements.splice(currentIndex, 1);
+      newElements.splice(action.newIndex, 0, element);
+
+      return {
+        ...state,
+        // Update z-indices to match array indices, without touching elements history shares
+        elements: newElements.map((el, index) =>
+          el.zIndex === index ? el : { ...el, zIndex: index }
+        ),
+        history: recordHistory(state, action),
+      };
+    }
+
+    case "SET_CANVAS_SIZE":
+      if (state.canvasSize.width === action.width && state.canvasSize.height === action.height) {
+        return state;
+      }
+      return {
+        ...state,
+        canvasSize: {
+          width: action.width,
+          height: action.height,
+        },
+        history: recordHistory(state, action, "canvasSize"),
+      };
+
+    case "SET_BACKGROUND": {
+      const color = action.color ?? state.backgroundColor;
+      const image = action.image ?? state.backgroundImage;
+      // An empty image and no image are the same thing
+      if (color === state.backgroundColor && (image || "") === (state.backgroundImage || "")) {
+        return state;
+      }
+      return {
+        ...state,
+        backgroundColor: color,
+        backgroundImage: image,
+        history: recordHistory(
+          state,
+          action,
+          action.color !== undefined ? "background.color" : "background.image"
+        ),
+      };
+    }
+
+    case "SET_DOCUMENT": {
+      const document = { ...getDocument(state), ...action.document };
+      return {
+        ...state,
+        ...restoreDocument(state, document),
+        history: recordHistory(state, action),
+      };
+    }
+
+    case "LOAD_DOCUMENT": {
+      // Load document fields without recording history (for initial load)
+      const document = { ...getDocument(state), ...action.document };
+      return {
+        ...state,
+        ...restoreDocument(state, {
+          ...document,
+          elements: document.elements.map(normalizeElement),
+        }),
+      };
+    }
+
+    case "SET_ZOOM":
+      return {
+        ...state,
+        zoom: action.zoom,
+      };
+
+    case "SET_PAN":
+      return {
+        ...state,
+        pan: {
+          x: action.x,
+          y: action.y,
+        },
+      };
+
+    case "SET_MODE":
+      return {
+        ...state,
+        mode: action.mode,
+        canvasSize: action.mode.defaultCanvasSize,
+      };
+
+    case "CLEAR":
+      return {
+        ...state,
+        elements: [],
+        ...toSelection([]),
+        history: recordHistory(state, action),
+      };
+
+    case "BEGIN_TRANSACTION":
+      // Nested transactions are folded into the outermost one, keeping where they began for
+      // their rollback
+      if (state.transaction) {
+        return {
+          ...state,
+          transaction: {
+            ...state.transaction,
+            nested: [
+              ...state.transaction.nested,
+              { document: getDocument(state), selectedElementIds: state.selectedElementIds },
+            ],
+          },
+        };
+      }
+      return {
+        ...state,
+        transaction: {
+          label: action.label,
+          document: getDocument(state),
+          selectedElementIds: state.selectedElementIds,
+          nested: [],
+        },
+      };
+
+    case "COMMIT_TRANSACTION": {
+      if (!state.transaction) return state;
+      if (state.transaction.nested.length > 0) {
+        return {
+          ...state,
+          transaction: { ...state.transaction, nested: state.transaction.nested.slice(0, -1) },
+        };
+      }
+      const { document: before } = state.transaction;
+      return {
+        ...state,
+        transaction: null,
+        history:
+          isSameDocument(before, getDocument(state))
+            ? state.history
+            : {
+                ...state.history,
+                ...pushHistory(state.history, {
+                  document: before,
+                  label: state.transaction.label ?? DEFAULT_TRANSACTION_LABEL,
+                }),
+                future: [],
+                lastEdit: null,
+              },
+      };
+    }
+
+    case "ROLLBACK_TRANSACTION": {
+      if (!state.transaction) return state;
+      const { nested } = state.transaction;
+      // A nested rollback only discards the nested changes; the outer transaction stays open
+      if (nested.length > 0) {
+        const { document, selectedElementIds } = nested[nested.length - 1];
+        return {
+          ...state,
+          ...document,
+          ...toSelection(selectedElementIds),
+          transaction: { ...state.transaction, nested: nested.slice(0, -1) },
+        };
+      }
+      const { document, selectedElementIds } = state.transaction;
+      return {
+        ...state,
+        ...document,
+        ...toSelection(selectedElementIds),
+        transaction: null,
+      };
+    }
+
+    case "UNDO": {
+      // Undo/redo would interleave with the pending transaction, so they wait for it to end
+      if (state.transaction || state.history.past.length === 0) return state;
+      const previous = state.history.past[state.history.past.length - 1];
+      const newPast = state.history.past.slice(0, -1);
+      return {
+        ...state,
+        ...restoreDocument(state, previous.document),
+        history: {
+          ...state.history,
+          past: newPast,
+          future: [
+            { document: getDocument(state), label: previous.label },
+            ...state.history.future,
+          ],
+          lastEdit: null,
+        },
+      };
+    }
+
+    case "REDO": {
+      if (state.transaction || state.history.future.length === 0) return state;
+      const next = state.history.future[0];
+      const newFuture = state.history.future.slice(1);
+      return {
+        ...state,
+        ...restoreDocument(state, next.document),
+        history: {
+          ...state.history,
+          ...pushHistory(state.history, { document: getDocument(state), label: next.label }),
+          future: newFuture,
+          lastEdit: null,
+        },
+      };
+    }
+
+    case "GO_TO_HISTORY": {
+      let current = state;
+      while (current.history.past.length > action.index && current.history.past.length > 0) {
+        const previous = current;
+        current = editorReducer(current, { type: "UNDO" });
+        if (current === previous) break;
+      }
+      while (current.history.past.length < action.index && current.history.future.length > 0) {
+        const previous = current;
+        current = editorReducer(current, { type: "REDO" });
+        if (current === previous) break;
+      }
+      return current;
+    }
+
+    default:
+      return state;
+  }
+};
@@ -0,0 +1,43 @@
+/**
+ * Font loading hook
+ *
+ * Loads a mode's custom fonts and reports when text has to be measured again.
+ */
+
+import { useEffect, useState } from "react";
+import { EditorFontMap } from "../types";
+import { loadFonts } from "../utils/fontUtils";
+
+/**
+ * Load custom fonts and count font loads.
+ * The returned version changes whenever fonts finish loading (the registered ones or any
+ * other font the page loads), so text laid out with fallback fonts can be re-measured.
+ *
+ * @param fonts - Custom fonts to load (usually `mode.fonts`)
+ * @returns A number that increases after each font load
+ */
+export const useFontLoader = (fonts?: EditorFontMap): number => {
+  const [version, setVersion] = useState(0);
+
+  useEffect(() => {
+    if (!fonts) return;
+    let cancelled = false;
+    loadFonts(fonts).then((loaded) => {
+      if (!cancelled && loaded.length > 0) setVersion((current) => current + 1);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [fonts]);
+
+  // Fonts loaded by other means (e.g., CSS @font-face used for the first time) count too
+  useEffect(() => {
+    const fontSet = typeof document !== "undefined" ? document.fonts : undefined;
+    if (!fontSet?.addEventListener) return;
+    const handleLoadingDone = () => setVersion((current) => current + 1);
+    fontSet.addEventListener("loadingdone", handleLoadingDone);
+    return () => fontSet.removeEventListener("loadingdone", handleLoadingDone);
+  }, []);
+
+  return version;
+};
@@ -0,0 +1,84 @@
+/**
+ * Visual Editor - Element Style Group
+ *
+ * Draws an element through its renderer inside a group carrying the styling every element
+ * shares (`element.style`): blend mode and rounded corners on the group, shadow and glow as
+ * CSS filters on a cached bitmap of it. Renderers don't need to know about the styling.
+ */
+
+import React from "react";
+import { Group } from "react-konva";
+import Konva from "konva";
+import { EditorElement, ElementRenderer } from "../types";
+import {
+  getElementCornerRadius,
+  getElementStyleFilters,
+  getElementStylePadding,
+} from "../utils/styleUtils";
+import { useGroupCache } from "./useGroupCache";
+
+type RendererComponent = NonNullable<ElementRenderer["renderComponent"]>;
+
+const applyMatrix = (context: Konva.Context, m: number[]) =>
+  context.transform(m[0], m[1], m[2], m[3], m[4], m[5]);
+
+/**
+ * Styled element group
+ */
+export const ElementStyleGroup: React.FC<{
+  element: EditorElement;
+  // Renderer component drawing the element and the props it is rendered with
+  renderer: RendererComponent;
+  rendererProps: React.ComponentProps<RendererComponent>;
+}> = ({ element, renderer: Renderer, rendererProps }) => {
+  const groupRef = React.useRef<Konva.Group>(null);
+
+  const { style } = element;
+  const filters = React.useMemo(() => getElementStyleFilters(style), [style]);
+  const cornerRadius = style?.cornerRadius ?? 0;
+
+  // Filters run on a bitmap of the group
+  const refreshCache = useGroupCache(groupRef, filters.length > 0, getElementStylePadding(style));
+
+  // Clip to the rounded box of the element node, following it while it is dragged or resized
+  const clipFunc = React.useCallback(
+    (context: Konva.Context) => {
+      const node = groupRef.current?.getChildren()[0];
+      if (!node) return;
+      const transform = node.getTransform();
+      const width = node.width() || element.size.width;
+      const height = node.height() || element.size.height;
+      const scale = (Math.abs(node.scaleX()) + Math.abs(node.scaleY())) / 2 || 1;
+      const radius = getElementCornerRadius(
+        { cornerRadius: cornerRadius / scale },
+        { width, height }
+      );
+
+      applyMatrix(context, transform.getMatrix());
+      context.roundRect(0, 0, width, height, radius);
+      // The path keeps its shape; the children are drawn without the node transform
+      applyMatrix(context, transform.copy().invert().getMatrix());
+    },
+    [cornerRadius, element.size.width, element.size.height]
+  );
+
+  // Renderers report changes of their nodes (e.g., an image loaded) that need a new bitmap
+  const { onNodeUpdate } = rendererProps;
+  const handleNodeUpdate = React.useCallback(() => {
+    onNodeUpdate?.();
+    refreshCache();
+  }, [onNodeUpdate, refreshCache]);
+
+  return (
+    <Group
+      ref={groupRef}
+      filters={filters.length > 0 ? filters : undefined}
+      globalCompositeOperation={style?.blendMode}
+      clipFunc={cornerRadius > 0 ? clipFunc : undefined}
+    >
+      <Renderer {...rendererProps} onNodeUpdate={handleNodeUpdate} />
+    </Group>
+  );
+};
+
+export default ElementStyleGroup;
@@ -0,0 +1,195 @@
+/**
+ * Visual Editor - Group Element Renderer
+ *
+ * Built-in group element renderer using Konva.
+ * Children are rendered through their own registered renderers, inside an inner Konva group
+ * scaling their content box to the group's size. The outer group, which the transformer is
+ * attached to, keeps a scale of 1 like every other element node.
+ */
+
+import React from "react";
+import { Group, Rect } from "react-konva";
+import { ElementRenderer, EditorElement, GroupElementProps } from "../types";
+import { Group as GroupIcon } from "lucide-react";
+import { getSnappingPosition, SnapGuide } from "../utils/snapping";
+import { getMaskRuns } from "../utils/maskUtils";
+import { KonvaEventObject, Node, NodeConfig } from "konva/lib/Node";
+import type { ElementRegistry } from "../core/ElementRegistry";
+import { ElementStyleGroup } from "./ElementStyleGroup";
+import { MaskGroup } from "./MaskGroup";
+
+/**
+ * Group element renderer component
+ */
+export const GroupElementRenderer: React.FC<{
+  element: EditorElement<GroupElementProps>;
+  isSelected: boolean;
+  onSelect: (e?: KonvaEventObject<Event>) => void;
+  onTransform: (updates: Partial<EditorElement>) => void;
+  // Snapping props
+  allElements?: EditorElement[];
+  canvasSize?: { width: number; height: number };
+  onSnapGuides?: (guides: { vertical: SnapGuide[]; horizontal: SnapGuide[] }) => void;
+  onClearSnapGuides?: () => void;
+  // Registry used to render the children
+  registry?: ElementRegistry;
+  // Element ID for centralized transformer
+  elementId?: string;
+  // Forwarded to the children
+  fontsVersion?: number;
+  disableTransformer?: boolean;
+  onNodeUpdate?: () => void;
+  // Mode context (e.g., imageUrls, iconUrls), forwarded to the children
+  [key: string]: unknown;
+}> = ({
+  element,
+  isSelected,
+  onSelect,
+  onTransform,
+  allElements = [],
+  canvasSize,
+  onSnapGuides,
+  onClearSnapGuides,
+  registry,
+  elementId,
+  ...childProps
+}) => {
+  const isVisible = element.visible !== false;
+  const isLocked = element.locked === true;
+
+  if (!isVisible) {
+    return null;
+  }
+
+  const { children = [], contentSize } = element.props;
+  const contentWidth = contentSize?.width || element.size.width || 1;
+  const contentHeight = contentSize?.height || element.size.height || 1;
+
+  const handleClick = (e: KonvaEventObject<MouseEvent, Node<NodeConfig>>) => {
+    if (isLocked) return;
+    e.evt.button !== 0 ? undefined : onSelect(e);
+  };
+
+  const handleDragMove = (e: KonvaEventObject<MouseEvent, Node<NodeConfig>>) => {
+    if (!canvasSize || !onSnapGuides || e.evt.button !== 0) return;
+
+    const node = e.target;
+    const snapResult = getSnappingPosition(element, node.x(), node.y(), allElements, {
+      threshold: 5,
+      snapToElements: true,
+      snapToCanvas: true,
+      canvasSize,
+    });
+
+    // Apply snapped position
+    node.x(snapResult.x);
+    node.y(snapResult.y);
+
+    // Show snap guides
+    onSnapGuides({
+      vertical: snapResult.verticalGuides,
+      horizontal: snapResult.horizontalGuides,
+    });
+  };
+
+  const handleDragEnd = (e: any) => {
+    // Children fire their own drag events only when dragged themselves
+    if (e.target.id() !== (elementId || element.id)) return;
+
+    // Clear snap guides
+    if (onClearSnapGuides) {
+      onClearSnapGuides();
+    }
+
+    onTransform({
+      position: {
+        x: e.target.x(),
+        y: e.target.y(),
+      },
+    });
+  };
+
+  const renderChild = (child: EditorElement) => {
+    const RendererComponent = registry?.get(child.type)?.renderComponent;
+    if (!RendererComponent) return null;
+
+    return (
+      <ElementStyleGroup
+        key={child.id}
+        element={child}
+        renderer={RendererComponent}
+        rendererProps={{
+          ...childProps,
+          element: child,
+          isSelected: false,
+          // Clicks bubble up to the group, which handles selection
+          onSelect: () => undefined,
+          onTransform: () => undefined,
+          // The group's size belongs to the group; children keep their stored size
+          onAutoSize: undefined,
+          // Text editing targets the group's id, so children aren't edited in place
+          onEditText: undefined,
+          isEditingText: false,
+          registry,
+          elementId: child.id,
+        }}
+      />
+    );
+  };
+
+  return (
+    <Group
+      id={elementId || element.id}
+      x={element.position.x}
+      y={element.position.y}
+      width={element.size.width}
+      height={element.size.height}
+      rotation={element.rotation}
+      opacity={element.opacity}
+      draggable={!isLocked && isSelected}
+      listening={!isLocked}
+      onClick={handleClick}
+      onTap={isLocked ? undefined : onSelect}
+      onDragMove={handleDragMove}
+      onDragEnd={handleDragEnd}
+    >
+      <Group
+        scaleX={element.size.width / contentWidth}
+        scaleY={element.size.height / contentHeight}
+      >
+        {/* Transparent hit area so the gaps between children remain clickable */}
+        <Rect width={contentWidth} height={contentHeight} fill="transparent" />
+        {getMaskRuns(children).map(({ element: child, masked }) =>
+          masked.length === 0 ? (
+            renderChild(child)
+          ) : (
+            <MaskGroup key={child.id} maskId={child.id} mask={renderChild(child)}>
+              {masked.map(renderChild)}
+            </MaskGroup>
+          )
+        )}
+      </Group>
+    </Group>
+  );
+};
+
+/**
+ * Group element renderer definition
+ */
+export const groupElementRenderer: ElementRenderer<GroupElementProps> = {
+  type: "group",
+  displayName: "Group",
+  render: (element) => <div>Group: {element.props.children.length} elements</div>, // Placeholder
+  renderComponent: GroupElementRenderer, // Konva rendering component
+  icon: <GroupIcon className="w-4 h-4" />,
+  creatable: false,
+  defaultProps: {
+    children: [],
+    contentSize: { width: 100, height: 100 },
+  },
+  defaultSize: {
+    width: 100,
+    height: 100,
+  },
+  inspectorSchema: [],
+};
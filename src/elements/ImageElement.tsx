@@ -2,6 +2,8 @@
  * Visual Editor - Image Element Renderer
  *
  * Built-in image element renderer using Konva.
+ * Double-click a selected image to crop it on the canvas. Images with nine-slice insets keep
+ * their corners at a fixed size while resizing.
  */
 
 import React from "react";
@@ -10,15 +12,36 @@ import { ElementRenderer, EditorElement, ImageElementProps } from "../types";
 import useImage from "use-image";
 import { Image } from "lucide-react";
 import { getSnappingPosition, SnapGuide } from "../utils/snapping";
+import { clamp } from "../utils/editorUtils";
+import { ImageAtlasMap, getAtlasFrame } from "../utils/atlasUtils";
+import {
+  ImageRect,
+  getImageCropUpdate,
+  getImageFilterConfig,
+  getImageFrame,
+  getImageLayout,
+  getNineSlicePatches,
+  hasImageSlice,
+  resolveImageSrc,
+} from "../utils/imageUtils";
+import Konva from "konva";
 import { KonvaEventObject, Node, NodeConfig } from "konva/lib/Node";
 
+const EDIT_COLOR = "#3b82f6";
+
+/** Opacity of the image outside the crop while cropping */
+const CROP_SHADE_OPACITY = 0.35;
+
+/** Smallest crop rectangle (pixels) the crop handles allow */
+const MIN_CROP_PIXELS = 5;
+
 /**
  * Image element renderer component
  */
 export const ImageElementRenderer: React.FC<{
   element: EditorElement<ImageElementProps>;
   isSelected: boolean;
-  onSelect: () => void;
+  onSelect: (e?: KonvaEventObject<Event>) => void;
   onTransform: (updates: Partial<EditorElement>) => void;
   // Snapping props
   allElements?: EditorElement[];
@@ -27,6 +50,8 @@ export const ImageElementRenderer: React.FC<{
   onClearSnapGuides?: () => void;
   // Image URL mapping for asset resolution
   imageUrls?: Map<string, string>;
+  // Sprite sheets for `atlas#frameName` sources
+  imageAtlases?: ImageAtlasMap;
   // Element ID for centralized transformer
   elementId?: string;
   // Callback to notify when node structure changes (e.g., image loads)
@@ -41,44 +66,121 @@ export const ImageElementRenderer: React.FC<{
   onSnapGuides,
   onClearSnapGuides,
   imageUrls,
+  imageAtlases,
   elementId,
   onNodeUpdate,
 }) => {
-  // Resolve image source - use imageUrls map if available
-  const imageSrc = React.useMemo(() => {
-    const src = element.props.src;
-
-    // If src is already a full URL (http, blob, data), use it directly
-    if (src && (src.startsWith("http") || src.startsWith("blob:") || src.startsWith("data:"))) {
-      return src;
-    }
-
-    // Otherwise, try to resolve from imageUrls map
-    if (src && imageUrls) {
-      const resolvedUrl = imageUrls.get(src);
-      if (resolvedUrl) {
-        return resolvedUrl;
-      }
-    }
+  // Atlas frames are drawn from part of the atlas image; layout works on the frame alone
+  const atlasFrame = React.useMemo(
+    () => getAtlasFrame(element.props.src, imageAtlases),
+    [element.props.src, imageAtlases]
+  );
 
-    // Fallback to original src
-    return src;
-  }, [element.props.src, imageUrls]);
+  // Resolve image source - use imageUrls map if available
+  const imageSrc = React.useMemo(
+    () => resolveImageSrc(atlasFrame ? atlasFrame.image : element.props.src, imageUrls),
+    [atlasFrame, element.props.src, imageUrls]
+  );
 
   const [image] = useImage(imageSrc);
   const shapeRef = React.useRef<any>(null);
+  const contentRef = React.useRef<Konva.Group>(null);
+  const cropRectRef = React.useRef<Konva.Rect>(null);
   const transformerRef = React.useRef<any>(null);
+  const [isCropping, setIsCropping] = React.useState(false);
+  // Crop rectangle being dragged or resized (element-local pixels), shown until committed
+  const [cropDraft, setCropDraft] = React.useState<ImageRect | null>(null);
+  // Box size while resizing a nine-slice image, so its corners keep their size live
+  const [liveSize, setLiveSize] = React.useState<{ width: number; height: number } | null>(null);
+
+  React.useEffect(() => {
+    setLiveSize(null);
+  }, [element.size.width, element.size.height]);
 
   // Don't render if element is hidden
   const isVisible = element.visible !== false;
   const isLocked = element.locked === true;
 
+  const imageSize = React.useMemo(() => {
+    if (!image) return null;
+    if (atlasFrame) return { width: atlasFrame.frame.width, height: atlasFrame.frame.height };
+    return {
+      width: image.naturalWidth || image.width,
+      height: image.naturalHeight || image.height,
+    };
+  }, [image, atlasFrame]);
+  const layout = React.useMemo(
+    () => (imageSize ? getImageLayout(imageSize, element.size, element.props) : null),
+    [imageSize, element.size, element.props]
+  );
+  const frame = React.useMemo(
+    () => (imageSize && layout ? getImageFrame(imageSize, layout) : null),
+    [imageSize, layout]
+  );
+  // Nine-slice images are drawn in patches instead
+  const patches = React.useMemo(
+    () =>
+      imageSize && hasImageSlice(element.props.slice)
+        ? getNineSlicePatches(imageSize, liveSize ?? element.size, element.props)
+        : null,
+    [imageSize, liveSize, element.size, element.props]
+  );
+  const filterConfig = React.useMemo(() => getImageFilterConfig(element.props), [element.props]);
+  const filters = React.useMemo(
+    () => filterConfig.filters.map((name) => Konva.Filters[name]),
+    [filterConfig]
+  );
+  // Map a rectangle of the (frame) image to the loaded image
+  const toSourceRect = (rect: ImageRect): ImageRect =>
+    atlasFrame ? { ...rect, x: rect.x + atlasFrame.frame.x, y: rect.y + atlasFrame.frame.y } : rect;
+  const frameCrop = atlasFrame?.frame;
+
+  const cropRect: ImageRect | null =
+    cropDraft ??
+    (layout ? { x: layout.x, y: layout.y, width: layout.width, height: layout.height } : null);
+
+  // Leave crop mode when the image is deselected, locked or not loaded
   React.useEffect(() => {
-    if (isSelected && transformerRef.current && shapeRef.current) {
-      transformerRef.current.nodes([shapeRef.current]);
-      transformerRef.current.getLayer().batchDraw();
+    if (!isSelected || isLocked || !image) {
+      setIsCropping(false);
+      setCropDraft(null);
     }
-  }, [isSelected]);
+  }, [isSelected, isLocked, image]);
+
+  // The transformer only attaches to draggable nodes, so refresh it when toggling crop mode
+  React.useEffect(() => {
+    onNodeUpdate?.();
+  }, [isCropping, onNodeUpdate]);
+
+  // Leave crop mode with Escape or Enter
+  React.useEffect(() => {
+    if (!isCropping) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape" || e.key === "Enter") setIsCropping(false);
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [isCropping]);
+
+  // Crop handles
+  React.useEffect(() => {
+    if (isCropping && transformerRef.current && cropRectRef.current) {
+      transformerRef.current.nodes([cropRectRef.current]);
+      transformerRef.current.getLayer()?.batchDraw();
+    }
+  }, [isCropping]);
+
+  // Filters run on a cached bitmap of the image, so cache it again whenever the drawing changes
+  React.useEffect(() => {
+    const node = contentRef.current;
+    if (!node) return;
+    if (filters.length > 0) {
+      node.cache();
+    } else {
+      node.clearCache();
+    }
+    node.getLayer()?.batchDraw();
+  }, [filters, layout, patches, isCropping]);
 
   // Trigger a re-render/update when the image loads or changes
   // This helps the CentralizedTransformer re-attach to the updated node
@@ -104,10 +206,21 @@ export const ImageElementRenderer: React.FC<{
 
   const handleClick = (e: KonvaEventObject<MouseEvent, Node<NodeConfig>>) => {
     if (isLocked) return;
-    e.evt.button !== 0 ? undefined : onSelect();
+    e.evt.button !== 0 ? undefined : onSelect(e);
+  };
+
+  const handleDoubleClick = () => {
+    if (isCropping) {
+      setIsCropping(false);
+      return;
+    }
+    if (isLocked || !isSelected || !image) return;
+    setIsCropping(true);
   };
 
   const handleDragMove = (e: KonvaEventObject<MouseEvent, Node<NodeConfig>>) => {
+    // The crop rectangle fires its own drag events
+    if (e.target !== shapeRef.current) return;
     if (!canvasSize || !onSnapGuides || e.evt.button !== 0) return;
 
     const node = e.target;
@@ -130,6 +243,8 @@ export const ImageElementRenderer: React.FC<{
   };
 
   const handleDragEnd = (e: any) => {
+    if (e.target !== shapeRef.current) return;
+
     // Clear snap guides
     if (onClearSnapGuides) {
       onClearSnapGuides();
@@ -143,26 +258,168 @@ export const ImageElementRenderer: React.FC<{
     });
   };
 
+  const handleLiveResize = () => {
+    const node = shapeRef.current;
+    if (!node) return;
+
+    const newWidth = Math.max(5, node.width() * node.scaleX());
+    const newHeight = Math.max(5, node.height() * node.scaleY());
+
+    // Reset scale immediately so the corners don't stretch
+    node.scaleX(1);
+    node.scaleY(1);
+    node.width(newWidth);
+    node.height(newHeight);
+    setLiveSize({ width: newWidth, height: newHeight });
+  };
+
+  // Read the crop rectangle from its node (resizing scales it)
+  const getCropNodeRect = (node: Node): ImageRect => ({
+    x: node.x(),
+    y: node.y(),
+    width: node.width() * node.scaleX(),
+    height: node.height() * node.scaleY(),
+  });
+
+  const commitCrop = (node: Node) => {
+    const rect = getCropNodeRect(node);
+    node.scaleX(1);
+    node.scaleY(1);
+    setCropDraft(null);
+    if (frame) onTransform(getImageCropUpdate(element, frame, rect));
+  };
+
+  const handleCropDragMove = (e: KonvaEventObject<DragEvent>) => {
+    e.cancelBubble = true;
+    if (!frame) return;
+    // Keep the rectangle on the image
+    const node = e.target;
+    const rect = getCropNodeRect(node);
+    node.x(clamp(rect.x, frame.x, frame.x + frame.width - rect.width));
+    node.y(clamp(rect.y, frame.y, frame.y + frame.height - rect.height));
+    setCropDraft(getCropNodeRect(node));
+  };
+
+  const renderCropMode = () =>
+    frame &&
+    cropRect && (
+      <>
+        {/* The whole image, dimmed outside the crop */}
+        <KonvaImage
+          image={image}
+          {...frame}
+          crop={frameCrop}
+          opacity={(element.opacity ?? 1) * CROP_SHADE_OPACITY}
+          listening={false}
+        />
+        <Group
+          clipX={cropRect.x}
+          clipY={cropRect.y}
+          clipWidth={cropRect.width}
+          clipHeight={cropRect.height}
+          listening={false}
+        >
+          <KonvaImage image={image} {...frame} crop={frameCrop} opacity={element.opacity} />
+        </Group>
+        <Rect
+          ref={cropRectRef}
+          {...cropRect}
+          stroke={EDIT_COLOR}
+          strokeWidth={1}
+          strokeScaleEnabled={false}
+          draggable
+          onMouseDown={(e) => (e.cancelBubble = true)}
+          onDragMove={handleCropDragMove}
+          onDragEnd={(e) => {
+            e.cancelBubble = true;
+            commitCrop(e.target);
+          }}
+          onTransform={(e) => {
+            e.cancelBubble = true;
+            setCropDraft(getCropNodeRect(e.target));
+          }}
+          onTransformEnd={(e) => {
+            e.cancelBubble = true;
+            commitCrop(e.target);
+          }}
+        />
+        <Transformer
+          ref={transformerRef}
+          rotateEnabled={false}
+          flipEnabled={false}
+          keepRatio={false}
+          ignoreStroke
+          borderEnabled={false}
+          anchorStroke={EDIT_COLOR}
+          boundBoxFunc={(oldBox, newBox) =>
+            newBox.width < MIN_CROP_PIXELS || newBox.height < MIN_CROP_PIXELS ? oldBox : newBox
+          }
+        />
+      </>
+    );
+
   return (
     <>
-      {image ? (
-        <KonvaImage
+      {image && layout ? (
+        <Group
           ref={shapeRef}
           id={elementId || element.id}
           x={element.position.x}
           y={element.position.y}
           width={element.size.width}
           height={element.size.height}
-          image={image}
-          opacity={element.opacity}
           rotation={element.rotation}
-          draggable={!isLocked && isSelected}
+          draggable={!isLocked && isSelected && !isCropping}
           listening={!isLocked}
           onClick={handleClick}
           onTap={isLocked ? undefined : onSelect}
+          onDblClick={handleDoubleClick}
+          onDblTap={handleDoubleClick}
           onDragMove={handleDragMove}
           onDragEnd={handleDragEnd}
-        />
+          onTransform={patches ? handleLiveResize : undefined}
+        >
+          {/* Hit area: the whole box, also where "contain" leaves it empty */}
+          <Rect
+            width={liveSize?.width ?? element.size.width}
+            height={liveSize?.height ?? element.size.height}
+            fill="transparent"
+          />
+          {isCropping ? (
+            renderCropMode()
+          ) : (
+            <Group
+              ref={contentRef}
+              opacity={element.opacity}
+              filters={filters.length > 0 ? filters : undefined}
+              {...filterConfig.attrs}
+              listening={false}
+            >
+              {patches ? (
+                patches.map((patch, index) => (
+                  <KonvaImage
+                    key={index}
+                    image={image}
+                    crop={toSourceRect(patch.crop)}
+                    x={patch.x}
+                    y={patch.y}
+                    width={patch.width}
+                    height={patch.height}
+                  />
+                ))
+              ) : (
+                <KonvaImage
+                  image={image}
+                  crop={toSourceRect(layout.crop)}
+                  x={layout.x}
+                  y={layout.y}
+                  width={layout.width}
+                  height={layout.height}
+                />
+              )}
+            </Group>
+          )}
+        </Group>
       ) : (
         <Group
           ref={shapeRef}
@@ -234,8 +491,123 @@ export const imageElementRenderer: ElementRenderer<ImageElementProps> = {
       name: "fit",
       type: "select",
       label: "Fit Mode",
-      options: [{ value: "fill", label: "Fill" }],
-      defaultValue: "contain",
+      options: [
+        { value: "fill", label: "Fill" },
+        { value: "contain", label: "Contain" },
+        { value: "cover", label: "Cover" },
+      ],
+      defaultValue: "fill",
+    },
+    {
+      name: "focalX",
+      type: "slider",
+      label: "Focal Point X",
+      description: "Horizontal point Cover keeps in view (0 = left, 1 = right)",
+      min: 0,
+      max: 1,
+      step: 0.01,
+      defaultValue: 0.5,
+    },
+    {
+      name: "focalY",
+      type: "slider",
+      label: "Focal Point Y",
+      description: "Vertical point Cover keeps in view (0 = top, 1 = bottom)",
+      min: 0,
+      max: 1,
+      step: 0.01,
+      defaultValue: 0.5,
+    },
+    {
+      name: "slice",
+      type: "nineSlice",
+      label: "Nine-Slice Insets",
+      description: "Corners keep their size while edges and the center fill the rest (pixels)",
+    },
+    {
+      name: "sliceMode",
+      type: "select",
+      label: "Nine-Slice Edges",
+      options: [
+        { value: "stretch", label: "Stretch" },
+        { value: "tile", label: "Tile" },
+      ],
+      defaultValue: "stretch",
+    },
+    {
+      name: "brightness",
+      type: "slider",
+      label: "Brightness",
+      min: -1,
+      max: 1,
+      step: 0.01,
+      defaultValue: 0,
+    },
+    {
+      name: "contrast",
+      type: "slider",
+      label: "Contrast",
+      min: -100,
+      max: 100,
+      step: 1,
+      defaultValue: 0,
+    },
+    {
+      name: "saturation",
+      type: "slider",
+      label: "Saturation",
+      min: -1,
+      max: 1,
+      step: 0.01,
+      defaultValue: 0,
+    },
+    {
+      name: "hueRotate",
+      type: "slider",
+      label: "Hue Rotate",
+      min: -180,
+      max: 180,
+      step: 1,
+      defaultValue: 0,
+    },
+    {
+      name: "grayscale",
+      type: "slider",
+      label: "Grayscale",
+      min: 0,
+      max: 1,
+      step: 0.01,
+      defaultValue: 0,
+    },
+    {
+      name: "blur",
+      type: "slider",
+      label: "Blur",
+      min: 0,
+      max: 40,
+      step: 1,
+      defaultValue: 0,
+    },
+    {
+      name: "tintColor",
+      type: "color",
+      label: "Tint Color",
+      defaultValue: "#000000",
+    },
+    {
+      name: "tintStrength",
+      type: "slider",
+      label: "Tint Strength",
+      min: 0,
+      max: 1,
+      step: 0.01,
+      defaultValue: 0,
+    },
+    {
+      name: "invert",
+      type: "boolean",
+      label: "Invert",
+      defaultValue: false,
     },
   ],
 };
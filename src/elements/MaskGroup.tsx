@@ -0,0 +1,73 @@
+/**
+ * Visual Editor - Mask Group
+ *
+ * Draws a clipping mask and the elements clipped to it. The group is cached so its children
+ * are composited on their own: the clipped elements are drawn `source-atop`, only where the
+ * mask has been drawn, which follows the exact outline of any element used as the mask.
+ */
+
+import React from "react";
+import { Group } from "react-konva";
+import Konva from "konva";
+import { KonvaEventObject } from "konva/lib/Node";
+import { useGroupCache } from "./useGroupCache";
+
+/**
+ * Clipping mask group
+ */
+export const MaskGroup: React.FC<{
+  // ID of the mask element node
+  maskId: string;
+  // The rendered mask element
+  mask: React.ReactNode;
+  // The rendered clipped elements
+  children: React.ReactNode;
+  // Called when the mask was dragged with Alt, which moves the clipped elements along
+  onMoveMasked?: (delta: { x: number; y: number }) => void;
+}> = ({ maskId, mask, children, onMoveMasked }) => {
+  const groupRef = React.useRef<Konva.Group>(null);
+  const maskedRef = React.useRef<Konva.Group>(null);
+  const dragStart = React.useRef<{ x: number; y: number } | null>(null);
+
+  useGroupCache(groupRef, true);
+
+  const getDragDelta = (node: Konva.Node, start: { x: number; y: number }) => ({
+    x: node.x() - start.x,
+    y: node.y() - start.y,
+  });
+
+  const handleDragStart = (e: KonvaEventObject<DragEvent>) => {
+    if (!onMoveMasked || e.target.id() !== maskId || !e.evt.altKey) return;
+    dragStart.current = e.target.position();
+  };
+
+  // The clipped elements follow the mask live; their positions are committed on drop
+  const handleDragMove = (e: KonvaEventObject<DragEvent>) => {
+    if (!dragStart.current || e.target.id() !== maskId) return;
+    maskedRef.current?.position(getDragDelta(e.target, dragStart.current));
+  };
+
+  const handleDragEnd = (e: KonvaEventObject<DragEvent>) => {
+    if (!dragStart.current || e.target.id() !== maskId) return;
+    const delta = getDragDelta(e.target, dragStart.current);
+    dragStart.current = null;
+    maskedRef.current?.position({ x: 0, y: 0 });
+    onMoveMasked?.(delta);
+  };
+
+  return (
+    <Group
+      ref={groupRef}
+      onDragStart={handleDragStart}
+      onDragMove={handleDragMove}
+      onDragEnd={handleDragEnd}
+    >
+      {mask}
+      <Group ref={maskedRef} globalCompositeOperation="source-atop">
+        {children}
+      </Group>
+    </Group>
+  );
+};
+
+export default MaskGroup;
@@ -0,0 +1,388 @@
+/**
+ * Visual Editor - Path Element Renderer
+ *
+ * Built-in vector path element renderer using Konva.
+ * Double-click a selected path to edit its anchors and bezier handles on the canvas.
+ */
+
+import React from "react";
+import { Group, Path, Circle, Line } from "react-konva";
+import { ElementRenderer, EditorElement, PathContour, PathElementProps } from "../types";
+import { PenTool } from "lucide-react";
+import { getSnappingPosition, SnapGuide } from "../utils/snapping";
+import {
+  PATH_ELEMENT_TYPE,
+  getNearestSegmentPoint,
+  getPathContoursUpdate,
+  insertAnchor,
+  moveAnchor,
+  moveHandle,
+  parsePathData,
+  removeAnchor,
+  serializePathData,
+  toggleAnchorSmooth,
+} from "../utils/pathUtils";
+import { getKonvaFill } from "../utils/fillUtils";
+import { KonvaEventObject, Node, NodeConfig } from "konva/lib/Node";
+
+/** Radius of the anchor and handle markers shown while editing */
+const MARKER_RADIUS = 5;
+
+/** Maximum distance (pixels) from the path at which a click inserts an anchor */
+const INSERT_DISTANCE = 8;
+
+const EDIT_COLOR = "#3b82f6";
+
+/**
+ * Path element renderer component
+ */
+export const PathElementRenderer: React.FC<{
+  element: EditorElement<PathElementProps>;
+  isSelected: boolean;
+  onSelect: (e?: KonvaEventObject<Event>) => void;
+  onTransform: (updates: Partial<EditorElement>) => void;
+  // Snapping props
+  allElements?: EditorElement[];
+  canvasSize?: { width: number; height: number };
+  onSnapGuides?: (guides: { vertical: SnapGuide[]; horizontal: SnapGuide[] }) => void;
+  onClearSnapGuides?: () => void;
+  // Element ID for centralized transformer
+  elementId?: string;
+  // Callback to notify when node structure changes (re-attaches the transformer)
+  onNodeUpdate?: () => void;
+}> = ({
+  element,
+  isSelected,
+  onSelect,
+  onTransform,
+  allElements = [],
+  canvasSize,
+  onSnapGuides,
+  onClearSnapGuides,
+  elementId,
+  onNodeUpdate,
+}) => {
+  const groupRef = React.useRef<any>(null);
+  const [isEditing, setIsEditing] = React.useState(false);
+  // Contours being dragged, shown until the edit is committed
+  const [draft, setDraft] = React.useState<PathContour[] | null>(null);
+
+  const isVisible = element.visible !== false;
+  const isLocked = element.locked === true;
+  const { d, closed, pathSize } = element.props;
+
+  const savedContours = React.useMemo(() => parsePathData(d || ""), [d]);
+  const contours = React.useMemo(
+    () => (draft ?? savedContours).map((contour) => ({ ...contour, closed })),
+    [draft, savedContours, closed]
+  );
+  const pathData = React.useMemo(() => serializePathData(contours), [contours]);
+
+  const scaleX = element.size.width / (pathSize?.width || 1);
+  const scaleY = element.size.height / (pathSize?.height || 1);
+
+  // Leave edit mode when the path is deselected or locked
+  React.useEffect(() => {
+    if (!isSelected || isLocked) setIsEditing(false);
+  }, [isSelected, isLocked]);
+
+  // The transformer only attaches to draggable nodes, so refresh it when toggling edit mode
+  React.useEffect(() => {
+    onNodeUpdate?.();
+  }, [isEditing, onNodeUpdate]);
+
+  // Leave edit mode with Escape or Enter
+  React.useEffect(() => {
+    if (!isEditing) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape" || e.key === "Enter") setIsEditing(false);
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [isEditing]);
+
+  // Don't render if not visible
+  if (!isVisible) {
+    return null;
+  }
+
+  const commitContours = (next: PathContour[]) => {
+    setDraft(null);
+    onTransform(getPathContoursUpdate(element, next));
+  };
+
+  const updateContour = (contourIndex: number, contour: PathContour) =>
+    contours.map((c, index) => (index === contourIndex ? contour : c));
+
+  // Convert a marker position (element-local pixels) to path coordinates
+  const toPathPoint = (node: Node) => ({ x: node.x() / scaleX, y: node.y() / scaleY });
+
+  const handleClick = (e: KonvaEventObject<MouseEvent, Node<NodeConfig>>) => {
+    if (isLocked || e.evt.button !== 0) return;
+
+    if (isEditing) {
+      // Clicking the outline inserts an anchor
+      const local = groupRef.current?.getRelativePointerPosition();
+      if (!local) return;
+      const point = { x: local.x / scaleX, y: local.y / scaleY };
+      const scale = Math.min(scaleX, scaleY) || 1;
+
+      let bestIndex = -1;
+      let best: ReturnType<typeof getNearestSegmentPoint> = null;
+      for (let index = 0; index < contours.length; index++) {
+        const nearest = getNearestSegmentPoint(contours[index], point);
+        if (nearest && (!best || nearest.distance < best.distance)) {
+          best = nearest;
+          bestIndex = index;
+        }
+      }
+      if (!best || best.distance * scale > INSERT_DISTANCE) return;
+
+      commitContours(
+        updateContour(bestIndex, insertAnchor(contours[bestIndex], best.segmentIndex, best.t))
+      );
+      return;
+    }
+
+    onSelect(e);
+  };
+
+  const handleDoubleClick = () => {
+    if (isLocked || !isSelected) return;
+    setIsEditing(true);
+  };
+
+  const handleDragMove = (e: KonvaEventObject<MouseEvent, Node<NodeConfig>>) => {
+    // Only allow left-click (button 0) dragging of the path itself
+    if (e.target !== groupRef.current) return;
+    if (!canvasSize || !onSnapGuides || !isSelected || e.evt.button !== 0) return;
+
+    const node = e.target;
+    const snapResult = getSnappingPosition(element, node.x(), node.y(), allElements, {
+      threshold: 5,
+      snapToElements: true,
+      snapToCanvas: true,
+      canvasSize,
+    });
+
+    // Apply snapped position
+    node.x(snapResult.x);
+    node.y(snapResult.y);
+
+    // Show snap guides
+    onSnapGuides({
+      vertical: snapResult.verticalGuides,
+      horizontal: snapResult.horizontalGuides,
+    });
+  };
+
+  const handleDragEnd = (e: any) => {
+    // Anchor and handle markers fire their own drag events
+    if (e.target !== groupRef.current) return;
+
+    // Clear snap guides
+    if (onClearSnapGuides) {
+      onClearSnapGuides();
+    }
+
+    onTransform({
+      position: {
+        x: e.target.x(),
+        y: e.target.y(),
+      },
+    });
+  };
+
+  const renderEditMarkers = () =>
+    contours.map((contour, contourIndex) =>
+      contour.anchors.map((anchor, anchorIndex) => {
+        const key = `${contourIndex}-${anchorIndex}`;
+        const anchorX = anchor.x * scaleX;
+        const anchorY = anchor.y * scaleY;
+
+        const renderHandle = (handle: "handleIn" | "handleOut") => {
+          const point = anchor[handle];
+          if (!point) return null;
+          return (
+            <React.Fragment key={`${key}-${handle}`}>
+              <Line
+                points={[anchorX, anchorY, point.x * scaleX, point.y * scaleY]}
+                stroke={EDIT_COLOR}
+                strokeWidth={1}
+                listening={false}
+              />
+              <Circle
+                x={point.x * scaleX}
+                y={point.y * scaleY}
+                radius={MARKER_RADIUS - 1}
+                fill={EDIT_COLOR}
+                draggable
+                onMouseDown={(e) => (e.cancelBubble = true)}
+                onDragMove={(e) => {
+                  e.cancelBubble = true;
+                  // Alt breaks the symmetry between the two handles
+                  const mirror = !e.evt.altKey;
+                  setDraft(
+                    updateContour(
+                      contourIndex,
+                      moveHandle(contour, anchorIndex, handle, toPathPoint(e.target), mirror)
+                    )
+                  );
+                }}
+                onDragEnd={(e) => {
+                  e.cancelBubble = true;
+                  commitContours(contours);
+                }}
+              />
+            </React.Fragment>
+          );
+        };
+
+        return (
+          <React.Fragment key={key}>
+            {renderHandle("handleIn")}
+            {renderHandle("handleOut")}
+            <Circle
+              x={anchorX}
+              y={anchorY}
+              radius={MARKER_RADIUS}
+              fill="#ffffff"
+              stroke={EDIT_COLOR}
+              strokeWidth={2}
+              draggable
+              onMouseDown={(e) => (e.cancelBubble = true)}
+              onClick={(e) => {
+                e.cancelBubble = true;
+                // Alt+click deletes the anchor (a contour keeps at least two)
+                if (e.evt.altKey && contour.anchors.length > 2) {
+                  commitContours(updateContour(contourIndex, removeAnchor(contour, anchorIndex)));
+                }
+              }}
+              onDblClick={(e) => {
+                e.cancelBubble = true;
+                // Double-click switches between a corner and a smooth anchor
+                commitContours(
+                  updateContour(contourIndex, toggleAnchorSmooth(contour, anchorIndex))
+                );
+              }}
+              onDragMove={(e) => {
+                e.cancelBubble = true;
+                const position = toPathPoint(e.target);
+                setDraft(updateContour(contourIndex, moveAnchor(contour, anchorIndex, position)));
+              }}
+              onDragEnd={(e) => {
+                e.cancelBubble = true;
+                commitContours(contours);
+              }}
+            />
+          </React.Fragment>
+        );
+      })
+    );
+
+  return (
+    <Group
+      ref={groupRef}
+      id={elementId || element.id}
+      x={element.position.x}
+      y={element.position.y}
+      width={element.size.width}
+      height={element.size.height}
+      rotation={element.rotation}
+      opacity={element.opacity}
+      draggable={!isLocked && isSelected && !isEditing}
+      listening={!isLocked}
+      onClick={handleClick}
+      onTap={isLocked ? undefined : onSelect}
+      onDblClick={handleDoubleClick}
+      onDragMove={handleDragMove}
+      onDragEnd={handleDragEnd}
+    >
+      <Path
+        data={pathData}
+        scaleX={scaleX}
+        scaleY={scaleY}
+        // Open paths are outlines only; gradients span the path box, which is scaled up
+        {...getKonvaFill(closed ? element.props.fill : undefined, {
+          width: pathSize?.width || 1,
+          height: pathSize?.height || 1,
+        })}
+        fillRule={element.props.fillRule || "nonzero"}
+        stroke={element.props.stroke}
+        strokeWidth={element.props.strokeWidth ?? 0}
+        strokeEnabled={(element.props.strokeWidth ?? 0) > 0}
+        strokeScaleEnabled={false}
+        // Keep thin and open outlines easy to click
+        hitStrokeWidth={Math.max(element.props.strokeWidth ?? 0, 10)}
+      />
+      {isEditing && renderEditMarkers()}
+    </Group>
+  );
+};
+
+/**
+ * Path element renderer definition.
+ * Paths are drawn with the pen tool rather than created with a toolbar button.
+ */
+export const pathElementRenderer: ElementRenderer<PathElementProps> = {
+  type: PATH_ELEMENT_TYPE,
+  displayName: "Path",
+  render: (element) => <div>Path: {element.props.d}</div>, // Placeholder for non-Konva contexts
+  renderComponent: PathElementRenderer, // Konva rendering component
+  icon: <PenTool className="w-4 h-4" />,
+  creatable: false,
+  defaultProps: {
+    d: "",
+    pathSize: { width: 100, height: 100 },
+    closed: false,
+    fill: "#4f46e5",
+    stroke: "#000000",
+    strokeWidth: 2,
+    fillRule: "nonzero",
+  },
+  defaultSize: {
+    width: 100,
+    height: 100,
+  },
+  inspectorSchema: [
+    {
+      name: "closed",
+      type: "boolean",
+      label: "Closed",
+      description: "Connect the last anchor back to the first",
+      defaultValue: false,
+    },
+    {
+      name: "fill",
+      type: "gradient",
+      label: "Fill",
+      description: "Only closed paths are filled",
+      defaultValue: "#4f46e5",
+    },
+    {
+      name: "fillRule",
+      type: "select",
+      label: "Fill Rule",
+      options: [
+        { value: "nonzero", label: "Non-zero" },
+        { value: "evenodd", label: "Even-odd" },
+      ],
+      defaultValue: "nonzero",
+    },
+    {
+      name: "stroke",
+      type: "color",
+      label: "Stroke Color",
+      defaultValue: "#000000",
+    },
+    {
+      name: "strokeWidth",
+      type: "number",
+      label: "Stroke Width",
+      min: 0,
+      max: 100,
+      step: 1,
+      defaultValue: 2,
+    },
+  ],
+};
@@ -0,0 +1,286 @@
+/**
+ * Visual Editor - Rich Text Element Renderer
+ *
+ * Built-in rich text element renderer using Konva. Styled runs are laid out with
+ * wrapping and alignment, and each styled fragment is drawn as its own text node.
+ * Icon tokens like `{mana:red}` are drawn inline when `context.iconUrls` has the icon.
+ */
+
+import React from "react";
+import { Group, Rect } from "react-konva";
+import { ElementRenderer, EditorElement, RichTextElementProps } from "../types";
+import { LetterText } from "lucide-react";
+import { getSnappingPosition, SnapGuide } from "../utils/snapping";
+import { RICH_TEXT_ELEMENT_TYPE, getRunsText, layoutRichText } from "../utils/richTextUtils";
+import { IconUrlMap, hasIcon } from "../utils/iconUtils";
+import { TextFragments } from "./TextFragments";
+import { KonvaEventObject, Node, NodeConfig } from "konva/lib/Node";
+
+/**
+ * Rich text element renderer component
+ */
+export const RichTextElementRenderer: React.FC<{
+  element: EditorElement<RichTextElementProps>;
+  isSelected: boolean;
+  onSelect: (e?: KonvaEventObject<Event>) => void;
+  onTransform: (updates: Partial<EditorElement>) => void;
+  // Snapping props
+  allElements?: EditorElement[];
+  canvasSize?: { width: number; height: number };
+  onSnapGuides?: (guides: { vertical: SnapGuide[]; horizontal: SnapGuide[] }) => void;
+  onClearSnapGuides?: () => void;
+  // Icon map for inline icon tokens (from mode context)
+  iconUrls?: IconUrlMap;
+  // Image URL mapping for asset resolution
+  imageUrls?: Map<string, string>;
+  // Element ID for centralized transformer
+  elementId?: string;
+  // Changes when fonts finish loading; text is measured again
+  fontsVersion?: number;
+}> = ({
+  element,
+  isSelected,
+  onSelect,
+  onTransform,
+  allElements = [],
+  canvasSize,
+  onSnapGuides,
+  onClearSnapGuides,
+  iconUrls,
+  imageUrls,
+  elementId,
+  fontsVersion,
+}) => {
+  const groupRef = React.useRef<any>(null);
+  // Box size while a resize is in progress, so the text re-wraps live instead of stretching
+  const [liveSize, setLiveSize] = React.useState<{ width: number; height: number } | null>(null);
+
+  React.useEffect(() => {
+    setLiveSize(null);
+  }, [element.size.width, element.size.height]);
+
+  const { width, height } = liveSize ?? element.size;
+  const { runs, fontSize, fontFamily, color, align, verticalAlign, lineHeight } = element.props;
+
+  const layout = React.useMemo(
+    () =>
+      layoutRichText(runs || [], {
+        width,
+        height,
+        fontSize,
+        fontFamily,
+        color,
+        align,
+        verticalAlign,
+        lineHeight,
+        hasIcon: iconUrls ? (name) => hasIcon(iconUrls, name) : undefined,
+      }),
+    // fontsVersion is a dependency so text is measured again once fonts load
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [
+      runs,
+      width,
+      height,
+      fontSize,
+      fontFamily,
+      color,
+      align,
+      verticalAlign,
+      lineHeight,
+      iconUrls,
+      fontsVersion,
+    ]
+  );
+
+  // Don't render if element is hidden
+  const isVisible = element.visible !== false;
+  const isLocked = element.locked === true;
+
+  // Don't render if not visible
+  if (!isVisible) {
+    return null;
+  }
+
+  const handleClick = (e: KonvaEventObject<MouseEvent, Node<NodeConfig>>) => {
+    if (isLocked) return;
+    e.evt.button !== 0 ? undefined : onSelect(e);
+  };
+
+  const handleDragMove = (e: KonvaEventObject<MouseEvent, Node<NodeConfig>>) => {
+    // Only allow left-click (button 0) dragging
+    if (!canvasSize || !onSnapGuides || !isSelected || e.evt.button !== 0) return;
+
+    const node = e.target;
+    const snapResult = getSnappingPosition(element, node.x(), node.y(), allElements, {
+      threshold: 5,
+      snapToElements: true,
+      snapToCanvas: true,
+      canvasSize,
+    });
+
+    // Apply snapped position
+    node.x(snapResult.x);
+    node.y(snapResult.y);
+
+    // Show snap guides
+    onSnapGuides({
+      vertical: snapResult.verticalGuides,
+      horizontal: snapResult.horizontalGuides,
+    });
+  };
+
+  const handleDragEnd = (e: any) => {
+    // Clear snap guides
+    if (onClearSnapGuides) {
+      onClearSnapGuides();
+    }
+
+    onTransform({
+      position: {
+        x: e.target.x(),
+        y: e.target.y(),
+      },
+    });
+  };
+
+  const handleTransform = () => {
+    const node = groupRef.current;
+    if (!node) return;
+
+    // Resize the box instead of scaling, keeping font sizes constant
+    const newWidth = Math.max(20, node.width() * node.scaleX());
+    const newHeight = Math.max(20, node.height() * node.scaleY());
+
+    // Reset scale immediately to prevent stretching
+    node.scaleX(1);
+    node.scaleY(1);
+
+    // Update dimensions
+    node.width(newWidth);
+    node.height(newHeight);
+    setLiveSize({ width: newWidth, height: newHeight });
+  };
+
+  return (
+    <Group
+      ref={groupRef}
+      id={elementId || element.id}
+      x={element.position.x}
+      y={element.position.y}
+      width={width}
+      height={height}
+      rotation={element.rotation}
+      opacity={element.opacity}
+      draggable={!isLocked && isSelected}
+      listening={!isLocked}
+      onClick={handleClick}
+      onTap={isLocked ? undefined : onSelect}
+      onDragMove={handleDragMove}
+      onDragEnd={handleDragEnd}
+      onTransform={handleTransform}
+    >
+      {/* Hit area - makes the whole box clickable, including gaps between words */}
+      <Rect width={width} height={height} fill="transparent" />
+
+      <TextFragments
+        layout={layout}
+        lineHeight={lineHeight ?? 1.2}
+        iconUrls={iconUrls}
+        imageUrls={imageUrls}
+        box={{ width, height }}
+      />
+    </Group>
+  );
+};
+
+/**
+ * Rich text element renderer definition
+ */
+export const richTextElementRenderer: ElementRenderer<RichTextElementProps> = {
+  type: RICH_TEXT_ELEMENT_TYPE,
+  displayName: "Rich Text",
+  render: (element) => <div>Rich Text: {getRunsText(element.props.runs || [])}</div>, // Placeholder
+  renderComponent: RichTextElementRenderer, // Konva rendering component
+  icon: <LetterText className="w-4 h-4" />,
+  defaultProps: {
+    runs: [{ text: "Rich", bold: true }, { text: " text" }],
+    fontSize: 16,
+    fontFamily: "Arial",
+    color: "#000000",
+    align: "left",
+    verticalAlign: "top",
+    lineHeight: 1.2,
+  },
+  defaultSize: {
+    width: 200,
+    height: 60,
+  },
+  inspectorSchema: [
+    {
+      name: "runs",
+      type: "richText",
+      label: "Text Content",
+      description: "Select text, then apply a style to the selection",
+    },
+    {
+      name: "fontSize",
+      type: "number",
+      label: "Font Size",
+      min: 1,
+      max: 1024,
+      step: 1,
+      defaultValue: 16,
+    },
+    {
+      name: "fontFamily",
+      type: "font",
+      label: "Font Family",
+      options: [
+        { value: "Arial", label: "Arial" },
+        { value: "Times New Roman", label: "Times New Roman" },
+        { value: "Courier New", label: "Courier New" },
+        { value: "Georgia", label: "Georgia" },
+        { value: "Verdana", label: "Verdana" },
+        { value: "Outfit", label: "Outfit" },
+      ],
+      defaultValue: "Arial",
+    },
+    {
+      name: "color",
+      type: "gradient",
+      label: "Text Color",
+      defaultValue: "#000000",
+    },
+    {
+      name: "lineHeight",
+      type: "slider",
+      label: "Line Height",
+      min: 0.8,
+      max: 3,
+      step: 0.05,
+      defaultValue: 1.2,
+    },
+    {
+      name: "align",
+      type: "select",
+      label: "Horizontal Alignment",
+      options: [
+        { value: "left", label: "Left" },
+        { value: "center", label: "Center" },
+        { value: "right", label: "Right" },
+      ],
+      defaultValue: "left",
+    },
+    {
+      name: "verticalAlign",
+      type: "select",
+      label: "Vertical Alignment",
+      options: [
+        { value: "top", label: "Top" },
+        { value: "middle", label: "Middle" },
+        { value: "bottom", label: "Bottom" },
+      ],
+      defaultValue: "top",
+    },
+  ],
+};
@@ -0,0 +1,448 @@
+/**
+ * Visual Editor - Shape Element Renderers
+ *
+ * Built-in shape element renderers using Konva: rectangle, ellipse, line, polygon and star.
+ * Every shape is drawn inside a Konva group positioned at the element's top-left corner,
+ * so shapes fill their element box and transform like any other element.
+ */
+
+import React from "react";
+import { Group, Rect, Ellipse, Line } from "react-konva";
+import {
+  ElementRenderer,
+  EditorElement,
+  InspectorFieldSchema,
+  ShapeElementProps,
+} from "../types";
+import { Square, Circle, Minus, Pentagon, Star } from "lucide-react";
+import { getSnappingPosition, SnapGuide } from "../utils/snapping";
+import { getDashArray, getPolygonPoints, getStarPoints } from "../utils/shapeUtils";
+import { getKonvaFill } from "../utils/fillUtils";
+import { hasElementShadow } from "../utils/styleUtils";
+import { KonvaEventObject, Node, NodeConfig } from "konva/lib/Node";
+
+/**
+ * Shape element renderer component (draws the shape matching `element.type`)
+ */
+export const ShapeElementRenderer: React.FC<{
+  element: EditorElement<ShapeElementProps>;
+  isSelected: boolean;
+  onSelect: (e?: KonvaEventObject<Event>) => void;
+  onTransform: (updates: Partial<EditorElement>) => void;
+  // Snapping props
+  allElements?: EditorElement[];
+  canvasSize?: { width: number; height: number };
+  onSnapGuides?: (guides: { vertical: SnapGuide[]; horizontal: SnapGuide[] }) => void;
+  onClearSnapGuides?: () => void;
+  // Element ID for centralized transformer
+  elementId?: string;
+}> = ({
+  element,
+  isSelected,
+  onSelect,
+  onTransform,
+  allElements = [],
+  canvasSize,
+  onSnapGuides,
+  onClearSnapGuides,
+  elementId,
+}) => {
+  // Don't render if element is hidden
+  const isVisible = element.visible !== false;
+  const isLocked = element.locked === true;
+
+  // Don't render if not visible
+  if (!isVisible) {
+    return null;
+  }
+
+  const handleClick = (e: KonvaEventObject<MouseEvent, Node<NodeConfig>>) => {
+    if (isLocked) return;
+    e.evt.button !== 0 ? undefined : onSelect(e);
+  };
+
+  const handleDragMove = (e: KonvaEventObject<MouseEvent, Node<NodeConfig>>) => {
+    // Only allow left-click (button 0) dragging
+    if (!canvasSize || !onSnapGuides || !isSelected || e.evt.button !== 0) return;
+
+    const node = e.target;
+    const snapResult = getSnappingPosition(element, node.x(), node.y(), allElements, {
+      threshold: 5,
+      snapToElements: true,
+      snapToCanvas: true,
+      canvasSize,
+    });
+
+    // Apply snapped position
+    node.x(snapResult.x);
+    node.y(snapResult.y);
+
+    // Show snap guides
+    onSnapGuides({
+      vertical: snapResult.verticalGuides,
+      horizontal: snapResult.horizontalGuides,
+    });
+  };
+
+  const handleDragEnd = (e: any) => {
+    // Clear snap guides
+    if (onClearSnapGuides) {
+      onClearSnapGuides();
+    }
+
+    onTransform({
+      position: {
+        x: e.target.x(),
+        y: e.target.y(),
+      },
+    });
+  };
+
+  const { width, height } = element.size;
+  const props = element.props;
+  const strokeWidth = props.strokeWidth ?? 0;
+
+  // Styling shared by every shape
+  const shapeStyle = {
+    ...getKonvaFill(props.fill, element.size),
+    stroke: props.stroke,
+    strokeWidth,
+    strokeEnabled: strokeWidth > 0,
+    dash: getDashArray(props.dash, strokeWidth),
+    shadowColor: props.shadowColor,
+    shadowBlur: props.shadowBlur ?? 0,
+    shadowOffsetX: props.shadowOffsetX ?? 0,
+    shadowOffsetY: props.shadowOffsetY ?? 0,
+    shadowOpacity: props.shadowOpacity ?? 1,
+    // A shadow in the common style takes precedence over the shape's own shadow
+    shadowEnabled:
+      !hasElementShadow(element.style) &&
+      !!props.shadowColor &&
+      ((props.shadowBlur ?? 0) > 0 || !!props.shadowOffsetX || !!props.shadowOffsetY),
+  };
+
+  const renderShape = () => {
+    switch (element.type) {
+      case "ellipse":
+        return (
+          <Ellipse
+            {...shapeStyle}
+            // Ellipses are drawn around their center
+            {...getKonvaFill(props.fill, element.size, { x: width / 2, y: height / 2 })}
+            x={width / 2}
+            y={height / 2}
+            radiusX={width / 2}
+            radiusY={height / 2}
+          />
+        );
+      case "line":
+        return (
+          <Line
+            {...shapeStyle}
+            fill={undefined}
+            points={[0, height / 2, width, height / 2]}
+            lineCap={props.dash === "dotted" ? "round" : "butt"}
+            // Keep thin lines easy to click
+            hitStrokeWidth={Math.max(strokeWidth, 10)}
+          />
+        );
+      case "polygon":
+        return (
+          <Line {...shapeStyle} points={getPolygonPoints(props.sides ?? 6, width, height)} closed />
+        );
+      case "star":
+        return (
+          <Line
+            {...shapeStyle}
+            points={getStarPoints(props.points ?? 5, props.innerRadius ?? 0.5, width, height)}
+            closed
+          />
+        );
+      default:
+        return (
+          <Rect
+            {...shapeStyle}
+            width={width}
+            height={height}
+            cornerRadius={Math.min(props.cornerRadius ?? 0, width / 2, height / 2)}
+          />
+        );
+    }
+  };
+
+  return (
+    <Group
+      id={elementId || element.id}
+      x={element.position.x}
+      y={element.position.y}
+      width={width}
+      height={height}
+      rotation={element.rotation}
+      opacity={element.opacity}
+      draggable={!isLocked && isSelected}
+      listening={!isLocked}
+      onClick={handleClick}
+      onTap={isLocked ? undefined : onSelect}
+      onDragMove={handleDragMove}
+      onDragEnd={handleDragEnd}
+    >
+      {renderShape()}
+    </Group>
+  );
+};
+
+// ============================================================================
+// Inspector Schemas
+// ============================================================================
+
+const fillField: InspectorFieldSchema = {
+  name: "fill",
+  type: "gradient",
+  label: "Fill",
+  defaultValue: "#4f46e5",
+};
+
+const strokeFields: InspectorFieldSchema[] = [
+  {
+    name: "stroke",
+    type: "color",
+    label: "Stroke Color",
+    defaultValue: "#000000",
+  },
+  {
+    name: "strokeWidth",
+    type: "number",
+    label: "Stroke Width",
+    min: 0,
+    max: 100,
+    step: 1,
+    defaultValue: 0,
+  },
+  {
+    name: "dash",
+    type: "select",
+    label: "Stroke Style",
+    options: [
+      { value: "solid", label: "Solid" },
+      { value: "dashed", label: "Dashed" },
+      { value: "dotted", label: "Dotted" },
+      { value: "dashDot", label: "Dash Dot" },
+    ],
+    defaultValue: "solid",
+  },
+];
+
+const shadowFields: InspectorFieldSchema[] = [
+  {
+    name: "shadowColor",
+    type: "color",
+    label: "Shadow Color",
+    defaultValue: "#000000",
+  },
+  {
+    name: "shadowBlur",
+    type: "number",
+    label: "Shadow Blur",
+    min: 0,
+    max: 100,
+    step: 1,
+    defaultValue: 0,
+  },
+  {
+    name: "shadowOffsetX",
+    type: "number",
+    label: "Shadow Offset X",
+    min: -100,
+    max: 100,
+    step: 1,
+    defaultValue: 0,
+  },
+  {
+    name: "shadowOffsetY",
+    type: "number",
+    label: "Shadow Offset Y",
+    min: -100,
+    max: 100,
+    step: 1,
+    defaultValue: 0,
+  },
+  {
+    name: "shadowOpacity",
+    type: "slider",
+    label: "Shadow Opacity",
+    min: 0,
+    max: 1,
+    step: 0.05,
+    defaultValue: 0.5,
+  },
+];
+
+const defaultShapeProps: ShapeElementProps = {
+  fill: "#4f46e5",
+  stroke: "#000000",
+  strokeWidth: 0,
+  dash: "solid",
+  shadowColor: "#000000",
+  shadowBlur: 0,
+  shadowOffsetX: 0,
+  shadowOffsetY: 0,
+  shadowOpacity: 0.5,
+};
+
+// ============================================================================
+// Renderer Definitions
+// ============================================================================
+
+/**
+ * Rectangle element renderer definition
+ */
+export const rectangleElementRenderer: ElementRenderer<ShapeElementProps> = {
+  type: "rectangle",
+  displayName: "Rectangle",
+  render: () => <div>Rectangle</div>, // Placeholder for non-Konva contexts
+  renderComponent: ShapeElementRenderer, // Konva rendering component
+  icon: <Square className="w-4 h-4" />,
+  defaultProps: {
+    ...defaultShapeProps,
+    cornerRadius: 0,
+  },
+  defaultSize: {
+    width: 200,
+    height: 120,
+  },
+  inspectorSchema: [
+    fillField,
+    ...strokeFields,
+    {
+      name: "cornerRadius",
+      type: "number",
+      label: "Corner Radius",
+      min: 0,
+      max: 500,
+      step: 1,
+      defaultValue: 0,
+    },
+    ...shadowFields,
+  ],
+};
+
+/**
+ * Ellipse element renderer definition
+ */
+export const ellipseElementRenderer: ElementRenderer<ShapeElementProps> = {
+  type: "ellipse",
+  displayName: "Ellipse",
+  render: () => <div>Ellipse</div>, // Placeholder for non-Konva contexts
+  renderComponent: ShapeElementRenderer, // Konva rendering component
+  icon: <Circle className="w-4 h-4" />,
+  defaultProps: defaultShapeProps,
+  defaultSize: {
+    width: 150,
+    height: 150,
+  },
+  inspectorSchema: [fillField, ...strokeFields, ...shadowFields],
+};
+
+/**
+ * Line element renderer definition (a horizontal line through the middle of the box,
+ * rotate the element for other angles)
+ */
+export const lineElementRenderer: ElementRenderer<ShapeElementProps> = {
+  type: "line",
+  displayName: "Line",
+  render: () => <div>Line</div>, // Placeholder for non-Konva contexts
+  renderComponent: ShapeElementRenderer, // Konva rendering component
+  icon: <Minus className="w-4 h-4" />,
+  defaultProps: {
+    ...defaultShapeProps,
+    fill: undefined,
+    strokeWidth: 4,
+  },
+  defaultSize: {
+    width: 200,
+    height: 20,
+  },
+  inspectorSchema: [
+    ...strokeFields.map((field) =>
+      field.name === "strokeWidth" ? { ...field, min: 1, defaultValue: 4 } : field
+    ),
+    ...shadowFields,
+  ],
+};
+
+/**
+ * Regular polygon element renderer definition
+ */
+export const polygonElementRenderer: ElementRenderer<ShapeElementProps> = {
+  type: "polygon",
+  displayName: "Polygon",
+  render: (element) => <div>Polygon: {element.props.sides} sides</div>, // Placeholder
+  renderComponent: ShapeElementRenderer, // Konva rendering component
+  icon: <Pentagon className="w-4 h-4" />,
+  defaultProps: {
+    ...defaultShapeProps,
+    sides: 6,
+  },
+  defaultSize: {
+    width: 150,
+    height: 150,
+  },
+  inspectorSchema: [
+    {
+      name: "sides",
+      type: "number",
+      label: "Sides",
+      min: 3,
+      max: 24,
+      step: 1,
+      defaultValue: 6,
+    },
+    fillField,
+    ...strokeFields,
+    ...shadowFields,
+  ],
+};
+
+/**
+ * Star element renderer definition
+ */
+export const starElementRenderer: ElementRenderer<ShapeElementProps> = {
+  type: "star",
+  displayName: "Star",
+  render: (element) => <div>Star: {element.props.points} points</div>, // Placeholder
+  renderComponent: ShapeElementRenderer, // Konva rendering component
+  icon: <Star className="w-4 h-4" />,
+  defaultProps: {
+    ...defaultShapeProps,
+    fill: "#f59e0b",
+    points: 5,
+    innerRadius: 0.5,
+  },
+  defaultSize: {
+    width: 150,
+    height: 150,
+  },
+  inspectorSchema: [
+    {
+      name: "points",
+      type: "number",
+      label: "Points",
+      min: 3,
+      max: 24,
+      step: 1,
+      defaultValue: 5,
+    },
+    {
+      name: "innerRadius",
+      type: "slider",
+      label: "Inner Radius",
+      min: 0.1,
+      max: 1,
+      step: 0.05,
+      defaultValue: 0.5,
+    },
+    { ...fillField, defaultValue: "#f59e0b" },
+    ...strokeFields,
+    ...shadowFields,
+  ],
+};
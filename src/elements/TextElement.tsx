@@ -2,13 +2,35 @@
  * Visual Editor - Text Element Renderer
  *
  * Built-in text element renderer using Konva.
+ * Text containing icon tokens like `{attack}` that resolve against `context.iconUrls`
+ * is laid out with inline icons; other text is drawn as a single Konva text node, and
+ * vertical text as one text node per column.
+ * With `textOverflow: "fit"` the font size shrinks until the text fits the box, and
+ * with `autoHeight` the box height follows the text.
  */
 
 import React from "react";
-import { Text } from "react-konva";
+import { Group, Rect, Text } from "react-konva";
 import { ElementRenderer, EditorElement, TextElementProps } from "../types";
 import { Type } from "lucide-react";
 import { getSnappingPosition, SnapGuide } from "../utils/snapping";
+import { layoutRichText } from "../utils/richTextUtils";
+import { IconUrlMap, hasIcon, hasIconTokens } from "../utils/iconUtils";
+import {
+  DEFAULT_MIN_FONT_SIZE,
+  TextSizeMeasurer,
+  createKonvaTextMeasurer,
+  createVerticalTextMeasurer,
+  fitFontSize,
+} from "../utils/textFitUtils";
+import {
+  applyTextTransform,
+  getTextShadowStyle,
+  getTextTypography,
+  layoutVerticalText,
+} from "../utils/typographyUtils";
+import { TextFragments } from "./TextFragments";
+import { getKonvaFill } from "../utils/fillUtils";
 import { KonvaEventObject, Node, NodeConfig } from "konva/lib/Node";
 
 /**
@@ -17,15 +39,26 @@ import { KonvaEventObject, Node, NodeConfig } from "konva/lib/Node";
 export const TextElementRenderer: React.FC<{
   element: EditorElement<TextElementProps>;
   isSelected: boolean;
-  onSelect: () => void;
+  onSelect: (e?: KonvaEventObject<Event>) => void;
   onTransform: (updates: Partial<EditorElement>) => void;
   // Snapping props
   allElements?: EditorElement[];
   canvasSize?: { width: number; height: number };
   onSnapGuides?: (guides: { vertical: SnapGuide[]; horizontal: SnapGuide[] }) => void;
   onClearSnapGuides?: () => void;
+  // Icon map for inline icon tokens (from mode context)
+  iconUrls?: IconUrlMap;
+  // Image URL mapping for asset resolution
+  imageUrls?: Map<string, string>;
   // Element ID for centralized transformer
   elementId?: string;
+  // Callback to store the measured box size of auto-height text
+  onAutoSize?: (size: { width: number; height: number }) => void;
+  // In-place editing: called on double-click; the text is hidden while the editor is open
+  onEditText?: () => void;
+  isEditingText?: boolean;
+  // Changes when fonts finish loading; text is measured again
+  fontsVersion?: number;
 }> = ({
   element,
   isSelected,
@@ -35,9 +68,195 @@ export const TextElementRenderer: React.FC<{
   canvasSize,
   onSnapGuides,
   onClearSnapGuides,
+  iconUrls,
+  imageUrls,
   elementId,
+  onAutoSize,
+  onEditText,
+  isEditingText = false,
+  fontsVersion,
 }) => {
   const shapeRef = React.useRef<any>(null);
+  // Box size while resizing text with inline icons or fitting, so it re-wraps live
+  const [liveSize, setLiveSize] = React.useState<{ width: number; height: number } | null>(null);
+
+  React.useEffect(() => {
+    setLiveSize(null);
+  }, [element.size.width, element.size.height]);
+
+  const { content, fontSize, fontFamily, color, align, verticalAlign } = element.props;
+  const { bold, italic, underline, strikethrough } = element.props;
+  const { textOverflow, minFontSize, maxFontSize, autoHeight } = element.props;
+  const { lineHeight, letterSpacing, padding, textTransform, writingMode } = getTextTypography(
+    element.props
+  );
+  const { width, height } = liveSize ?? element.size;
+  const fontStyle = `${bold ? "bold" : ""} ${italic ? "italic" : ""}`.trim() || "normal";
+  const fontVariant = textTransform === "smallCaps" ? "small-caps" : "normal";
+  const isVertical = writingMode === "vertical";
+  const isFitting = textOverflow === "fit" || autoHeight === true;
+
+  // Text as displayed; icon tokens survive case transforms (vertical text draws them as text)
+  const iconResolver = React.useMemo(
+    () => (iconUrls && !isVertical ? (name: string) => hasIcon(iconUrls, name) : undefined),
+    [iconUrls, isVertical]
+  );
+  const text = React.useMemo(
+    () => applyTextTransform(content || "", textTransform, iconResolver),
+    [content, textTransform, iconResolver]
+  );
+  const withIcons = !isVertical && hasIconTokens(text, iconUrls);
+
+  // Text area inside the padding
+  const innerWidth = Math.max(0, width - padding * 2);
+  const innerHeight = Math.max(0, height - padding * 2);
+
+  // Measure the text the same way it is drawn: vertical columns, inline icon layout or
+  // Konva's word wrapping
+  const measure = React.useMemo<TextSizeMeasurer | null>(() => {
+    if (!isFitting) return null;
+    if (isVertical) {
+      return createVerticalTextMeasurer(text, {
+        lineHeight,
+        letterSpacing,
+        height: autoHeight ? undefined : innerHeight,
+      });
+    }
+    if (!withIcons) {
+      return createKonvaTextMeasurer(text, {
+        width: innerWidth,
+        fontFamily: fontFamily || "Arial",
+        fontStyle,
+        fontVariant,
+        lineHeight,
+        letterSpacing,
+      });
+    }
+    const runs = [{ text, bold, italic }];
+    return (size) => ({
+      height: layoutRichText(runs, {
+        width: innerWidth,
+        fontSize: size,
+        fontFamily: fontFamily || "Arial",
+        color,
+        lineHeight,
+        letterSpacing,
+        fontVariant,
+        hasIcon: iconResolver,
+      }).height,
+      wordWidth: 0,
+    });
+    // fontsVersion is a dependency so text is measured again once fonts load
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [
+    isFitting,
+    isVertical,
+    withIcons,
+    text,
+    autoHeight,
+    innerWidth,
+    innerHeight,
+    fontFamily,
+    fontStyle,
+    fontVariant,
+    lineHeight,
+    letterSpacing,
+    bold,
+    italic,
+    color,
+    iconResolver,
+    fontsVersion,
+  ]);
+
+  // Shrink to fit: auto-height text only has to fit its width
+  const effectiveFontSize = React.useMemo(() => {
+    if (!measure || textOverflow !== "fit") return fontSize;
+    return fitFontSize(measure, {
+      width: innerWidth,
+      height: autoHeight ? undefined : innerHeight,
+      minFontSize: minFontSize ?? DEFAULT_MIN_FONT_SIZE,
+      maxFontSize: maxFontSize || fontSize,
+    });
+  }, [
+    measure,
+    textOverflow,
+    autoHeight,
+    innerWidth,
+    innerHeight,
+    minFontSize,
+    maxFontSize,
+    fontSize,
+  ]);
+
+  // Height of the box, when it follows the text
+  const contentHeight = React.useMemo(
+    () =>
+      measure && autoHeight
+        ? Math.max(1, Math.ceil(measure(effectiveFontSize).height + padding * 2))
+        : null,
+    [measure, autoHeight, effectiveFontSize, padding]
+  );
+  const boxHeight = contentHeight ?? height;
+  const textHeight = Math.max(0, boxHeight - padding * 2);
+
+  // Store the measured height so other elements can be laid out relative to the box
+  React.useEffect(() => {
+    if (contentHeight === null || liveSize || !onAutoSize) return;
+    if (contentHeight === element.size.height) return;
+    onAutoSize({ width: element.size.width, height: contentHeight });
+  }, [contentHeight, liveSize, onAutoSize, element.size.width, element.size.height]);
+
+  // Lay out text with inline icons (null when the text has no resolvable icon tokens)
+  const iconLayout = React.useMemo(() => {
+    if (!withIcons) return null;
+    return layoutRichText([{ text, bold, italic, underline, strikethrough }], {
+      width: innerWidth,
+      height: textHeight,
+      fontSize: effectiveFontSize,
+      fontFamily: fontFamily || "Arial",
+      color,
+      align,
+      verticalAlign,
+      lineHeight,
+      letterSpacing,
+      fontVariant,
+      hasIcon: iconResolver,
+    });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [
+    withIcons,
+    text,
+    iconResolver,
+    bold,
+    italic,
+    underline,
+    strikethrough,
+    innerWidth,
+    textHeight,
+    effectiveFontSize,
+    fontFamily,
+    color,
+    align,
+    verticalAlign,
+    lineHeight,
+    letterSpacing,
+    fontVariant,
+    fontsVersion,
+  ]);
+
+  // Lay vertical text out into columns
+  const verticalLayout = React.useMemo(
+    () =>
+      isVertical
+        ? layoutVerticalText(text, {
+            fontSize: effectiveFontSize,
+            lineHeight,
+            letterSpacing,
+            height: autoHeight ? undefined : textHeight,
+          })
+        : null,
+    [isVertical, text, effectiveFontSize, lineHeight, letterSpacing, autoHeight, textHeight]
+  );
 
   // Don't render if element is hidden
   const isVisible = element.visible !== false;
@@ -50,7 +269,12 @@ export const TextElementRenderer: React.FC<{
 
   const handleClick = (e: KonvaEventObject<MouseEvent, Node<NodeConfig>>) => {
     if (isLocked) return;
-    e.evt.button !== 0 ? undefined : onSelect();
+    e.evt.button !== 0 ? undefined : onSelect(e);
+  };
+
+  const handleDoubleClick = () => {
+    if (isLocked || !onEditText) return;
+    onEditText();
   };
 
   const handleDragMove = (e: KonvaEventObject<MouseEvent, Node<NodeConfig>>) => {
@@ -105,9 +329,10 @@ export const TextElementRenderer: React.FC<{
     node.scaleX(1);
     node.scaleY(1);
 
-    // Update dimensions
+    // Update dimensions, re-wrapping the text live
     node.width(newWidth);
     node.height(newHeight);
+    setLiveSize({ width: newWidth, height: newHeight });
   };
 
   // Build text decoration string
@@ -119,42 +344,118 @@ export const TextElementRenderer: React.FC<{
     return decorations.join(" ") || "";
   };
 
-  return (
-    <>
+  const stroke = element.props.strokeColor || "#000000";
+  const strokeWidth = element.props.strokeWidth || 0;
+  const shadow = getTextShadowStyle(element.props, element.style);
+
+  // Styling shared by the Konva text nodes of plain and vertical text
+  const textStyle = {
+    fontSize: effectiveFontSize,
+    fontFamily: fontFamily || "Arial",
+    fontStyle,
+    fontVariant,
+    ...getKonvaFill(color, { width: innerWidth, height: textHeight }),
+    textDecoration: getTextDecoration(),
+    stroke,
+    strokeWidth,
+    strokeEnabled: true,
+    fillAfterStrokeEnabled: true,
+    ...shadow,
+    listening: false,
+  };
+
+  const renderText = () => {
+    if (iconLayout) {
+      return (
+        <TextFragments
+          layout={iconLayout}
+          lineHeight={lineHeight}
+          iconUrls={iconUrls}
+          imageUrls={imageUrls}
+          stroke={stroke}
+          strokeWidth={strokeWidth}
+          letterSpacing={letterSpacing}
+          fontVariant={fontVariant}
+          shadow={shadow}
+          box={{ width: innerWidth, height: textHeight }}
+        />
+      );
+    }
+
+    if (verticalLayout) {
+      const { columns, step, pitch } = verticalLayout;
+      const alignFactor = verticalAlign === "middle" ? 0.5 : verticalAlign === "bottom" ? 1 : 0;
+      // Columns run from right to left; like lines of horizontal text, columns that don't
+      // fit the box are dropped
+      return columns
+        .map((column, index) => ({ column, x: innerWidth - (index + 1) * pitch }))
+        .filter(({ x }, index) => index === 0 || x >= -0.5)
+        .map(({ column, x }, index) => {
+          const y = (textHeight - column.length * step) * alignFactor;
+          return (
+            <Text
+              key={index}
+              {...textStyle}
+              // Columns share one gradient over the box
+              {...getKonvaFill(color, { width: innerWidth, height: textHeight }, { x, y })}
+              x={x}
+              y={y}
+              width={pitch}
+              text={column.join("\n")}
+              align="center"
+              lineHeight={step / effectiveFontSize}
+            />
+          );
+        });
+    }
+
+    return (
       <Text
-        ref={shapeRef}
-        id={elementId || element.id}
-        x={element.position.x}
-        y={element.position.y}
-        width={element.size.width}
-        height={element.size.height}
-        text={element.props.content}
-        fontSize={element.props.fontSize}
-        fontFamily={element.props.fontFamily || "Arial"}
-        opacity={element.opacity}
-        fill={element.props.color}
-        align={element.props.align || "left"}
-        fontStyle={
-          `${element.props.bold ? "bold" : ""} ${element.props.italic ? "italic" : ""}`.trim() ||
-          "normal"
-        }
-        textDecoration={getTextDecoration()}
-        rotation={element.rotation}
-        draggable={!isLocked && isSelected}
-        listening={!isLocked}
-        onClick={handleClick}
-        onTap={isLocked ? undefined : onSelect}
-        onDragMove={handleDragMove}
-        onDragEnd={handleDragEnd}
-        onTransform={handleTransform}
-        ellipsis={element.props.textOverflow === "ellipsis"}
-        verticalAlign={element.props.verticalAlign || "top"}
-        stroke={element.props.strokeColor || "#000000"}
-        strokeWidth={element.props.strokeWidth || 0}
-        strokeEnabled
-        fillAfterStrokeEnabled
+        {...textStyle}
+        width={innerWidth}
+        height={textHeight}
+        text={text}
+        align={align || "left"}
+        verticalAlign={verticalAlign || "top"}
+        lineHeight={lineHeight}
+        letterSpacing={letterSpacing}
+        ellipsis={textOverflow === "ellipsis"}
       />
-    </>
+    );
+  };
+
+  return (
+    <Group
+      ref={shapeRef}
+      id={elementId || element.id}
+      x={element.position.x}
+      y={element.position.y}
+      width={width}
+      height={boxHeight}
+      rotation={element.rotation}
+      opacity={isEditingText ? 0 : element.opacity}
+      draggable={!isLocked && isSelected}
+      listening={!isLocked}
+      onClick={handleClick}
+      onTap={isLocked ? undefined : onSelect}
+      onDragMove={handleDragMove}
+      onDragEnd={handleDragEnd}
+      onTransform={handleTransform}
+      onDblClick={handleDoubleClick}
+      onDblTap={handleDoubleClick}
+    >
+      {/* Background fill, doubling as the hit area of the whole box */}
+      <Rect
+        width={width}
+        height={boxHeight}
+        fill={element.props.backgroundColor || "transparent"}
+        opacity={element.props.backgroundOpacity ?? 1}
+        cornerRadius={element.props.backgroundCornerRadius || 0}
+      />
+      <Group x={padding} y={padding} listening={false}>
+        {renderText()}
+      </Group>
+    </Group>
   );
 };
 
@@ -182,6 +483,16 @@ export const textElementRenderer: ElementRenderer<TextElementProps> = {
     overline: false,
     strikethrough: false,
     wordWrap: "break-word",
+    lineHeight: 1,
+    letterSpacing: 0,
+    padding: 0,
+    textTransform: "none",
+    writingMode: "horizontal",
+    shadowColor: "#000000",
+    shadowBlur: 0,
+    shadowOffsetX: 0,
+    shadowOffsetY: 0,
+    shadowOpacity: 0.5,
   },
   defaultSize: {
     width: 200,
@@ -205,7 +516,7 @@ export const textElementRenderer: ElementRenderer<TextElementProps> = {
     },
     {
       name: "fontFamily",
-      type: "select",
+      type: "font",
       label: "Font Family",
       options: [
         { value: "Arial", label: "Arial" },
@@ -219,7 +530,7 @@ export const textElementRenderer: ElementRenderer<TextElementProps> = {
     },
     {
       name: "color",
-      type: "color",
+      type: "gradient",
       label: "Text Color",
       defaultValue: "#000000",
     },
@@ -260,6 +571,94 @@ export const textElementRenderer: ElementRenderer<TextElementProps> = {
       ],
       defaultValue: "top",
     },
+    {
+      name: "lineHeight",
+      type: "slider",
+      label: "Line Height",
+      min: 0.5,
+      max: 3,
+      step: 0.05,
+      defaultValue: 1,
+    },
+    {
+      name: "letterSpacing",
+      type: "number",
+      label: "Letter Spacing",
+      min: -20,
+      max: 100,
+      step: 0.5,
+      defaultValue: 0,
+    },
+    {
+      name: "padding",
+      type: "number",
+      label: "Padding",
+      min: 0,
+      max: 200,
+      step: 1,
+      defaultValue: 0,
+    },
+    {
+      name: "textTransform",
+      type: "select",
+      label: "Text Transform",
+      options: [
+        { value: "none", label: "None" },
+        { value: "uppercase", label: "Uppercase" },
+        { value: "lowercase", label: "Lowercase" },
+        { value: "capitalize", label: "Capitalize" },
+        { value: "smallCaps", label: "Small Caps" },
+      ],
+      defaultValue: "none",
+    },
+    {
+      name: "writingMode",
+      type: "select",
+      label: "Direction",
+      options: [
+        { value: "horizontal", label: "Horizontal" },
+        { value: "vertical", label: "Vertical" },
+      ],
+      defaultValue: "horizontal",
+    },
+    {
+      name: "textOverflow",
+      type: "select",
+      label: "Overflow",
+      options: [
+        { value: "clip", label: "Clip" },
+        { value: "ellipsis", label: "Ellipsis" },
+        { value: "fit", label: "Shrink to Fit" },
+      ],
+      defaultValue: "clip",
+    },
+    {
+      name: "minFontSize",
+      type: "number",
+      label: "Min Font Size",
+      description: "Smallest font size when shrinking to fit",
+      min: 1,
+      max: 1024,
+      step: 1,
+      defaultValue: DEFAULT_MIN_FONT_SIZE,
+    },
+    {
+      name: "maxFontSize",
+      type: "number",
+      label: "Max Font Size",
+      description: "Largest font size when shrinking to fit (0 uses the font size)",
+      min: 0,
+      max: 1024,
+      step: 1,
+      defaultValue: 0,
+    },
+    {
+      name: "autoHeight",
+      type: "boolean",
+      label: "Auto Height",
+      description: "Grow or shrink the box to the height of the text",
+      defaultValue: false,
+    },
     {
       name: "bold",
       type: "boolean",
@@ -284,5 +683,70 @@ export const textElementRenderer: ElementRenderer<TextElementProps> = {
       label: "Strikethrough",
       defaultValue: false,
     },
+    {
+      name: "shadowColor",
+      type: "color",
+      label: "Shadow Color",
+      defaultValue: "#000000",
+    },
+    {
+      name: "shadowBlur",
+      type: "number",
+      label: "Shadow Blur",
+      min: 0,
+      max: 100,
+      step: 1,
+      defaultValue: 0,
+    },
+    {
+      name: "shadowOffsetX",
+      type: "number",
+      label: "Shadow Offset X",
+      min: -100,
+      max: 100,
+      step: 1,
+      defaultValue: 0,
+    },
+    {
+      name: "shadowOffsetY",
+      type: "number",
+      label: "Shadow Offset Y",
+      min: -100,
+      max: 100,
+      step: 1,
+      defaultValue: 0,
+    },
+    {
+      name: "shadowOpacity",
+      type: "slider",
+      label: "Shadow Opacity",
+      min: 0,
+      max: 1,
+      step: 0.05,
+      defaultValue: 0.5,
+    },
+    {
+      name: "backgroundColor",
+      type: "color",
+      label: "Background Color",
+    },
+    {
+      name: "backgroundOpacity",
+      type: "slider",
+      label: "Background Opacity",
+      min: 0,
+      max: 1,
+      step: 0.05,
+      defaultValue: 1,
+    },
+    {
+      name: "backgroundCornerRadius",
+      type: "number",
+      label: "Background Corner Radius",
+      min: 0,
+      max: 500,
+      step: 1,
+      defaultValue: 0,
+    },
   ],
 };
@@ -0,0 +1,99 @@
+/**
+ * Visual Editor - Text Fragments
+ *
+ * Draws a laid out rich text (see `layoutRichText`) with Konva: one text node per
+ * styled fragment and one image per inline icon.
+ */
+
+import React from "react";
+import { Image as KonvaImage, Text } from "react-konva";
+import useImage from "use-image";
+import { RichTextLayout } from "../utils/richTextUtils";
+import { IconUrlMap, resolveIconUrl } from "../utils/iconUtils";
+import { TextShadowStyle } from "../utils/typographyUtils";
+import { getKonvaFill } from "../utils/fillUtils";
+
+/**
+ * A single inline icon
+ */
+const InlineIcon: React.FC<{ url?: string; x: number; y: number; size: number }> = ({
+  url,
+  x,
+  y,
+  size,
+}) => {
+  const [image] = useImage(url || "", "anonymous");
+  if (!image) return null;
+  return <KonvaImage image={image} x={x} y={y} width={size} height={size} listening={false} />;
+};
+
+/**
+ * Text fragments renderer
+ */
+export const TextFragments: React.FC<{
+  layout: RichTextLayout;
+  lineHeight: number;
+  // Icon map for inline icon tokens
+  iconUrls?: IconUrlMap;
+  // Image URL mapping for icons stored as asset keys
+  imageUrls?: Map<string, string>;
+  stroke?: string;
+  strokeWidth?: number;
+  // Must match the letter spacing and font variant the layout was measured with
+  letterSpacing?: number;
+  fontVariant?: string;
+  shadow?: TextShadowStyle;
+  // Box the gradient fills of fragments span
+  box: { width: number; height: number };
+}> = ({
+  layout,
+  lineHeight,
+  iconUrls,
+  imageUrls,
+  stroke,
+  strokeWidth = 0,
+  letterSpacing = 0,
+  fontVariant,
+  shadow,
+  box,
+}) => (
+  <>
+    {layout.lines.map((line, lineIndex) =>
+      line.fragments.map((fragment, fragmentIndex) =>
+        fragment.icon ? (
+          <InlineIcon
+            key={`${lineIndex}-${fragmentIndex}`}
+            url={resolveIconUrl(fragment.icon, iconUrls, imageUrls)}
+            x={fragment.x}
+            y={fragment.y}
+            size={fragment.width - letterSpacing}
+          />
+        ) : (
+          <Text
+            key={`${lineIndex}-${fragmentIndex}`}
+            x={fragment.x}
+            y={fragment.y}
+            text={fragment.text}
+            fontSize={fragment.fontSize}
+            fontFamily={fragment.fontFamily}
+            fontStyle={fragment.fontStyle}
+            fontVariant={fontVariant}
+            textDecoration={fragment.textDecoration}
+            {...getKonvaFill(fragment.color, box, { x: fragment.x, y: fragment.y })}
+            stroke={stroke}
+            strokeWidth={strokeWidth}
+            strokeEnabled={strokeWidth > 0}
+            fillAfterStrokeEnabled
+            lineHeight={lineHeight}
+            letterSpacing={letterSpacing}
+            {...shadow}
+            wrap="none"
+            listening={false}
+          />
+        )
+      )
+    )}
+  </>
+);
+
+export default TextFragments;
@@ -0,0 +1,101 @@
+/**
+ * Tests for GroupElement.tsx
+ */
+
+import React from 'react';
+import { render } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import { GroupElementRenderer } from '../GroupElement';
+import { textElementRenderer } from '../TextElement';
+import { ElementRegistry } from '../../core/ElementRegistry';
+import { createElement } from '../../utils/editorUtils';
+import { createGroupElement } from '../../utils/groupUtils';
+import { TextElementProps } from '../../types';
+
+describe('GroupElementRenderer', () => {
+  const registry = new ElementRegistry();
+  registry.register(textElementRenderer);
+
+  // Text with inline icons is measured without a Konva node
+  const text = createElement<TextElementProps>(
+    'text',
+    {
+      ...textElementRenderer.defaultProps,
+      content: 'Title {attack}',
+      autoHeight: true,
+    } as TextElementProps,
+    { size: { width: 100, height: 500 } }
+  );
+  const group = createGroupElement('group-1', [text]);
+  const iconUrls = { attack: 'attack.png' };
+
+  it('should not auto-size the group to an auto-height child', () => {
+    const onAutoSize = jest.fn();
+    render(
+      <GroupElementRenderer
+        element={group}
+        isSelected={false}
+        onSelect={jest.fn()}
+        onTransform={jest.fn()}
+        registry={registry}
+        iconUrls={iconUrls}
+        onAutoSize={onAutoSize}
+      />
+    );
+
+    expect(onAutoSize).not.toHaveBeenCalled();
+  });
+
+  it('should not edit text children in place as the group', () => {
+    const { container } = render(
+      <GroupElementRenderer
+        element={group}
+        isSelected={true}
+        onSelect={jest.fn()}
+        onTransform={jest.fn()}
+        registry={registry}
+        iconUrls={iconUrls}
+        onEditText={jest.fn()}
+        isEditingText={true}
+      />
+    );
+
+    // Text being edited is hidden behind the editor overlay
+    const child = container.querySelector(`[id="${group.props.children[0].id}"]`);
+    expect(child).toHaveAttribute('opacity', '1');
+  });
+
+  it('should keep its resized size through a rotate-only transform', () => {
+    const renderGroup = (element: typeof group) => (
+      <GroupElementRenderer
+        element={element}
+        isSelected={true}
+        onSelect={jest.fn()}
+        onTransform={jest.fn()}
+        registry={registry}
+        iconUrls={iconUrls}
+      />
+    );
+    const getScaleX = (node: Element) => Number(node.getAttribute('scaleX') ?? 1);
+    // Drawn width of the group's content box, through the scales of its nodes
+    const getDrawnWidth = (outer: Element) => {
+      const hitArea = outer.querySelector('[fill="transparent"]')!;
+      let width = Number(hitArea.getAttribute('width')) * getScaleX(outer);
+      for (let node = hitArea.parentElement!; node !== outer; node = node.parentElement!) {
+        width *= getScaleX(node);
+      }
+      return width;
+    };
+
+    const resized = { ...group, size: { width: group.size.width * 2, height: group.size.height } };
+    const { container, rerender } = render(renderGroup(group));
+    rerender(renderGroup(resized));
+
+    // The transformer resets the scale of the node it resized and reports the size instead
+    const outer = container.querySelector(`[id="${group.id}"]`)!;
+    outer.setAttribute('scaleX', '1');
+
+    rerender(renderGroup({ ...resized, rotation: 45 }));
+    expect(getDrawnWidth(outer)).toBe(resized.size.width);
+  });
+});
@@ -5,10 +5,42 @@
  */
 
 export { textElementRenderer, TextElementRenderer } from "./TextElement";
+export { richTextElementRenderer, RichTextElementRenderer } from "./RichTextElement";
 export { imageElementRenderer, ImageElementRenderer } from "./ImageElement";
+export { groupElementRenderer, GroupElementRenderer } from "./GroupElement";
+export {
+  rectangleElementRenderer,
+  ellipseElementRenderer,
+  lineElementRenderer,
+  polygonElementRenderer,
+  starElementRenderer,
+  ShapeElementRenderer,
+} from "./ShapeElement";
+export { pathElementRenderer, PathElementRenderer } from "./PathElement";
 
 // Export default element set
 import { textElementRenderer } from "./TextElement";
+import { richTextElementRenderer } from "./RichTextElement";
 import { imageElementRenderer } from "./ImageElement";
+import { groupElementRenderer } from "./GroupElement";
+import {
+  rectangleElementRenderer,
+  ellipseElementRenderer,
+  lineElementRenderer,
+  polygonElementRenderer,
+  starElementRenderer,
+} from "./ShapeElement";
+import { pathElementRenderer } from "./PathElement";
 
-export const defaultElements = [textElementRenderer, imageElementRenderer];
+export const defaultElements = [
+  textElementRenderer,
+  richTextElementRenderer,
+  imageElementRenderer,
+  rectangleElementRenderer,
+  ellipseElementRenderer,
+  lineElementRenderer,
+  polygonElementRenderer,
+  starElementRenderer,
+  pathElementRenderer,
+  groupElementRenderer,
+];
@@ -0,0 +1,63 @@
+/**
+ * Visual Editor - Group Cache Hook
+ *
+ * Keeps a Konva group drawn from a cached bitmap, for effects that work on the group as a
+ * whole (filters, compositing its children in isolation). The bitmap doesn't follow changes
+ * of the children by itself, so it is cached again after every render and while the
+ * children are dragged or transformed.
+ */
+
+import React from "react";
+import Konva from "konva";
+
+/**
+ * Cache a group while `enabled`, returning a callback caching it again
+ */
+export const useGroupCache = (
+  groupRef: React.RefObject<Konva.Group>,
+  enabled: boolean,
+  // Extra space around the children, for effects drawn outside of them
+  padding = 0
+): (() => void) => {
+  const isCachedRef = React.useRef(false);
+
+  const refreshCache = React.useCallback(() => {
+    const group = groupRef.current;
+    if (!group) return;
+    // Konva can't cache empty groups (e.g., only hidden elements)
+    const isEmpty = () => {
+      const rect = group.getClientRect({ skipTransform: true });
+      return !rect.width || !rect.height;
+    };
+    if (enabled && !isEmpty()) {
+      // Keep the bitmap sharp at the current zoom
+      const scale = group.getAbsoluteScale();
+      group.cache({
+        offset: padding,
+        pixelRatio: Konva.pixelRatio * Math.max(Math.abs(scale.x), Math.abs(scale.y), 0.1),
+      });
+      isCachedRef.current = true;
+    } else if (isCachedRef.current) {
+      group.clearCache();
+      isCachedRef.current = false;
+    }
+  }, [groupRef, enabled, padding]);
+
+  React.useEffect(refreshCache);
+
+  // Dragging bubbles up to the group; transformer events don't, so they are followed on the
+  // element nodes (the nodes with an id). Children may change on any render.
+  React.useEffect(() => {
+    const group = groupRef.current;
+    if (!group || !enabled) return;
+    const nodes = group.find((node: Konva.Node) => node.id() !== "");
+    group.on("dragmove.groupCache", refreshCache);
+    nodes.forEach((node) => node.on("transform.groupCache", refreshCache));
+    return () => {
+      group.off("dragmove.groupCache", refreshCache);
+      nodes.forEach((node) => node.off("transform.groupCache", refreshCache));
+    };
+  });
+
+  return refreshCache;
+};
@@ -11,35 +11,109 @@ export { VisualEditor } from "./core/VisualEditor";
 // UI Components
 export { Inspector, renderField } from "./components/Inspector";
 export { LayersPanel } from "./components/LayersPanel";
+export { HistoryPanel } from "./components/HistoryPanel";
+export type { HistoryPanelProps } from "./components/HistoryPanel";
 export { VisualEditorWorkspace } from "./components/VisualEditorWorkspace";
 export { AssetPicker } from "./components/AssetPicker";
 export type { AssetPickerProps } from "./components/AssetPicker";
+export { FontPicker } from "./components/FontPicker";
+export type { FontPickerProps } from "./components/FontPicker";
+export { GradientEditor } from "./components/GradientEditor";
+export type { GradientEditorProps } from "./components/GradientEditor";
 
 // Core hooks and utilities
 export { useEditorState } from "./core/useEditorState";
+export { useFontLoader } from "./core/useFontLoader";
+export { EditorStore } from "./core/EditorStore";
+export type { EditorStoreListener } from "./core/EditorStore";
+export { editorReducer, createInitialState } from "./core/editorReducer";
 export { ElementRegistry, useElementRegistry, globalElementRegistry } from "./core/ElementRegistry";
 
 // Built-in elements
-export { defaultElements, textElementRenderer, imageElementRenderer } from "./elements";
+export {
+  defaultElements,
+  textElementRenderer,
+  richTextElementRenderer,
+  imageElementRenderer,
+  groupElementRenderer,
+  rectangleElementRenderer,
+  ellipseElementRenderer,
+  lineElementRenderer,
+  polygonElementRenderer,
+  starElementRenderer,
+  pathElementRenderer,
+} from "./elements";
 export { TextElementRenderer } from "./elements/TextElement";
+export { RichTextElementRenderer } from "./elements/RichTextElement";
 export { ImageElementRenderer } from "./elements/ImageElement";
+export { GroupElementRenderer } from "./elements/GroupElement";
+export { ShapeElementRenderer } from "./elements/ShapeElement";
+export { PathElementRenderer } from "./elements/PathElement";
+export { ElementStyleGroup } from "./elements/ElementStyleGroup";
+export { MaskGroup } from "./elements/MaskGroup";
 
 // Utility functions
 export * from "./utils/editorUtils";
+export * from "./utils/groupUtils";
+export * from "./utils/historyUtils";
+export * from "./utils/eventUtils";
+export * from "./utils/shapeUtils";
+export * from "./utils/pathUtils";
+export * from "./utils/richTextUtils";
+export * from "./utils/iconUtils";
+export * from "./utils/textFitUtils";
+export * from "./utils/typographyUtils";
+export * from "./utils/fontUtils";
+export * from "./utils/imageUtils";
+export * from "./utils/atlasUtils";
+export * from "./utils/fillUtils";
+export * from "./utils/styleUtils";
+export * from "./utils/maskUtils";
 
 // Type definitions
 export type {
   // Core types
   EditorElement,
+  ElementStyle,
   EditorAPI,
   EditorMode,
   EditorState,
+  EditorDocument,
   EditorAction,
+  ElementUpdate,
+  EditorStateOptions,
+  EditorMiddleware,
+  HistoryEntry,
+  HistoryStep,
+  EditorEventMap,
+  EditorEventName,
+  EditorEventHandler,
+  EditorEvent,
 
   // Element types
   ElementRenderer,
   TextElementProps,
+  TextTransform,
+  TextWritingMode,
+  RichTextElementProps,
+  TextRun,
+  TextRunStyle,
   ImageElementProps,
+  ImageCrop,
+  GroupElementProps,
+  ShapeElementProps,
+  ShapeDashStyle,
+  PathElementProps,
+  PathPoint,
+  PathAnchor,
+  PathContour,
+
+  // Fill types
+  GradientStop,
+  LinearGradientFill,
+  RadialGradientFill,
+  GradientFill,
+  EditorFill,
 
   // Inspector types
   InspectorFieldType,
@@ -48,6 +122,7 @@ export type {
 
   // Canvas types
   CanvasExport,
+  EditorTool,
 
   // Component props
   VisualEditorProps,
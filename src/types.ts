@@ -51,10 +51,102 @@ export interface EditorElement<TProps = any> {
   /** Display name for layers panel */
   displayName?: string;
 
+  /** Styling shared by every element type (shadow, glow, blend mode, rounded corners) */
+  style?: ElementStyle;
+
+  /** Whether the element is a clipping mask for the clipped elements directly above it */
+  clipMask?: boolean;
+
+  /** Whether the element is clipped to the clipping mask below it (drawn only inside the mask) */
+  clipped?: boolean;
+
   /** Element-specific properties */
   props: TProps;
 }
 
+/**
+ * Styling common to all elements, drawn around whatever the element's renderer draws.
+ * Shadow and glow follow the outline of the drawn content, like CSS `drop-shadow`.
+ */
+export interface ElementStyle {
+  /**
+   * Drop shadow color (no shadow when unset). Takes precedence over the shadow props of
+   * shapes and text: their own shadow isn't drawn while this one is.
+   */
+  shadowColor?: string;
+  shadowBlur?: number;
+  shadowOffsetX?: number;
+  shadowOffsetY?: number;
+
+  /** Shadow opacity (0-1, default 1) */
+  shadowOpacity?: number;
+
+  /** Outer glow color (no glow when unset) */
+  glowColor?: string;
+
+  /** Distance the glow spreads, in pixels */
+  glowSize?: number;
+
+  /** Glow opacity (0-1, default 1) */
+  glowOpacity?: number;
+
+  /** How the element blends with what is below it (default "source-over", i.e. normal) */
+  blendMode?: GlobalCompositeOperation;
+
+  /** Rounded corners clipping the element box, in pixels */
+  cornerRadius?: number;
+}
+
+/**
+ * Color stop of a gradient
+ */
+export interface GradientStop {
+  /** Position along the gradient, 0 to 1 */
+  offset: number;
+  color: string;
+}
+
+/**
+ * Linear gradient across the element box
+ */
+export interface LinearGradientFill {
+  type: "linear";
+  stops: GradientStop[];
+
+  /** Direction in degrees, clockwise; 0 runs from left to right, 90 from top to bottom */
+  angle: number;
+}
+
+/**
+ * Circular gradient from a center point to the farthest corner of the element box
+ */
+export interface RadialGradientFill {
+  type: "radial";
+  stops: GradientStop[];
+
+  /** Center, as fractions of the box size (default 0.5) */
+  centerX?: number;
+  centerY?: number;
+}
+
+export type GradientFill = LinearGradientFill | RadialGradientFill;
+
+/**
+ * A fill: a solid color string or a gradient. Fill properties used to be plain color
+ * strings; code reading them should use `getFillColor` where a single color is needed.
+ */
+export type EditorFill = string | GradientFill;
+
+/**
+ * Case transform applied to displayed text (the stored content is unchanged)
+ */
+export type TextTransform = "none" | "uppercase" | "lowercase" | "capitalize" | "smallCaps";
+
+/**
+ * Text direction: `vertical` stacks upright characters in columns from right to left
+ */
+export type TextWritingMode = "horizontal" | "vertical";
+
 /**
  * Common text element properties - matches CardChildText
  */
@@ -62,7 +154,9 @@ export interface TextElementProps {
   content: string;
   fontSize: number;
   fontFamily?: string;
-  color: string;
+
+  /** Text fill: a color or a gradient across the text box */
+  color: EditorFill;
   strokeColor?: string;
   strokeWidth?: number;
   align?: "left" | "center" | "right";
@@ -73,7 +167,108 @@ export interface TextElementProps {
   overline?: boolean;
   strikethrough?: boolean;
   wordWrap?: "break-word";
-  textOverflow?: "clip" | "ellipsis" | "visible";
+
+  /**
+   * How text that doesn't fit the box is handled. `fit` shrinks the font size
+   * (between `minFontSize` and `fontSize`, or `maxFontSize` when set) until the text fits.
+   */
+  textOverflow?: "clip" | "ellipsis" | "visible" | "fit";
+
+  /** Smallest font size used by `textOverflow: "fit"` (default: 6) */
+  minFontSize?: number;
+
+  /** Largest font size used by `textOverflow: "fit"` (unset or 0: `fontSize`) */
+  maxFontSize?: number;
+
+  /** Grow or shrink the box height to the height of the text */
+  autoHeight?: boolean;
+
+  /** Line height as a multiple of the font size (default: 1) */
+  lineHeight?: number;
+
+  /** Extra space between characters, in pixels (default: 0) */
+  letterSpacing?: number;
+
+  /** Space between the box edges and the text, in pixels (default: 0) */
+  padding?: number;
+
+  textTransform?: TextTransform;
+  writingMode?: TextWritingMode;
+
+  /** Shadow of the text itself; not drawn when the element's common `style` has a shadow */
+  shadowColor?: string;
+  shadowBlur?: number;
+  shadowOffsetX?: number;
+  shadowOffsetY?: number;
+  shadowOpacity?: number;
+
+  /** Fill drawn behind the text, covering the whole box */
+  backgroundColor?: string;
+  backgroundOpacity?: number;
+  backgroundCornerRadius?: number;
+}
+
+/**
+ * Inline style of a rich text run. Unset values fall back to the element's defaults.
+ */
+export interface TextRunStyle {
+  bold?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  strikethrough?: boolean;
+  color?: string;
+  fontSize?: number;
+  fontFamily?: string;
+}
+
+/**
+ * A span of rich text sharing one style
+ */
+export interface TextRun extends TextRunStyle {
+  text: string;
+}
+
+/**
+ * Rich text element properties.
+ * The content is a list of styled runs laid out with wrapping inside the element box.
+ */
+export interface RichTextElementProps {
+  runs: TextRun[];
+
+  /** Default font size for runs that don't set one */
+  fontSize: number;
+
+  /** Default font family for runs that don't set one */
+  fontFamily?: string;
+
+  /** Default fill for runs that don't set one: a color or a gradient across the text box */
+  color: EditorFill;
+
+  align?: "left" | "center" | "right";
+  verticalAlign?: "top" | "middle" | "bottom";
+
+  /** Line height as a multiple of the largest font size on each line */
+  lineHeight?: number;
+}
+
+/**
+ * Part of an image, as fractions (0-1) of the image's width and height
+ */
+export interface ImageCrop {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Nine-slice insets, in image pixels from the edges of the (cropped) image
+ */
+export interface ImageSliceInsets {
+  top: number;
+  right: number;
+  bottom: number;
+  left: number;
 }
 
 /**
@@ -81,7 +276,152 @@ export interface TextElementProps {
  */
 export interface ImageElementProps {
   src: string;
+
+  /** How the (cropped) image fills the element box; unset stretches it like `"fill"` */
   fit?: "contain" | "cover" | "fill";
+
+  /** Part of the image to show; unset shows the whole image. The source is not changed. */
+  crop?: ImageCrop;
+
+  /** Point (fractions of the image size, default 0.5) that `"cover"` keeps centred */
+  focalX?: number;
+  focalY?: number;
+
+  /**
+   * Nine-slice scaling: the corners keep their size while the edges and the centre fill the
+   * rest of the box (`fit` is ignored). Unset or all-zero insets draw the image normally.
+   */
+  slice?: ImageSliceInsets;
+
+  /** Whether nine-slice edges and the centre stretch (default) or tile */
+  sliceMode?: "stretch" | "tile";
+
+  /** Brightness adjustment, -1 to 1 (0 = unchanged) */
+  brightness?: number;
+
+  /** Contrast adjustment, -100 to 100 (0 = unchanged) */
+  contrast?: number;
+
+  /** Saturation adjustment, -1 (gray) to 1 (twice as saturated) */
+  saturation?: number;
+
+  /** Hue rotation in degrees */
+  hueRotate?: number;
+
+  /** How far to desaturate, 0 to 1 (1 = fully gray) */
+  grayscale?: number;
+
+  /** Blur radius in pixels */
+  blur?: number;
+
+  /** Color blended over the image by `tintStrength` (0 to 1) */
+  tintColor?: string;
+  tintStrength?: number;
+
+  /** Invert the colors */
+  invert?: boolean;
+}
+
+/**
+ * Group element properties.
+ * Children are positioned relative to the group's top-left corner and are drawn
+ * scaled by `size / contentSize`, so resizing the group scales its content.
+ */
+export interface GroupElementProps {
+  /** Child elements, in group-local coordinates */
+  children: EditorElement[];
+
+  /** Unscaled size of the children's bounding box */
+  contentSize: {
+    width: number;
+    height: number;
+  };
+}
+
+/**
+ * Stroke dash presets for shape elements (scaled by the stroke width)
+ */
+export type ShapeDashStyle = "solid" | "dashed" | "dotted" | "dashDot";
+
+/**
+ * Common shape element properties (rectangle, ellipse, line, polygon, star).
+ * Shapes are drawn to fill the element box.
+ */
+export interface ShapeElementProps {
+  /** Fill color or gradient (ignored by lines) */
+  fill?: EditorFill;
+  stroke?: string;
+  strokeWidth?: number;
+  dash?: ShapeDashStyle;
+
+  /** Rounded corners, in pixels (rectangles) */
+  cornerRadius?: number;
+
+  /** Number of sides (polygons) */
+  sides?: number;
+
+  /** Number of points (stars) */
+  points?: number;
+
+  /** Inner radius as a fraction of the outer radius (stars) */
+  innerRadius?: number;
+
+  /** Shadow of the shape itself; not drawn when the element's common `style` has a shadow */
+  shadowColor?: string;
+  shadowBlur?: number;
+  shadowOffsetX?: number;
+  shadowOffsetY?: number;
+  shadowOpacity?: number;
+}
+
+/**
+ * A point in path coordinates
+ */
+export interface PathPoint {
+  x: number;
+  y: number;
+}
+
+/**
+ * An anchor of a vector path, with optional bezier handles (absolute path coordinates)
+ */
+export interface PathAnchor extends PathPoint {
+  /** Control point of the segment arriving at this anchor */
+  handleIn?: PathPoint;
+
+  /** Control point of the segment leaving this anchor */
+  handleOut?: PathPoint;
+}
+
+/**
+ * One subpath of a vector path
+ */
+export interface PathContour {
+  anchors: PathAnchor[];
+  closed: boolean;
+}
+
+/**
+ * Vector path element properties.
+ * `d` is SVG path data in path coordinates, drawn scaled by `size / pathSize`.
+ */
+export interface PathElementProps {
+  /** SVG path data */
+  d: string;
+
+  /** Unscaled size of the path's bounding box */
+  pathSize: {
+    width: number;
+    height: number;
+  };
+
+  /** Whether every subpath is closed */
+  closed: boolean;
+
+  fill?: EditorFill;
+  stroke?: string;
+  strokeWidth?: number;
+  fillRule?: "nonzero" | "evenodd";
 }
 
 // ============================================================================
@@ -106,7 +446,8 @@ export interface ElementRenderer<TProps = any> {
   renderComponent?: React.ComponentType<{
     element: EditorElement<TProps>;
     isSelected: boolean;
-    onSelect: () => void;
+    /** Select the element; pass the pointer event so modifier keys can extend the selection */
+    onSelect: (e?: any) => void;
     onTransform: (updates: Partial<EditorElement>) => void;
     allElements?: EditorElement[];
     canvasSize?: { width: number; height: number };
@@ -129,6 +470,9 @@ export interface ElementRenderer<TProps = any> {
 
   /** Optional icon for element type selector */
   icon?: React.ReactNode;
+
+  /** Whether the element can be created from the toolbar (defaults to true) */
+  creatable?: boolean;
 }
 
 // ============================================================================
@@ -146,6 +490,10 @@ export type InspectorFieldType =
   | "boolean"
   | "slider"
   | "image"
+  | "richText"
+  | "font"
+  | "nineSlice"
+  | "gradient"
   | "custom";
 
 /**
@@ -214,27 +562,57 @@ export interface EditorAPI {
   /** Update an existing element */
   updateElement: (id: string, updates: Partial<EditorElement>) => void;
 
+  /** Update several elements at once (recorded as a single history step) */
+  updateElements: (updates: ElementUpdate[]) => void;
+
   /** Remove an element from the canvas */
   removeElement: (id: string) => void;
 
+  /** Remove several elements at once (recorded as a single history step) */
+  removeElements: (ids: string[]) => void;
+
   /** Select an element (or null to deselect) */
   selectElement: (id: string | null) => void;
 
-  /** Get the currently selected element */
+  /** Replace the selection with the given elements (last id becomes the primary selection) */
+  selectElements: (ids: string[]) => void;
+
+  /** Add an element to the selection, or remove it if already selected */
+  toggleElementSelection: (id: string) => void;
+
+  /** Select every visible, unlocked element */
+  selectAll: () => void;
+
+  /** Select every visible, unlocked element that is not currently selected */
+  invertSelection: () => void;
+
+  /** Get the currently selected element (the primary selection) */
   getSelectedElement: () => EditorElement | null;
 
+  /** Get all selected elements, in selection order */
+  getSelectedElements: () => EditorElement[];
+
   /** Get all elements */
   getAllElements: () => EditorElement[];
 
   /** Move an element by delta */
   moveElement: (id: string, deltaX: number, deltaY: number) => void;
 
+  /** Move several elements by the same delta (defaults to the current selection) */
+  moveElements: (ids: string[] | null, deltaX: number, deltaY: number) => void;
+
   /** Rotate an element */
   rotateElement: (id: string, angle: number) => void;
 
   /** Resize an element */
   resizeElement: (id: string, width: number, height: number) => void;
 
+  /**
+   * Apply a size measured from an element's content (e.g., auto-height text).
+   * Not recorded in history, since the size follows from props that are.
+   */
+  setAutoSize: (id: string, size: { width: number; height: number }) => void;
+
   /** Update element's z-index */
   updateZIndex: (id: string, zIndex: number) => void;
 
@@ -253,19 +631,124 @@ export interface EditorAPI {
   /** Clear undo/redo history */
   clearHistory: () => void;
 
+  /** List the history, oldest state first (the first entry is the initial state) */
+  getHistory: () => HistoryEntry[];
+
+  /** Undo or redo until the history entry at `index` is the current state */
+  goToHistory: (index: number) => void;
+
   /** Load elements without recording history (for initial load) */
   loadElements: (elements: EditorElement[]) => void;
 
+  /** Load document fields (elements, canvas size, background) without recording history */
+  loadDocument: (document: Partial<EditorDocument>) => void;
+
+  /** Resize the canvas */
+  setCanvasSize: (width: number, height: number) => void;
+
+  /** Change the background color and/or image (an empty image clears it) */
+  setBackground: (background: { color?: EditorFill; image?: string }) => void;
+
   /** Copy an element to clipboard (returns element data) */
   copyElement: (id?: string | null) => EditorElement | null;
 
+  /** Copy several elements (defaults to the current selection) */
+  copyElements: (ids?: string[] | null) => EditorElement[];
+
   /** Duplicate the selected element with an offset */
   duplicateElement: (id?: string | null, offset?: { x: number; y: number }) => void;
 
+  /** Duplicate several elements (defaults to the current selection) and select the copies */
+  duplicateElements: (ids?: string[] | null, offset?: { x: number; y: number }) => void;
+
   /** Paste a copied element with an offset */
   pasteElement: (copiedElement: EditorElement, offset?: { x: number; y: number }) => void;
+
+  /** Paste several copied elements with an offset and select them */
+  pasteElements: (copiedElements: EditorElement[], offset?: { x: number; y: number }) => void;
+
+  /** Group several elements (defaults to the current selection); returns the new group ID */
+  groupElements: (ids?: string[] | null) => string | null;
+
+  /** Dissolve a group (defaults to the selected element) and select its children */
+  ungroup: (id?: string | null) => void;
+
+  /**
+   * Run several mutations as a single undo step.
+   * `fn` must be synchronous; if it throws, every change it made is rolled back.
+   */
+  batch: <T>(fn: () => T, label?: string) => T;
+
+  /** Start recording mutations into a single undo step (transactions can be nested) */
+  beginTransaction: (label?: string) => void;
+
+  /** Commit the current transaction as one undo step */
+  commitTransaction: () => void;
+
+  /**
+   * Discard every change made since the matching `beginTransaction`. Rolling back a nested
+   * transaction keeps the outer one open with the changes made before the nested one began.
+   */
+  rollback: () => void;
+
+  /** Listen for a specific kind of change; returns an unsubscribe function */
+  on: <E extends EditorEventName>(event: E, handler: EditorEventHandler<E>) => () => void;
+}
+
+/**
+ * A partial update targeting a single element, used by batch operations
+ */
+export interface ElementUpdate {
+  /** ID of the element to update */
+  id: string;
+
+  /** Properties to merge into the element */
+  updates: Partial<EditorElement>;
 }
 
+/**
+ * Payloads of the events emitted through `EditorAPI.on`.
+ * Events describe state changes, whatever caused them (edits, undo/redo, imports, loads).
+ */
+export interface EditorEventMap {
+  /** A top-level element was created (added, pasted or duplicated) */
+  "element:added": { element: EditorElement };
+
+  /** A top-level element changed; `changedKeys` lists the properties that differ */
+  "element:updated": {
+    element: EditorElement;
+    previous: EditorElement;
+    changedKeys: (keyof EditorElement)[];
+  };
+
+  /** A top-level element was deleted */
+  "element:removed": { element: EditorElement };
+
+  /** The selected elements changed */
+  "selection:changed": {
+    selectedElementIds: string[];
+    selectedElementId: string | null;
+    previousIds: string[];
+  };
+
+  /** A step was recorded, undone or redone, or the history was cleared */
+  "history:changed": { canUndo: boolean; canRedo: boolean };
+
+  /** The canvas size changed */
+  "canvas:resized": { width: number; height: number; previous: { width: number; height: number } };
+}
+
+/** Name of an editor event */
+export type EditorEventName = keyof EditorEventMap;
+
+/** Handler for an editor event */
+export type EditorEventHandler<E extends EditorEventName> = (payload: EditorEventMap[E]) => void;
+
+/** An emitted editor event, tagged with its name */
+export type EditorEvent = {
+  [E in EditorEventName]: { type: E; payload: EditorEventMap[E] };
+}[EditorEventName];
+
 // ============================================================================
 // Canvas Export/Import
 // ============================================================================
@@ -281,6 +764,15 @@ export interface CanvasExport {
   /** All elements on the canvas */
   elements: EditorElement[];
 
+  /** Background color or gradient behind the canvas */
+  backgroundColor?: EditorFill;
+
+  /** Background image (asset filename) */
+  backgroundImage?: string;
+
+  /** Font families used by the elements, to load before drawing */
+  fonts?: string[];
+
   /** Optional metadata */
   metadata?: {
     version?: string;
@@ -460,6 +952,9 @@ export interface TopbarConfig {
   /** Show snap guides toggle */
   showSnapGuides?: boolean;
 
+  /** Show group/ungroup buttons */
+  showGroup?: boolean;
+
   /** Custom actions to add before default controls (left side) */
   actionsStart?: CustomEditorAction[];
 
@@ -476,6 +971,11 @@ export interface TopbarConfig {
   customActions?: CustomEditorAction[];
 }
 
+/**
+ * Canvas interaction tool: "select" picks and transforms elements, "pen" draws paths
+ */
+export type EditorTool = "select" | "pen";
+
 /**
  * Configuration for toolbar controls visibility
  */
@@ -506,6 +1006,26 @@ export interface ToolbarConfig {
 // Editor Mode Configuration
 // ============================================================================
 
+/**
+ * A face of a custom font
+ */
+export interface EditorFontSource {
+  /**
+   * Font file URL, a CSS `src` value (e.g., `url(font.woff2) format("woff2")`)
+   * or the binary font data
+   */
+  source: string | BufferSource;
+
+  /** Weight, style and other settings of this face */
+  descriptors?: FontFaceDescriptors;
+}
+
+/**
+ * Custom fonts by family name: a font file URL, a face, or several faces
+ * (e.g., regular and bold)
+ */
+export type EditorFontMap = Record<string, string | EditorFontSource | EditorFontSource[]>;
+
 /**
  * Configuration for different editor modes (Card Editor, Playground, etc.)
  */
@@ -544,15 +1064,32 @@ export interface EditorMode {
   /** Whether to snap to grid */
   snapToGrid?: boolean;
 
-  /** Background color */
-  backgroundColor?: string;
+  /** Background color or gradient */
+  backgroundColor?: EditorFill;
 
   /** Background image (asset filename) */
   backgroundImage?: string;
 
-  /** Optional context data to pass to element renderers */
+  /**
+   * Optional context data to pass to element renderers.
+   * Built-in elements read `imageUrls` (asset key to URL), `iconUrls`
+   * (icon token name to URL or asset key, see `IconUrlMap`) and `imageAtlases`
+   * (sprite sheets for `atlas#frameName` image sources, see `ImageAtlasMap`).
+   */
   context?: Record<string, any>;
 
+  /**
+   * Custom fonts, by family name. They are loaded when the editor opens, offered by
+   * `"font"` inspector fields, and text is re-measured once they finish loading.
+   */
+  fonts?: EditorFontMap;
+
+  /** Maximum number of undo steps kept in history (defaults to 100, 0 = unlimited) */
+  maxHistory?: number;
+
+  /** Middleware that validates, rewrites or cancels actions before they are applied */
+  middleware?: EditorMiddleware[];
+
   /** Custom asset picker component */
   assetPickerComponent?: React.ComponentType<any>;
 
@@ -622,6 +1159,12 @@ export interface VisualEditorProps {
   /** Whether to show the inspector panel */
   showInspector?: boolean;
 
+  /** Maximum number of undo steps kept in history (overrides the mode, 0 = unlimited) */
+  maxHistory?: number;
+
+  /** Middleware run on every action, after the mode's middleware */
+  middleware?: EditorMiddleware[];
+
   /** Custom CSS class */
   className?: string;
 
@@ -634,15 +1177,49 @@ export interface VisualEditorProps {
 // ============================================================================
 
 /**
- * Internal editor state (not exposed externally)
+ * The document being edited: everything that is saved, exported and covered by undo/redo
  */
-export interface EditorState {
+export interface EditorDocument {
   elements: EditorElement[];
-  selectedElementId: string | null;
   canvasSize: {
     width: number;
     height: number;
   };
+  /** Background color or gradient behind the canvas */
+  backgroundColor?: EditorFill;
+  /** Background image (asset filename) */
+  backgroundImage?: string;
+}
+
+/**
+ * A recorded history step: the document on the other side of the step and what the step did
+ */
+export interface HistoryStep {
+  document: EditorDocument;
+  /** Human-readable description of the step (e.g. "Move Title") */
+  label: string;
+}
+
+/**
+ * An entry of the history list returned by `EditorAPI.getHistory`
+ */
+export interface HistoryEntry {
+  /** Position in the history, pass it to `goToHistory` to jump to this state */
+  index: number;
+  /** Description of the step that produced this state */
+  label: string;
+  /** Whether this state is undone ("future"), applied ("past") or the current one */
+  status: "past" | "current" | "future";
+}
+
+/**
+ * Internal editor state (not exposed externally)
+ */
+export interface EditorState extends EditorDocument {
+  /** Primary selection (the most recently selected element) */
+  selectedElementId: string | null;
+  /** All selected element IDs, in selection order (the last one is the primary selection) */
+  selectedElementIds: string[];
   zoom: number;
   pan: {
     x: number;
@@ -650,26 +1227,82 @@ export interface EditorState {
   };
   mode: EditorMode | null;
   history: {
-    past: EditorElement[][];
-    future: EditorElement[][];
+    /** Undoable steps; unchanged element objects are shared between snapshots */
+    past: HistoryStep[];
+    /** Redoable steps, next one first */
+    future: HistoryStep[];
+    /** Maximum number of undo steps kept (0 = unlimited) */
+    maxSize: number;
+    /** Time window (ms) in which repeated edits of the same properties are merged */
+    coalesceWindow: number;
+    /** Key and time of the last recorded edit, used for coalescing */
+    lastEdit: { key: string; time: number } | null;
+    /** Label of the oldest entry: the last step dropped beyond `maxSize`, if any */
+    initialLabel: string;
   };
+  /** Pending transaction; mutations are not recorded individually while it is open */
+  transaction: {
+    /** Label describing the transaction */
+    label?: string;
+    /** Document and selection when the transaction started (restored on rollback) */
+    document: EditorDocument;
+    selectedElementIds: string[];
+    /** The same for every open nested transaction, innermost last */
+    nested: { document: EditorDocument; selectedElementIds: string[] }[];
+  } | null;
+}
+
+/**
+ * Options for the editor state hook
+ */
+export interface EditorStateOptions {
+  /** Maximum number of undo steps kept in history (overrides the mode, 0 = unlimited) */
+  maxHistory?: number;
+
+  /** Time window (ms) in which repeated edits of the same properties become one step */
+  coalesceWindow?: number;
+
+  /** Middleware run on every action, after the mode's middleware */
+  middleware?: EditorMiddleware[];
 }
 
+/**
+ * Intercepts an action before it is applied to the state.
+ * Return the action (or a rewritten one) to pass it on, or `null` to cancel it.
+ * Middleware runs synchronously, in registration order, with the state before the action.
+ */
+export type EditorMiddleware = (action: EditorAction, state: EditorState) => EditorAction | null;
+
 /**
  * Actions for state management
  */
 export type EditorAction =
   | { type: "ADD_ELEMENT"; element: EditorElement }
+  | { type: "ADD_ELEMENTS"; elements: EditorElement[] }
   | { type: "UPDATE_ELEMENT"; id: string; updates: Partial<EditorElement> }
+  | { type: "UPDATE_ELEMENTS"; updates: ElementUpdate[] }
+  | { type: "SET_AUTO_SIZE"; id: string; size: { width: number; height: number } } // No history
   | { type: "REMOVE_ELEMENT"; id: string }
+  | { type: "REMOVE_ELEMENTS"; ids: string[] }
   | { type: "SELECT_ELEMENT"; id: string | null }
+  | { type: "SELECT_ELEMENTS"; ids: string[] }
+  | { type: "TOGGLE_ELEMENT_SELECTION"; id: string }
+  | { type: "GROUP_ELEMENTS"; ids: string[]; groupId: string }
+  | { type: "UNGROUP_ELEMENT"; id: string }
+  | { type: "BEGIN_TRANSACTION"; label?: string }
+  | { type: "COMMIT_TRANSACTION" }
+  | { type: "ROLLBACK_TRANSACTION" }
   | { type: "SET_ELEMENTS"; elements: EditorElement[] }
   | { type: "LOAD_ELEMENTS"; elements: EditorElement[] } // Load without recording history
   | { type: "REORDER_ELEMENT"; elementId: string; newIndex: number }
   | { type: "SET_CANVAS_SIZE"; width: number; height: number }
+  | { type: "SET_BACKGROUND"; color?: EditorFill; image?: string }
+  | { type: "SET_DOCUMENT"; document: Partial<EditorDocument> }
+  | { type: "LOAD_DOCUMENT"; document: Partial<EditorDocument> } // Load without recording history
   | { type: "SET_ZOOM"; zoom: number }
   | { type: "SET_PAN"; x: number; y: number }
   | { type: "SET_MODE"; mode: EditorMode }
   | { type: "CLEAR" }
   | { type: "UNDO" }
-  | { type: "REDO" };
+  | { type: "REDO" }
+  | { type: "GO_TO_HISTORY"; index: number };
@@ -0,0 +1,64 @@
+/**
+ * Tests for atlasUtils.ts
+ */
+
+import {
+  ImageAtlasMap,
+  formatAtlasFrameRef,
+  getAtlasFrame,
+  getAtlasFrameEntries,
+} from '../atlasUtils';
+
+describe('atlasUtils', () => {
+  const cards: ImageAtlasMap = {
+    frames: {
+      image: 'frames-atlas',
+      frames: {
+        common: { x: 0, y: 0, width: 100, height: 140 },
+        rare: { x: 100, y: 0, width: 100, height: 140 },
+      },
+    },
+    icons: {
+      image: 'https://example.com/icons.png',
+      frames: { sword: { x: 0, y: 0, width: 32, height: 32 } },
+    },
+  };
+
+  describe('getAtlasFrame', () => {
+    it('should resolve atlas#frame references', () => {
+      expect(getAtlasFrame('frames#rare', cards)).toEqual({
+        image: 'frames-atlas',
+        frame: { x: 100, y: 0, width: 100, height: 140 },
+      });
+      expect(getAtlasFrame(formatAtlasFrameRef('icons', 'sword'), cards)?.image).toBe(
+        'https://example.com/icons.png'
+      );
+    });
+
+    it('should leave other sources alone', () => {
+      expect(getAtlasFrame('frames#epic', cards)).toBeNull();
+      expect(getAtlasFrame('https://example.com/art.svg#layer', cards)).toBeNull();
+      expect(getAtlasFrame('#rare', cards)).toBeNull();
+      expect(getAtlasFrame('frames#rare', undefined)).toBeNull();
+    });
+
+    it('should read atlases registered in a Map', () => {
+      const atlases = new Map(Object.entries(cards));
+      expect(getAtlasFrame('frames#common', atlases)?.frame.width).toBe(100);
+    });
+  });
+
+  describe('getAtlasFrameEntries', () => {
+    it('should list every frame with its reference', () => {
+      const entries = getAtlasFrameEntries(cards);
+
+      expect(entries.map((entry) => entry.ref)).toEqual([
+        'frames#common',
+        'frames#rare',
+        'icons#sword',
+      ]);
+      expect(entries[2]).toMatchObject({ atlas: 'icons', name: 'sword' });
+      expect(getAtlasFrameEntries(undefined)).toEqual([]);
+    });
+  });
+});
@@ -26,6 +26,7 @@ import {
   radToDeg,
   isValidElement,
   isValidCanvasExport,
+  canvasExportToDocument,
 } from '../editorUtils';
 import { EditorElement, CanvasExport } from '../../types';
 
@@ -464,4 +465,37 @@ describe('editorUtils', () => {
       } as any)).toBe(false);
     });
   });
+
+  describe('canvasExportToDocument', () => {
+    it('should map canvas data to document fields', () => {
+      const data: CanvasExport = {
+        width: 1080,
+        height: 720,
+        elements: [],
+        backgroundColor: '#ff0000',
+        backgroundImage: 'bg.png',
+      };
+
+      expect(canvasExportToDocument(data)).toEqual({
+        elements: [],
+        canvasSize: { width: 1080, height: 720 },
+        backgroundColor: '#ff0000',
+        backgroundImage: 'bg.png',
+      });
+    });
+
+    it('should read background from metadata of older exports', () => {
+      const data: CanvasExport = {
+        width: 800,
+        height: 600,
+        elements: [],
+        metadata: { backgroundColor: '#00ff00' },
+      };
+
+      const document = canvasExportToDocument(data);
+
+      expect(document.backgroundColor).toBe('#00ff00');
+      expect(document).not.toHaveProperty('backgroundImage');
+    });
+  });
 });
@@ -0,0 +1,88 @@
+/**
+ * Tests for eventUtils.ts
+ */
+
+import { getChangedKeys, getStateEvents } from '../eventUtils';
+import { createInitialState, editorReducer } from '../../core/editorReducer';
+import { createElement } from '../../utils/editorUtils';
+import { EditorAction, EditorElement, EditorState } from '../../types';
+
+const makeElement = (id: string): EditorElement => ({
+  ...createElement('text', { content: id }),
+  id,
+  visible: true,
+  locked: false,
+});
+
+const withElements = (elements: EditorElement[]): EditorState =>
+  editorReducer(createInitialState(null), { type: 'LOAD_ELEMENTS', elements });
+
+describe('eventUtils', () => {
+  describe('getChangedKeys', () => {
+    it('should list the properties that differ', () => {
+      const before = makeElement('a');
+      const after = { ...before, position: { x: 5, y: 5 }, rotation: 45 };
+
+      expect(getChangedKeys(before, after).sort()).toEqual(['position', 'rotation']);
+    });
+  });
+
+  describe('getStateEvents', () => {
+    it('should report added, updated and removed elements', () => {
+      const a = makeElement('a');
+      const b = makeElement('b');
+      const previous = withElements([a, b]);
+      const c = makeElement('c');
+      const next = { ...previous, elements: [{ ...a, rotation: 90 }, c] };
+
+      const events = getStateEvents(previous, next);
+
+      expect(events.map((event) => event.type)).toEqual([
+        'element:removed',
+        'element:updated',
+        'element:added',
+      ]);
+      expect(events[1].payload).toEqual(
+        expect.objectContaining({ changedKeys: ['rotation'], previous: a })
+      );
+    });
+
+    it('should report selection, canvas and history changes', () => {
+      const previous = withElements([makeElement('a')]);
+      const resized = editorReducer(previous, { type: 'SET_CANVAS_SIZE', width: 10, height: 20 });
+      const next = editorReducer(resized, { type: 'SELECT_ELEMENT', id: 'a' });
+
+      expect(getStateEvents(previous, next)).toEqual([
+        {
+          type: 'canvas:resized',
+          payload: { width: 10, height: 20, previous: { width: 800, height: 600 } },
+        },
+        {
+          type: 'selection:changed',
+          payload: { selectedElementIds: ['a'], selectedElementId: 'a', previousIds: [] },
+        },
+        { type: 'history:changed', payload: { canUndo: true, canRedo: false } },
+      ]);
+    });
+
+    it('should only report added and removed elements for actions creating or deleting them', () => {
+      const previous = withElements([makeElement('a'), makeElement('b')]);
+      const group: EditorAction = { type: 'GROUP_ELEMENTS', ids: ['a', 'b'], groupId: 'group' };
+      const grouped = editorReducer(previous, group);
+      const types = (events: { type: string }[]) => events.map((event) => event.type);
+
+      expect(types(getStateEvents(previous, grouped, group))).not.toContain('element:added');
+      expect(types(getStateEvents(grouped, previous, { type: 'UNDO' }))).not.toContain(
+        'element:removed'
+      );
+      expect(
+        types(getStateEvents(grouped, previous, { type: 'REMOVE_ELEMENT', id: 'group' }))
+      ).toContain('element:removed');
+    });
+
+    it('should not report anything for identical states', () => {
+      const state = withElements([makeElement('a')]);
+      expect(getStateEvents(state, { ...state })).toEqual([]);
+    });
+  });
+});
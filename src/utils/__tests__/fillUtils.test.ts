@@ -0,0 +1,115 @@
+/**
+ * Tests for fillUtils.ts
+ */
+
+import {
+  convertFill,
+  getCssFill,
+  getFillColor,
+  getKonvaFill,
+  getSortedStops,
+  isGradientFill,
+} from '../fillUtils';
+import { LinearGradientFill, RadialGradientFill } from '../../types';
+
+describe('fillUtils', () => {
+  const linear: LinearGradientFill = {
+    type: 'linear',
+    angle: 0,
+    stops: [
+      { offset: 1, color: '#0000ff' },
+      { offset: 0, color: '#ff0000' },
+    ],
+  };
+  const radial: RadialGradientFill = {
+    type: 'radial',
+    centerX: 0,
+    centerY: 0,
+    stops: [
+      { offset: 0, color: '#ffffff' },
+      { offset: 1.5, color: '#000000' },
+    ],
+  };
+
+  describe('isGradientFill', () => {
+    it('should tell gradients from colors', () => {
+      expect(isGradientFill(linear)).toBe(true);
+      expect(isGradientFill(radial)).toBe(true);
+      expect(isGradientFill('#ff0000')).toBe(false);
+      expect(isGradientFill(undefined)).toBe(false);
+    });
+  });
+
+  describe('getSortedStops', () => {
+    it('should sort stops and keep offsets between 0 and 1', () => {
+      expect(getSortedStops(radial.stops).map((stop) => stop.offset)).toEqual([0, 1]);
+      expect(getSortedStops(linear.stops)[0].color).toBe('#ff0000');
+    });
+  });
+
+  describe('getFillColor', () => {
+    it('should use the first stop of gradients', () => {
+      expect(getFillColor('#123456')).toBe('#123456');
+      expect(getFillColor(linear)).toBe('#ff0000');
+      expect(getFillColor(undefined, '#ffffff')).toBe('#ffffff');
+    });
+  });
+
+  describe('getKonvaFill', () => {
+    const box = { width: 200, height: 100 };
+
+    it('should pass colors through', () => {
+      expect(getKonvaFill('#ff0000', box)).toEqual({ fill: '#ff0000', fillPriority: 'color' });
+    });
+
+    it('should run linear gradients through the center to the corners', () => {
+      const attrs = getKonvaFill(linear, box);
+      expect(attrs.fillPriority).toBe('linear-gradient');
+      expect(attrs.fillLinearGradientStartPoint).toEqual({ x: 0, y: 50 });
+      expect(attrs.fillLinearGradientEndPoint).toEqual({ x: 200, y: 50 });
+      expect(attrs.fillLinearGradientColorStops).toEqual([0, '#ff0000', 1, '#0000ff']);
+
+      const diagonal = getKonvaFill({ ...linear, angle: 45 }, { width: 100, height: 100 });
+      expect(diagonal.fillLinearGradientStartPoint?.x).toBeCloseTo(0);
+      expect(diagonal.fillLinearGradientEndPoint?.y).toBeCloseTo(100);
+    });
+
+    it('should reach the farthest corner with radial gradients', () => {
+      const attrs = getKonvaFill(radial, box);
+      expect(attrs.fillPriority).toBe('radial-gradient');
+      expect(attrs.fillRadialGradientStartPoint).toEqual({ x: 0, y: 0 });
+      expect(attrs.fillRadialGradientEndRadius).toBeCloseTo(Math.hypot(200, 100));
+    });
+
+    it('should place gradients relative to an offset shape', () => {
+      const attrs = getKonvaFill(linear, box, { x: 50, y: 20 });
+      expect(attrs.fillLinearGradientStartPoint).toEqual({ x: -50, y: 30 });
+    });
+  });
+
+  describe('getCssFill', () => {
+    it('should match the canvas drawing', () => {
+      expect(getCssFill('#ff0000')).toBe('#ff0000');
+      expect(getCssFill(linear)).toBe('linear-gradient(90deg, #ff0000 0%, #0000ff 100%)');
+      expect(getCssFill(radial)).toBe(
+        'radial-gradient(circle farthest-corner at 0% 0%, #ffffff 0%, #000000 100%)'
+      );
+    });
+  });
+
+  describe('convertFill', () => {
+    it('should keep colors when switching between kinds', () => {
+      expect(convertFill('#ff0000', 'linear')).toEqual({
+        type: 'linear',
+        angle: 90,
+        stops: [
+          { offset: 0, color: '#ff0000' },
+          { offset: 1, color: '#ffffff' },
+        ],
+      });
+      expect(convertFill(linear, 'radial')).toEqual({ type: 'radial', stops: linear.stops });
+      expect(convertFill(linear, 'linear')).toBe(linear);
+      expect(convertFill(linear, 'solid')).toBe('#ff0000');
+    });
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * Tests for fontUtils.ts
+ */
+
+import {
+  getElementFonts,
+  getFontFamilyStyle,
+  getFontPickerFamilies,
+  getFontSources,
+  loadFonts,
+  toFontFaceSource,
+} from '../fontUtils';
+import { EditorElement, EditorFontMap } from '../../types';
+import { createElement } from '../editorUtils';
+
+describe('fontUtils', () => {
+  const fonts: EditorFontMap = {
+    Outfit: '/fonts/outfit.woff2',
+    Beleren: [
+      { source: '/fonts/beleren.woff2' },
+      { source: '/fonts/beleren-bold.woff2', descriptors: { weight: 'bold' } },
+    ],
+  };
+
+  describe('getFontSources', () => {
+    it('should list the faces of a family in any registry form', () => {
+      expect(getFontSources(fonts, 'Outfit')).toEqual([{ source: '/fonts/outfit.woff2' }]);
+      expect(getFontSources(fonts, 'Beleren')).toHaveLength(2);
+      expect(getFontSources(fonts, 'Arial')).toEqual([]);
+      expect(getFontSources(undefined, 'Outfit')).toEqual([]);
+    });
+  });
+
+  describe('toFontFaceSource', () => {
+    it('should wrap URLs and keep CSS references', () => {
+      expect(toFontFaceSource('/fonts/a b.woff2')).toBe('url("/fonts/a b.woff2")');
+      expect(toFontFaceSource('local(Arial)')).toBe('local(Arial)');
+      expect(toFontFaceSource('url(/fonts/a.woff2) format("woff2")')).toBe(
+        'url(/fonts/a.woff2) format("woff2")'
+      );
+    });
+  });
+
+  describe('loadFonts', () => {
+    it('should resolve to no fonts where FontFace is unavailable', async () => {
+      await expect(loadFonts(fonts)).resolves.toEqual([]);
+    });
+
+    it('should skip fonts with invalid descriptors instead of rejecting', async () => {
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+      const add = jest.fn();
+      Object.defineProperty(document, 'fonts', { value: { add }, configurable: true });
+      (global as { FontFace?: unknown }).FontFace = jest.fn(() => {
+        throw new SyntaxError('Invalid descriptor');
+      });
+
+      try {
+        await expect(loadFonts(fonts)).resolves.toEqual([]);
+        expect(add).not.toHaveBeenCalled();
+        expect(warn).toHaveBeenCalled();
+      } finally {
+        delete (global as { FontFace?: unknown }).FontFace;
+        delete (document as { fonts?: unknown }).fonts;
+        warn.mockRestore();
+      }
+    });
+  });
+
+  describe('font picker', () => {
+    it('should list registered fonts first and keep the current value', () => {
+      expect(getFontPickerFamilies(fonts, ['Arial', 'Outfit'], 'Comic Sans MS')).toEqual({
+        registered: ['Outfit', 'Beleren'],
+        other: ['Arial', 'Comic Sans MS'],
+      });
+      expect(getFontPickerFamilies(undefined, ['Arial'], 'Arial')).toEqual({
+        registered: [],
+        other: ['Arial'],
+      });
+    });
+
+    it('should quote families for CSS', () => {
+      expect(getFontFamilyStyle('Times New Roman')).toBe('"Times New Roman", sans-serif');
+    });
+  });
+
+  describe('getElementFonts', () => {
+    it('should collect families from props, rich text runs and group children', () => {
+      const text = createElement('text', { content: 'A', fontFamily: 'Outfit' });
+      const richText = createElement('richText', {
+        fontFamily: 'Arial',
+        runs: [{ text: 'B', fontFamily: 'Beleren' }, { text: 'C' }],
+      });
+      const group = createElement('group', {
+        children: [createElement('text', { content: 'D', fontFamily: ' Outfit ' })],
+      });
+      const image = createElement('image', { src: 'a.png' });
+
+      expect(getElementFonts([text, richText, group, image] as EditorElement[])).toEqual([
+        'Outfit',
+        'Arial',
+        'Beleren',
+      ]);
+    });
+  });
+});
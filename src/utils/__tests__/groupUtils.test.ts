@@ -0,0 +1,160 @@
+/**
+ * Tests for groupUtils.ts
+ */
+
+import {
+  isGroupElement,
+  getElementBounds,
+  createGroupElement,
+  getUngroupedChildren,
+  groupElementsInList,
+  ungroupElementInList,
+  updateGroupChild,
+} from '../groupUtils';
+import { createElement } from '../editorUtils';
+import { EditorElement } from '../../types';
+
+const makeElement = (
+  id: string,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  options: Partial<EditorElement> = {}
+): EditorElement => ({
+  ...createElement('text', { content: id }, { position: { x, y }, size: { width, height } }),
+  id,
+  ...options,
+});
+
+describe('groupUtils', () => {
+  describe('getElementBounds', () => {
+    it('should return the element rect when not rotated', () => {
+      const el = makeElement('a', 10, 20, 100, 50);
+      expect(getElementBounds(el)).toEqual({ x: 10, y: 20, width: 100, height: 50 });
+    });
+
+    it('should account for rotation around the top-left corner', () => {
+      const el = makeElement('a', 100, 0, 100, 50, { rotation: 90 });
+      const bounds = getElementBounds(el);
+
+      expect(bounds.x).toBeCloseTo(50);
+      expect(bounds.y).toBeCloseTo(0);
+      expect(bounds.width).toBeCloseTo(50);
+      expect(bounds.height).toBeCloseTo(100);
+    });
+  });
+
+  describe('createGroupElement', () => {
+    it('should wrap elements in a group fitting their bounds', () => {
+      const a = makeElement('a', 10, 20, 100, 50, { zIndex: 0 });
+      const b = makeElement('b', 60, 100, 40, 40, { zIndex: 3 });
+
+      const group = createGroupElement('g', [a, b]);
+
+      expect(isGroupElement(group)).toBe(true);
+      expect(group.position).toEqual({ x: 10, y: 20 });
+      expect(group.size).toEqual({ width: 100, height: 120 });
+      expect(group.props.contentSize).toEqual({ width: 100, height: 120 });
+      expect(group.zIndex).toBe(3);
+      expect(group.props.children.map((c) => c.position)).toEqual([
+        { x: 0, y: 0 },
+        { x: 50, y: 80 },
+      ]);
+    });
+  });
+
+  describe('getUngroupedChildren', () => {
+    it('should restore the original positions of an untouched group', () => {
+      const a = makeElement('a', 10, 20, 100, 50, { rotation: 30 });
+      const b = makeElement('b', 200, 100, 40, 40);
+
+      const children = getUngroupedChildren(createGroupElement('g', [a, b]));
+
+      expect(children[0].position.x).toBeCloseTo(10);
+      expect(children[0].position.y).toBeCloseTo(20);
+      expect(children[0].rotation).toBe(30);
+      expect(children[1].position.x).toBeCloseTo(200);
+      expect(children[1].position.y).toBeCloseTo(100);
+    });
+
+    it('should bake group rotation and scale into the children', () => {
+      const a = makeElement('a', 0, 0, 50, 50);
+      const b = makeElement('b', 50, 0, 50, 50);
+      const group = {
+        ...createGroupElement('g', [a, b]),
+        position: { x: 100, y: 100 },
+        size: { width: 200, height: 100 },
+        rotation: 90,
+      };
+
+      const [first, second] = getUngroupedChildren(group);
+
+      expect(first.position.x).toBeCloseTo(100);
+      expect(first.position.y).toBeCloseTo(100);
+      expect(first.size).toEqual({ width: 100, height: 100 });
+      expect(first.rotation).toBe(90);
+      // (100, 0) in scaled group space, rotated by 90 degrees
+      expect(second.position.x).toBeCloseTo(100);
+      expect(second.position.y).toBeCloseTo(200);
+    });
+  });
+
+  describe('groupElementsInList / ungroupElementInList', () => {
+    it('should replace members with a group at the topmost member position', () => {
+      const elements = [
+        makeElement('a', 0, 0, 10, 10, { zIndex: 0 }),
+        makeElement('b', 0, 0, 10, 10, { zIndex: 1 }),
+        makeElement('c', 0, 0, 10, 10, { zIndex: 2 }),
+        makeElement('d', 0, 0, 10, 10, { zIndex: 3 }),
+      ];
+
+      const grouped = groupElementsInList(elements, ['a', 'c'], 'g');
+
+      expect(grouped.map((el) => el.id)).toEqual(['b', 'g', 'd']);
+      expect(grouped.map((el) => el.zIndex)).toEqual([0, 1, 2]);
+
+      const ungrouped = ungroupElementInList(grouped, 'g');
+
+      expect(ungrouped.map((el) => el.id)).toEqual(['b', 'a', 'c', 'd']);
+      expect(ungrouped.map((el) => el.zIndex)).toEqual([0, 1, 2, 3]);
+    });
+
+    it('should keep the elements whose z-index is unchanged', () => {
+      const elements = [
+        makeElement('a', 0, 0, 10, 10, { zIndex: 0 }),
+        makeElement('b', 0, 0, 10, 10, { zIndex: 1 }),
+        makeElement('c', 0, 0, 10, 10, { zIndex: 2 }),
+      ];
+
+      const grouped = groupElementsInList(elements, ['b', 'c'], 'g');
+      expect(grouped[0]).toBe(elements[0]);
+
+      const ungrouped = ungroupElementInList(grouped, 'g');
+      expect(ungrouped[0]).toBe(elements[0]);
+    });
+
+    it('should leave the list untouched when ungrouping a non-group', () => {
+      const elements = [makeElement('a', 0, 0, 10, 10)];
+      expect(ungroupElementInList(elements, 'a')).toBe(elements);
+    });
+  });
+
+  describe('updateGroupChild', () => {
+    it('should update a nested child', () => {
+      const inner = createGroupElement('inner', [makeElement('a', 0, 0, 10, 10)]);
+      const outer = createGroupElement('outer', [inner, makeElement('b', 20, 20, 10, 10)]);
+
+      const updated = updateGroupChild(outer, 'a', { visible: false });
+      const updatedInner = updated.props.children.find((c) => c.id === 'inner');
+
+      expect(updated).not.toBe(outer);
+      expect(updatedInner?.props.children[0].visible).toBe(false);
+    });
+
+    it('should return the same group when the child is missing', () => {
+      const group = createGroupElement('g', [makeElement('a', 0, 0, 10, 10)]);
+      expect(updateGroupChild(group, 'missing', { visible: false })).toBe(group);
+    });
+  });
+});
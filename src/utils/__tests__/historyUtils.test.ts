@@ -0,0 +1,77 @@
+/**
+ * Tests for historyUtils.ts
+ */
+
+import { getActionLabel, getElementLabel } from '../historyUtils';
+import { createElement } from '../editorUtils';
+
+describe('historyUtils', () => {
+  const title = { ...createElement('text', { content: 'Hello', fontSize: 16 }), displayName: 'Title' };
+  const image = createElement('image', { src: 'a.png' });
+  const elements = [title, image];
+
+  describe('getElementLabel', () => {
+    it('should prefer the display name', () => {
+      expect(getElementLabel(title)).toBe('Title');
+    });
+
+    it('should fall back to the capitalized type', () => {
+      expect(getElementLabel(image)).toBe('Image');
+    });
+  });
+
+  describe('getActionLabel', () => {
+    it('should label additions and removals', () => {
+      expect(getActionLabel(elements, { type: 'ADD_ELEMENT', element: image })).toBe('Add Image');
+      expect(getActionLabel(elements, { type: 'REMOVE_ELEMENT', id: title.id })).toBe('Delete Title');
+      expect(getActionLabel(elements, { type: 'REMOVE_ELEMENTS', ids: [title.id, image.id] })).toBe(
+        'Delete 2 elements'
+      );
+    });
+
+    it('should label moves, transforms and prop changes', () => {
+      expect(
+        getActionLabel(elements, {
+          type: 'UPDATE_ELEMENT',
+          id: title.id,
+          updates: { position: { x: 1, y: 1 } },
+        })
+      ).toBe('Move Title');
+      expect(
+        getActionLabel(elements, {
+          type: 'UPDATE_ELEMENT',
+          id: title.id,
+          updates: { position: { x: 1, y: 1 }, size: { width: 5, height: 5 }, rotation: 0 },
+        })
+      ).toBe('Transform Title');
+      expect(
+        getActionLabel(elements, {
+          type: 'UPDATE_ELEMENT',
+          id: title.id,
+          updates: { props: { ...title.props, fontSize: 24 } },
+        })
+      ).toBe('Change fontSize');
+    });
+
+    it('should label multi-element moves', () => {
+      expect(
+        getActionLabel(elements, {
+          type: 'UPDATE_ELEMENTS',
+          updates: [
+            { id: title.id, updates: { position: { x: 1, y: 0 } } },
+            { id: image.id, updates: { position: { x: 1, y: 0 } } },
+          ],
+        })
+      ).toBe('Move 2 elements');
+    });
+
+    it('should label canvas-level changes', () => {
+      expect(getActionLabel(elements, { type: 'SET_CANVAS_SIZE', width: 1, height: 1 })).toBe(
+        'Resize canvas'
+      );
+      expect(getActionLabel(elements, { type: 'SET_BACKGROUND', color: '#fff' })).toBe(
+        'Change background color'
+      );
+    });
+  });
+});
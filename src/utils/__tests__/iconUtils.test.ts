@@ -0,0 +1,88 @@
+/**
+ * Tests for iconUtils.ts
+ */
+
+import {
+  formatIconToken,
+  getIconEntries,
+  hasIconTokens,
+  parseIconTokens,
+  resolveIconUrl,
+} from '../iconUtils';
+import { layoutRichText } from '../richTextUtils';
+
+const icons = { attack: 'https://example.com/attack.png', 'mana:red': 'mana-red' };
+
+describe('iconUtils', () => {
+  describe('parseIconTokens', () => {
+    it('should split text around icon tokens', () => {
+      expect(parseIconTokens('Pay {mana:red}: deal 2')).toEqual([
+        { text: 'Pay ' },
+        { text: '{mana:red}', icon: 'mana:red' },
+        { text: ': deal 2' },
+      ]);
+    });
+
+    it('should keep unknown tokens as text', () => {
+      const known = (name: string) => name === 'attack';
+      expect(parseIconTokens('{attack}{defense}!', known)).toEqual([
+        { text: '{attack}', icon: 'attack' },
+        { text: '{defense}!' },
+      ]);
+    });
+  });
+
+  it('should detect resolvable tokens', () => {
+    expect(hasIconTokens('Gain {attack}', icons)).toBe(true);
+    expect(hasIconTokens('Gain {speed}', icons)).toBe(false);
+    expect(hasIconTokens('Gain {attack}', undefined)).toBe(false);
+  });
+
+  it('should resolve icon URLs directly or through imageUrls', () => {
+    const imageUrls = new Map([['mana-red', 'blob:mana']]);
+
+    expect(resolveIconUrl('attack', icons, imageUrls)).toBe('https://example.com/attack.png');
+    expect(resolveIconUrl('mana:red', icons, imageUrls)).toBe('blob:mana');
+    expect(resolveIconUrl('mana:blue', icons, imageUrls)).toBeUndefined();
+  });
+
+  it('should list icons from maps and records', () => {
+    expect(getIconEntries(new Map([['a', 'x']]))).toEqual([['a', 'x']]);
+    expect(getIconEntries(icons).map(([name]) => name)).toEqual(['attack', 'mana:red']);
+    expect(formatIconToken('attack')).toBe('{attack}');
+  });
+
+  describe('inline icon layout', () => {
+    const measure = (text: string) => text.length * 5;
+    const options = {
+      width: 100,
+      fontSize: 10,
+      color: '#000000',
+      lineHeight: 1.5,
+      measure,
+      hasIcon: (name: string) => name in icons,
+    };
+
+    it('should lay out icons as squares at the line height', () => {
+      const { lines } = layoutRichText([{ text: 'Deal {attack} 2' }], options);
+      const icon = lines[0].fragments.find((fragment) => fragment.icon);
+
+      expect(icon).toMatchObject({ icon: 'attack', x: 25, width: 15 });
+      expect(lines[0].fragments.map((fragment) => fragment.text)).toEqual([
+        'Deal ',
+        '{attack}',
+        ' 2',
+      ]);
+    });
+
+    it('should wrap icons with the word they touch', () => {
+      const { lines } = layoutRichText([{ text: 'abcdefghijklmnop {attack}x' }], {
+        ...options,
+        width: 90,
+      });
+
+      expect(lines).toHaveLength(2);
+      expect(lines[1].fragments.map((fragment) => fragment.text)).toEqual(['{attack}', 'x']);
+    });
+  });
+});
@@ -0,0 +1,263 @@
+/**
+ * Tests for imageUtils.ts
+ */
+
+import {
+  FULL_IMAGE_CROP,
+  getImageCropUpdate,
+  getImageFilterConfig,
+  getImageFrame,
+  getImageLayout,
+  getNineSlicePatches,
+  hasImageSlice,
+  normalizeImageCrop,
+  parseHexColor,
+  resolveImageSrc,
+} from '../imageUtils';
+import { EditorElement, ImageElementProps } from '../../types';
+import { createElement } from '../editorUtils';
+
+describe('imageUtils', () => {
+  const imageSize = { width: 400, height: 200 };
+
+  describe('resolveImageSrc', () => {
+    it('should look up asset keys and keep full URLs', () => {
+      const imageUrls = new Map([['hero', 'blob:hero']]);
+      expect(resolveImageSrc('hero', imageUrls)).toBe('blob:hero');
+      expect(resolveImageSrc('data:image/png;base64,AA', imageUrls)).toBe(
+        'data:image/png;base64,AA'
+      );
+      expect(resolveImageSrc('missing.png', imageUrls)).toBe('missing.png');
+    });
+  });
+
+  describe('normalizeImageCrop', () => {
+    it('should show the whole image without a crop', () => {
+      expect(normalizeImageCrop()).toEqual(FULL_IMAGE_CROP);
+    });
+
+    it('should keep the crop inside the image', () => {
+      expect(normalizeImageCrop({ x: -0.5, y: 0.5, width: 2, height: 1 })).toEqual({
+        x: 0,
+        y: 0.5,
+        width: 1,
+        height: 0.5,
+      });
+    });
+  });
+
+  describe('getImageLayout', () => {
+    const crop = { x: 0.5, y: 0, width: 0.5, height: 1 };
+
+    it('should stretch the cropped part over the box by default', () => {
+      expect(getImageLayout(imageSize, { width: 100, height: 100 }, { crop })).toEqual({
+        crop: { x: 200, y: 0, width: 200, height: 200 },
+        x: 0,
+        y: 0,
+        width: 100,
+        height: 100,
+      });
+    });
+
+    it('should fit the image inside the box for contain', () => {
+      expect(getImageLayout(imageSize, { width: 100, height: 100 }, { fit: 'contain' })).toEqual({
+        crop: { x: 0, y: 0, width: 400, height: 200 },
+        x: 0,
+        y: 25,
+        width: 100,
+        height: 50,
+      });
+    });
+
+    it('should centre cover on the focal point within the crop', () => {
+      const box = { width: 100, height: 100 };
+      expect(getImageLayout(imageSize, box, { fit: 'cover' }).crop).toEqual({
+        x: 100,
+        y: 0,
+        width: 200,
+        height: 200,
+      });
+      expect(getImageLayout(imageSize, box, { fit: 'cover', focalX: 0.3 }).crop.x).toBe(20);
+      // The focal point can't pull the view outside the crop
+      expect(getImageLayout(imageSize, box, { fit: 'cover', crop, focalX: 0 }).crop.x).toBe(200);
+    });
+  });
+
+  describe('cropping', () => {
+    const element = {
+      ...createElement<ImageElementProps>(
+        'image',
+        { src: 'art.png' },
+        { position: { x: 50, y: 50 }, size: { width: 200, height: 100 } }
+      ),
+      id: 'image-1',
+    } as EditorElement<ImageElementProps>;
+
+    it('should place the whole image around the drawn part', () => {
+      const layout = getImageLayout(imageSize, element.size, {
+        crop: { x: 0.5, y: 0, width: 0.5, height: 1 },
+      });
+      expect(getImageFrame(imageSize, layout)).toEqual({
+        x: -200,
+        y: 0,
+        width: 400,
+        height: 100,
+      });
+    });
+
+    it('should move the element to the crop rectangle', () => {
+      const frame = { x: 0, y: 0, width: 200, height: 100 };
+      const update = getImageCropUpdate(element, frame, {
+        x: 50,
+        y: 25,
+        width: 100,
+        height: 50,
+      });
+
+      expect(update.position).toEqual({ x: 100, y: 75 });
+      expect(update.size).toEqual({ width: 100, height: 50 });
+      expect(update.props?.crop).toEqual({
+        x: 0.25,
+        y: 0.25,
+        width: 0.5,
+        height: 0.5,
+      });
+    });
+
+    it('should follow the element rotation and keep the rectangle on the image', () => {
+      const frame = { x: 0, y: 0, width: 200, height: 100 };
+      const rotated = { ...element, rotation: 90 };
+      const update = getImageCropUpdate(rotated, frame, {
+        x: 50,
+        y: -20,
+        width: 200,
+        height: 50,
+      });
+
+      expect(update.position?.x).toBeCloseTo(50);
+      expect(update.position?.y).toBeCloseTo(100);
+      expect(update.size).toEqual({ width: 150, height: 30 });
+      expect(update.props?.crop).toEqual({
+        x: 0.25,
+        y: 0,
+        width: 0.75,
+        height: 0.3,
+      });
+    });
+  });
+
+  describe('filters', () => {
+    it('should not filter unadjusted images', () => {
+      expect(getImageFilterConfig({ src: 'art.png', tintColor: '#ff0000' })).toEqual({
+        filters: [],
+        attrs: {},
+      });
+    });
+
+    it('should map adjustments to Konva filters in order', () => {
+      const config = getImageFilterConfig({
+        blur: 4,
+        invert: true,
+        contrast: 20,
+        brightness: -0.2,
+        tintColor: '#f80',
+        tintStrength: 0.5,
+        hueRotate: 90,
+      });
+
+      expect(config.filters).toEqual(['HSL', 'Brighten', 'Contrast', 'RGBA', 'Invert', 'Blur']);
+      expect(config.attrs).toEqual({
+        hue: 90,
+        saturation: 0,
+        brightness: -0.2,
+        contrast: 20,
+        red: 255,
+        green: 136,
+        blue: 0,
+        alpha: 0.5,
+        blurRadius: 4,
+      });
+    });
+
+    it('should combine saturation and grayscale', () => {
+      expect(getImageFilterConfig({ saturation: 1 }).attrs.saturation).toBe(1);
+      expect(getImageFilterConfig({ saturation: -0.5, grayscale: 0.5 }).attrs.saturation).toBe(-2);
+      expect(getImageFilterConfig({ saturation: 1, grayscale: 0.5 }).filters).toEqual([]);
+      expect(getImageFilterConfig({ grayscale: 1 }).attrs.saturation).toBe(-10);
+    });
+
+    it('should parse hex colors', () => {
+      expect(parseHexColor('#102030')).toEqual({ r: 16, g: 32, b: 48 });
+      expect(parseHexColor('red')).toBeNull();
+    });
+  });
+
+  describe('nine-slice', () => {
+    const frameSize = { width: 30, height: 30 };
+    const slice = { top: 10, right: 10, bottom: 10, left: 10 };
+
+    it('should only slice with a positive inset', () => {
+      expect(hasImageSlice()).toBe(false);
+      expect(hasImageSlice({ top: 0, right: 0, bottom: 0, left: 0 })).toBe(false);
+      expect(hasImageSlice({ ...slice, top: 0 })).toBe(true);
+    });
+
+    it('should keep corners and stretch edges and the center', () => {
+      const patches = getNineSlicePatches(frameSize, { width: 100, height: 50 }, { slice });
+
+      expect(patches).toHaveLength(9);
+      // Top-left corner at its own size
+      expect(patches[0]).toEqual({
+        crop: { x: 0, y: 0, width: 10, height: 10 },
+        x: 0,
+        y: 0,
+        width: 10,
+        height: 10,
+      });
+      // Bottom-right corner pinned to the box corner
+      expect(patches).toContainEqual({
+        crop: { x: 20, y: 20, width: 10, height: 10 },
+        x: 90,
+        y: 40,
+        width: 10,
+        height: 10,
+      });
+      // Center stretched over the rest
+      expect(patches).toContainEqual({
+        crop: { x: 10, y: 10, width: 10, height: 10 },
+        x: 10,
+        y: 10,
+        width: 80,
+        height: 30,
+      });
+    });
+
+    it('should tile a whole number of slices', () => {
+      const patches = getNineSlicePatches(
+        frameSize,
+        { width: 100, height: 30 },
+        { slice, sliceMode: 'tile' }
+      );
+      const topEdge = patches.filter((patch) => patch.y === 0 && patch.crop.x === 10);
+
+      // 80px of edge in 10px tiles
+      expect(topEdge).toHaveLength(8);
+      expect(topEdge.map((patch) => patch.width)).toEqual(Array(8).fill(10));
+      expect(topEdge[7].x).toBe(80);
+    });
+
+    it('should shrink corners that are larger than the box', () => {
+      const patches = getNineSlicePatches(frameSize, { width: 10, height: 30 }, { slice });
+      expect(patches.map((patch) => patch.width)).toEqual([5, 5, 5, 5, 5, 5]);
+    });
+
+    it('should slice the cropped part of the image', () => {
+      const patches = getNineSlicePatches(
+        { width: 60, height: 30 },
+        { width: 30, height: 30 },
+        { slice, crop: { x: 0.5, y: 0, width: 0.5, height: 1 } }
+      );
+      expect(patches[0].crop).toEqual({ x: 30, y: 0, width: 10, height: 10 });
+    });
+  });
+});
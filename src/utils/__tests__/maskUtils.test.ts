@@ -0,0 +1,92 @@
+/**
+ * Tests for maskUtils.ts
+ */
+
+import { getClippingMasks, getMaskBelow, getMaskRuns, getMaskToggleUpdates } from '../maskUtils';
+import { EditorElement } from '../../types';
+
+const createElement = (
+  id: string,
+  zIndex: number,
+  flags: Partial<EditorElement> = {}
+): EditorElement => ({
+  id,
+  type: 'shape',
+  position: { x: 0, y: 0 },
+  size: { width: 100, height: 100 },
+  rotation: 0,
+  opacity: 1,
+  zIndex,
+  props: {},
+  ...flags,
+});
+
+describe('maskUtils', () => {
+  // Listed out of order: runs follow the z-index
+  const elements = [
+    createElement('art', 1, { clipped: true }),
+    createElement('frame', 0, { clipMask: true }),
+    createElement('title', 3),
+    createElement('glare', 2, { clipped: true }),
+    createElement('stray', 4, { clipped: true }),
+  ];
+
+  describe('getMaskRuns', () => {
+    it('should group the clipped elements directly above a mask', () => {
+      const runs = getMaskRuns(elements);
+      expect(runs.map((run) => run.element.id)).toEqual(['frame', 'title', 'stray']);
+      expect(runs[0].masked.map((el) => el.id)).toEqual(['art', 'glare']);
+      expect(runs[1].masked).toEqual([]);
+      expect(runs[2].masked).toEqual([]);
+    });
+
+    it('should end a run at the next mask', () => {
+      const runs = getMaskRuns([
+        createElement('a', 0, { clipMask: true }),
+        createElement('b', 1, { clipMask: true, clipped: true }),
+        createElement('c', 2, { clipped: true }),
+      ]);
+      expect(runs.map((run) => run.masked.map((el) => el.id))).toEqual([[], ['c']]);
+    });
+  });
+
+  describe('getClippingMasks', () => {
+    it('should map clipped elements to their mask', () => {
+      const masks = getClippingMasks(elements);
+      expect(masks.get('art')?.id).toBe('frame');
+      expect(masks.get('glare')?.id).toBe('frame');
+      expect(masks.has('stray')).toBe(false);
+    });
+  });
+
+  describe('getMaskBelow', () => {
+    it('should find the mask an element can be clipped to', () => {
+      expect(getMaskBelow(elements, 'art')?.id).toBe('frame');
+      expect(getMaskBelow(elements, 'title')?.id).toBe('frame');
+      expect(getMaskBelow(elements, 'stray')).toBeNull();
+      expect(getMaskBelow(elements, 'frame')).toBeNull();
+      expect(getMaskBelow(elements, 'missing')).toBeNull();
+    });
+  });
+
+  describe('getMaskToggleUpdates', () => {
+    it('should clip the element above a new mask', () => {
+      expect(getMaskToggleUpdates(elements, 'title')).toEqual([
+        { id: 'title', updates: { clipMask: true, clipped: false } },
+        { id: 'stray', updates: { clipped: true } },
+      ]);
+      expect(getMaskToggleUpdates(elements, 'stray')).toEqual([
+        { id: 'stray', updates: { clipMask: true, clipped: false } },
+      ]);
+    });
+
+    it('should release the elements of a removed mask', () => {
+      expect(getMaskToggleUpdates(elements, 'frame')).toEqual([
+        { id: 'frame', updates: { clipMask: false } },
+        { id: 'art', updates: { clipped: false } },
+        { id: 'glare', updates: { clipped: false } },
+      ]);
+      expect(getMaskToggleUpdates(elements, 'missing')).toEqual([]);
+    });
+  });
+});
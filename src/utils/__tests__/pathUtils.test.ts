@@ -0,0 +1,202 @@
+/**
+ * Tests for pathUtils.ts
+ */
+
+import {
+  createPathElement,
+  getBezierPoint,
+  getContourSegments,
+  getNearestSegmentPoint,
+  getPathBounds,
+  getPathContoursUpdate,
+  insertAnchor,
+  moveAnchor,
+  moveHandle,
+  parsePathData,
+  removeAnchor,
+  serializePathData,
+  toggleAnchorSmooth,
+} from '../pathUtils';
+import { PathContour } from '../../types';
+
+const square: PathContour = {
+  anchors: [
+    { x: 0, y: 0 },
+    { x: 100, y: 0 },
+    { x: 100, y: 100 },
+    { x: 0, y: 100 },
+  ],
+  closed: true,
+};
+
+const curve: PathContour = {
+  anchors: [
+    { x: 0, y: 0, handleOut: { x: 0, y: 100 } },
+    { x: 100, y: 0, handleIn: { x: 100, y: 100 } },
+  ],
+  closed: false,
+};
+
+describe('pathUtils', () => {
+  describe('parsePathData / serializePathData', () => {
+    it('should round-trip absolute lines and curves', () => {
+      const d = 'M 0 0 L 100 0 C 100 50 50 100 0 100 Z';
+      const contours = parsePathData(d);
+
+      expect(contours).toHaveLength(1);
+      expect(contours[0].closed).toBe(true);
+      expect(contours[0].anchors).toHaveLength(3);
+      expect(serializePathData(contours)).toBe(d);
+    });
+
+    it('should resolve relative and shorthand commands', () => {
+      const [contour] = parsePathData('m10 10 h20 v20 l-20 0z');
+
+      expect(contour.anchors.map(({ x, y }) => [x, y])).toEqual([
+        [10, 10],
+        [30, 10],
+        [30, 30],
+        [10, 30],
+      ]);
+      expect(contour.closed).toBe(true);
+    });
+
+    it('should fold a closing anchor that repeats the start', () => {
+      const [contour] = parsePathData('M 0 0 L 10 0 L 10 10 L 0 0 Z');
+      expect(contour.anchors).toHaveLength(3);
+    });
+
+    it('should convert quadratic curves to cubic ones', () => {
+      const [contour] = parsePathData('M 0 0 Q 50 100 100 0');
+      const [, end] = contour.anchors;
+
+      expect(contour.anchors[0].handleOut?.x).toBeCloseTo(100 / 3);
+      expect(contour.anchors[0].handleOut?.y).toBeCloseTo(200 / 3);
+      expect(end.handleIn?.x).toBeCloseTo(200 / 3);
+      expect(end.handleIn?.y).toBeCloseTo(200 / 3);
+    });
+
+    it('should split subpaths and ignore stray numbers', () => {
+      const contours = parsePathData('M 0 0 L 10 10 Z 5 5 M 20 20 L 30 30');
+
+      expect(contours).toHaveLength(2);
+      expect(contours[1].closed).toBe(false);
+    });
+
+    it('should let the closed override win', () => {
+      expect(serializePathData([square], false)).not.toContain('Z');
+      expect(serializePathData([{ ...square, closed: false }], true)).toMatch(/Z$/);
+    });
+  });
+
+  describe('getPathBounds', () => {
+    it('should include curve extrema beyond the anchors', () => {
+      const bounds = getPathBounds([curve]);
+
+      expect(bounds.x).toBeCloseTo(0);
+      expect(bounds.width).toBeCloseTo(100);
+      expect(bounds.height).toBeCloseTo(75);
+    });
+  });
+
+  describe('getNearestSegmentPoint', () => {
+    it('should find the closest segment', () => {
+      const nearest = getNearestSegmentPoint(square, { x: 102, y: 50 });
+
+      expect(nearest?.segmentIndex).toBe(1);
+      expect(nearest?.point.y).toBeCloseTo(50);
+      expect(nearest?.distance).toBeCloseTo(2);
+    });
+  });
+
+  describe('anchor editing', () => {
+    it('should insert an anchor without changing the shape of a curve', () => {
+      const split = insertAnchor(curve, 0, 0.5);
+      const original = getBezierPoint(getContourSegments(curve)[0], 0.25);
+      const halved = getBezierPoint(getContourSegments(split)[0], 0.5);
+
+      expect(split.anchors).toHaveLength(3);
+      expect(split.anchors[1].x).toBeCloseTo(50);
+      expect(split.anchors[1].y).toBeCloseTo(75);
+      expect(halved.x).toBeCloseTo(original.x);
+      expect(halved.y).toBeCloseTo(original.y);
+    });
+
+    it('should insert a corner anchor on the closing segment', () => {
+      const split = insertAnchor(square, 3, 0.5);
+      expect(split.anchors[4]).toEqual({ x: 0, y: 50 });
+    });
+
+    it('should remove an anchor', () => {
+      expect(removeAnchor(square, 1).anchors).toHaveLength(3);
+    });
+
+    it('should move an anchor together with its handles', () => {
+      const moved = moveAnchor(curve, 0, { x: 10, y: 20 });
+      expect(moved.anchors[0]).toMatchObject({ x: 10, y: 20, handleOut: { x: 10, y: 120 } });
+    });
+
+    it('should mirror the opposite handle unless told otherwise', () => {
+      const smooth = toggleAnchorSmooth(square, 1);
+      const mirrored = moveHandle(smooth, 1, 'handleOut', { x: 120, y: 10 });
+      const broken = moveHandle(smooth, 1, 'handleOut', { x: 120, y: 10 }, false);
+
+      expect(mirrored.anchors[1].handleIn).toEqual({ x: 80, y: -10 });
+      expect(broken.anchors[1].handleIn).toEqual(smooth.anchors[1].handleIn);
+    });
+
+    it('should toggle between corner and smooth anchors', () => {
+      const smooth = toggleAnchorSmooth(square, 1);
+      expect(smooth.anchors[1].handleIn).toBeDefined();
+      expect(smooth.anchors[1].handleOut).toBeDefined();
+
+      expect(toggleAnchorSmooth(smooth, 1).anchors[1]).toEqual({ x: 100, y: 0 });
+    });
+  });
+
+  describe('createPathElement', () => {
+    it('should fit the element box to the path bounds', () => {
+      const element = createPathElement(
+        [{ anchors: [{ x: 50, y: 60 }, { x: 150, y: 160 }], closed: false }],
+        { stroke: '#ff0000' }
+      );
+
+      expect(element.type).toBe('path');
+      expect(element.position).toEqual({ x: 50, y: 60 });
+      expect(element.size).toEqual({ width: 100, height: 100 });
+      expect(element.props).toMatchObject({
+        d: 'M 0 0 L 100 100',
+        pathSize: { width: 100, height: 100 },
+        closed: false,
+        stroke: '#ff0000',
+      });
+    });
+  });
+
+  describe('getPathContoursUpdate', () => {
+    it('should re-fit the path and keep the drawing in place', () => {
+      const element = {
+        ...createPathElement([square]),
+        position: { x: 10, y: 10 },
+        size: { width: 200, height: 200 },
+      };
+      // Extend the square 50 path units to the left
+      const edited = moveAnchor(parsePathData(element.props.d)[0], 0, { x: -50, y: 0 });
+      const update = getPathContoursUpdate(element, [edited]);
+
+      expect(update.position).toEqual({ x: -90, y: 10 });
+      expect(update.size).toEqual({ width: 300, height: 200 });
+      expect(update.props?.pathSize).toEqual({ width: 150, height: 100 });
+      expect(update.props?.d).toBe('M 0 0 L 150 0 L 150 100 L 50 100 Z');
+    });
+
+    it('should rotate the position offset with the element', () => {
+      const element = { ...createPathElement([square]), rotation: 90 };
+      const edited = moveAnchor(parsePathData(element.props.d)[0], 0, { x: -50, y: 0 });
+      const update = getPathContoursUpdate(element, [edited]);
+
+      expect(update.position?.x).toBeCloseTo(0);
+      expect(update.position?.y).toBeCloseTo(-50);
+    });
+  });
+});
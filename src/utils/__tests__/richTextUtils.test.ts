@@ -0,0 +1,174 @@
+/**
+ * Tests for richTextUtils.ts
+ */
+
+import {
+  applyRunStyle,
+  clearRunStyle,
+  getCanvasFont,
+  getRangeStyle,
+  getRunsText,
+  layoutRichText,
+  normalizeRuns,
+  setRunsText,
+  sliceRuns,
+} from '../richTextUtils';
+import { GradientFill, TextRun } from '../../types';
+
+// Every character is half as wide as the font size
+const measure = (text: string, font: string) =>
+  text.length * Number(/(\d+)px/.exec(font)![1]) * 0.5;
+
+const runs: TextRun[] = [
+  { text: 'Deal ' },
+  { text: '3', bold: true, color: '#ff0000' },
+  { text: ' damage' },
+];
+
+describe('richTextUtils', () => {
+  describe('run editing', () => {
+    it('should join the plain text of runs', () => {
+      expect(getRunsText(runs)).toBe('Deal 3 damage');
+    });
+
+    it('should merge neighbours with the same style and drop empty runs', () => {
+      expect(normalizeRuns([{ text: 'a' }, { text: '' }, { text: 'b' }])).toEqual([{ text: 'ab' }]);
+    });
+
+    it('should slice runs by character range', () => {
+      expect(sliceRuns(runs, 3, 7)).toEqual([
+        { text: 'l ' },
+        { text: '3', bold: true, color: '#ff0000' },
+        { text: ' ' },
+      ]);
+    });
+
+    it('should apply a style to a range, splitting runs', () => {
+      expect(applyRunStyle(runs, 7, 13, { italic: true })).toEqual([
+        { text: 'Deal ' },
+        { text: '3', bold: true, color: '#ff0000' },
+        { text: ' ' },
+        { text: 'damage', italic: true },
+      ]);
+    });
+
+    it('should remove styles set to undefined and re-merge runs', () => {
+      const plain = applyRunStyle(runs, 5, 6, { bold: undefined, color: undefined });
+      expect(plain).toEqual([{ text: 'Deal 3 damage' }]);
+      expect(clearRunStyle(runs, 0, 13)).toEqual([{ text: 'Deal 3 damage' }]);
+    });
+
+    it('should report the style shared by a range', () => {
+      expect(getRangeStyle(runs, 5, 6)).toEqual({ bold: true, color: '#ff0000' });
+      expect(getRangeStyle(runs, 4, 6)).toEqual({});
+      // A caret reports the style of the character before it
+      expect(getRangeStyle(runs, 6, 6)).toEqual({ bold: true, color: '#ff0000' });
+    });
+
+    it('should keep styles when the plain text changes', () => {
+      expect(setRunsText(runs, 'Deal 3 fire damage')).toEqual([
+        { text: 'Deal ' },
+        { text: '3', bold: true, color: '#ff0000' },
+        { text: ' fire damage' },
+      ]);
+      // Typing right after styled text continues its style
+      expect(setRunsText(runs, 'Deal 30 damage')).toEqual([
+        { text: 'Deal ' },
+        { text: '30', bold: true, color: '#ff0000' },
+        { text: ' damage' },
+      ]);
+      expect(setRunsText(runs, 'Deal damage')).toEqual([{ text: 'Deal damage' }]);
+    });
+  });
+
+  describe('getCanvasFont', () => {
+    it('should quote family names like Konva does', () => {
+      expect(getCanvasFont('bold', 12, 'Times New Roman, serif')).toBe(
+        'bold normal 12px "Times New Roman", serif'
+      );
+      expect(getCanvasFont('normal', 12, 'Arial', 'small-caps')).toBe(
+        'normal small-caps 12px "Arial"'
+      );
+    });
+  });
+
+  describe('layoutRichText', () => {
+    const options = { width: 100, fontSize: 10, color: '#000000', lineHeight: 1, measure };
+
+    it('should split styled fragments on one line', () => {
+      const { lines, height } = layoutRichText(runs, options);
+
+      expect(lines).toHaveLength(1);
+      expect(height).toBe(10);
+      expect(lines[0].fragments.map((f) => [f.text, f.x, f.fontStyle])).toEqual([
+        ['Deal ', 0, 'normal'],
+        ['3', 25, 'bold'],
+        [' damage', 30, 'normal'],
+      ]);
+      expect(lines[0].fragments[1].color).toBe('#ff0000');
+    });
+
+    it('should fill runs without a color with a default gradient', () => {
+      const gradient: GradientFill = {
+        type: 'linear',
+        angle: 0,
+        stops: [
+          { offset: 0, color: '#ff0000' },
+          { offset: 1, color: '#0000ff' },
+        ],
+      };
+      const { lines } = layoutRichText(
+        [{ text: 'Deal ' }, { text: '3', color: '#00ff00' }, { text: ' damage' }],
+        { ...options, color: gradient }
+      );
+
+      expect(lines[0].fragments.map((f) => f.color)).toEqual([gradient, '#00ff00', gradient]);
+    });
+
+    it('should add letter spacing after every character', () => {
+      const { lines } = layoutRichText([{ text: 'ab cd' }], { ...options, letterSpacing: 2 });
+
+      expect(lines[0].width).toBe(35);
+      expect(lines[0].fragments[0].width).toBe(35);
+    });
+
+    it('should wrap words at the box width and drop the breaking space', () => {
+      const { lines } = layoutRichText(runs, { ...options, width: 40 });
+
+      expect(lines.map((line) => line.fragments.map((f) => f.text).join(''))).toEqual([
+        'Deal 3',
+        'damage',
+      ]);
+      expect(lines[1].y).toBe(10);
+    });
+
+    it('should break on newlines and overlong words', () => {
+      const { lines } = layoutRichText([{ text: 'ab\nabcdefgh' }], { ...options, width: 20 });
+      expect(lines.map((line) => line.fragments.map((f) => f.text).join(''))).toEqual([
+        'ab',
+        'abcd',
+        'efgh',
+      ]);
+    });
+
+    it('should size lines by their largest text and share a baseline', () => {
+      const { lines } = layoutRichText([{ text: 'big', fontSize: 20 }, { text: 'small' }], options);
+
+      expect(lines[0].height).toBe(20);
+      expect(lines[0].fragments[0].y).toBe(0);
+      expect(lines[0].fragments[1].y).toBeGreaterThan(0);
+    });
+
+    it('should align lines horizontally and vertically', () => {
+      const { lines } = layoutRichText([{ text: 'abcd' }], {
+        ...options,
+        height: 50,
+        align: 'right',
+        verticalAlign: 'bottom',
+      });
+
+      expect(lines[0].fragments[0].x).toBe(80);
+      expect(lines[0].y).toBe(40);
+    });
+  });
+});
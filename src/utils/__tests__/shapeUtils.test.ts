@@ -0,0 +1,54 @@
+/**
+ * Tests for shapeUtils.ts
+ */
+
+import { getDashArray, getPolygonPoints, getStarPoints } from '../shapeUtils';
+
+const toPairs = (points: number[]) =>
+  points.reduce<[number, number][]>(
+    (pairs, value, index) => (index % 2 === 0 ? [...pairs, [value, points[index + 1]]] : pairs),
+    []
+  );
+
+describe('shapeUtils', () => {
+  describe('getDashArray', () => {
+    it('should return an empty pattern for solid strokes', () => {
+      expect(getDashArray('solid', 4)).toEqual([]);
+      expect(getDashArray(undefined, 4)).toEqual([]);
+    });
+
+    it('should scale the pattern by the stroke width', () => {
+      expect(getDashArray('dashed', 3)).toEqual([12, 6]);
+      expect(getDashArray('dashed', 0)).toEqual([4, 2]);
+    });
+  });
+
+  describe('getPolygonPoints', () => {
+    it('should place the first vertex at the top center', () => {
+      const [[x, y]] = toPairs(getPolygonPoints(4, 100, 50));
+      expect(x).toBeCloseTo(50);
+      expect(y).toBeCloseTo(0);
+    });
+
+    it('should fill the box and clamp to at least three sides', () => {
+      const square = toPairs(getPolygonPoints(4, 100, 50));
+      expect(square).toHaveLength(4);
+      expect(Math.max(...square.map(([x]) => x))).toBeCloseTo(100);
+      expect(Math.max(...square.map(([, y]) => y))).toBeCloseTo(50);
+
+      expect(toPairs(getPolygonPoints(1, 10, 10))).toHaveLength(3);
+    });
+  });
+
+  describe('getStarPoints', () => {
+    it('should alternate outer and inner vertices', () => {
+      const pairs = toPairs(getStarPoints(5, 0.5, 100, 100));
+      const distances = pairs.map(([x, y]) => Math.hypot(x - 50, y - 50));
+
+      expect(pairs).toHaveLength(10);
+      expect(distances[0]).toBeCloseTo(50);
+      expect(distances[1]).toBeCloseTo(25);
+      expect(distances[2]).toBeCloseTo(50);
+    });
+  });
+});
@@ -2,7 +2,12 @@
  * Tests for snapping.ts
  */
 
-import { getSnappingPosition, SnapOptions } from '../snapping';
+import {
+  getSnappingPosition,
+  getElementsInRect,
+  getRectFromPoints,
+  SnapOptions,
+} from '../snapping';
 import { EditorElement } from '../../types';
 import { createElement } from '../editorUtils';
 
@@ -504,4 +509,61 @@ describe('snapping utilities', () => {
       expect(result.y).toBe(125); // 175 - 50
     });
   });
+
+  describe('getRectFromPoints', () => {
+    it('should normalize a rectangle dragged towards the top-left', () => {
+      expect(getRectFromPoints({ x: 100, y: 80 }, { x: 40, y: 20 })).toEqual({
+        x: 40,
+        y: 20,
+        width: 60,
+        height: 60,
+      });
+    });
+  });
+
+  describe('getElementsInRect', () => {
+    const inside = createElement('text', {}, {
+      position: { x: 20, y: 20 },
+      size: { width: 40, height: 40 },
+    });
+    const straddling = createElement('text', {}, {
+      position: { x: 80, y: 80 },
+      size: { width: 60, height: 60 },
+    });
+    const outside = createElement('text', {}, {
+      position: { x: 300, y: 300 },
+      size: { width: 50, height: 50 },
+    });
+    const rect = { x: 0, y: 0, width: 100, height: 100 };
+
+    it('should select intersecting elements by default', () => {
+      const result = getElementsInRect([inside, straddling, outside], rect);
+
+      expect(result).toEqual([inside, straddling]);
+    });
+
+    it('should only select fully contained elements in contain mode', () => {
+      const result = getElementsInRect([inside, straddling, outside], rect, { mode: 'contain' });
+
+      expect(result).toEqual([inside]);
+    });
+
+    it('should skip hidden and locked elements', () => {
+      const hidden = { ...inside, id: 'hidden', visible: false };
+      const locked = { ...inside, id: 'locked', locked: true };
+
+      expect(getElementsInRect([hidden, locked], rect)).toEqual([]);
+    });
+
+    it('should use rotated bounds', () => {
+      // Rotated 90 degrees around its top-left corner, the element extends to the left of x
+      const rotated = createElement('text', {}, {
+        position: { x: 150, y: 10 },
+        size: { width: 100, height: 60 },
+        rotation: 90,
+      });
+
+      expect(getElementsInRect([rotated], rect)).toEqual([rotated]);
+    });
+  });
 });
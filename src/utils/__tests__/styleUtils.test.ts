@@ -0,0 +1,71 @@
+/**
+ * Tests for styleUtils.ts
+ */
+
+import {
+  getElementCornerRadius,
+  getElementStyleFilters,
+  getElementStylePadding,
+  hasElementGlow,
+  hasElementShadow,
+} from '../styleUtils';
+
+describe('styleUtils', () => {
+  describe('hasElementShadow / hasElementGlow', () => {
+    it('should need a color and a visible extent', () => {
+      expect(hasElementShadow(undefined)).toBe(false);
+      expect(hasElementShadow({ shadowColor: '#000000' })).toBe(false);
+      expect(hasElementShadow({ shadowColor: '#000000', shadowOffsetY: 4 })).toBe(true);
+      expect(hasElementShadow({ shadowColor: '#000000', shadowBlur: 4, shadowOpacity: 0 })).toBe(
+        false
+      );
+      expect(hasElementGlow({ glowColor: '#ffcc00' })).toBe(false);
+      expect(hasElementGlow({ glowColor: '#ffcc00', glowSize: 6 })).toBe(true);
+    });
+  });
+
+  describe('getElementStyleFilters', () => {
+    it('should not filter unstyled elements', () => {
+      expect(getElementStyleFilters(undefined)).toEqual([]);
+      expect(getElementStyleFilters({ blendMode: 'multiply', cornerRadius: 8 })).toEqual([]);
+    });
+
+    it('should draw the glow and the shadow as drop shadows', () => {
+      expect(
+        getElementStyleFilters({
+          shadowColor: '#000000',
+          shadowBlur: 10,
+          shadowOffsetX: 2,
+          shadowOffsetY: 4,
+          shadowOpacity: 0.5,
+          glowColor: 'gold',
+          glowSize: 6,
+        })
+      ).toEqual(['drop-shadow(0px 0px 6px gold)', 'drop-shadow(2px 4px 10px rgba(0, 0, 0, 0.5))']);
+    });
+  });
+
+  describe('getElementStylePadding', () => {
+    it('should cover the farthest effect', () => {
+      expect(getElementStylePadding(undefined)).toBe(0);
+      expect(getElementStylePadding({ glowColor: '#fff', glowSize: 6 })).toBe(12);
+      expect(
+        getElementStylePadding({
+          glowColor: '#fff',
+          glowSize: 6,
+          shadowColor: '#000',
+          shadowBlur: 5,
+          shadowOffsetY: -8,
+        })
+      ).toBe(18);
+    });
+  });
+
+  describe('getElementCornerRadius', () => {
+    it('should keep the radius within half of the box', () => {
+      expect(getElementCornerRadius({ cornerRadius: 12 }, { width: 100, height: 100 })).toBe(12);
+      expect(getElementCornerRadius({ cornerRadius: 80 }, { width: 100, height: 40 })).toBe(20);
+      expect(getElementCornerRadius(undefined, { width: 100, height: 40 })).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * Tests for textFitUtils.ts
+ */
+
+import { TextSizeMeasurer, fitFontSize } from '../textFitUtils';
+
+/**
+ * Monospace-like measurer: every character is half the font size wide,
+ * lines wrap at word boundaries and are one font size tall
+ */
+const createMeasurer = (text: string, width: number): jest.Mock & TextSizeMeasurer =>
+  jest.fn((fontSize: number) => {
+    const charWidth = fontSize / 2;
+    const words = text.split(' ');
+    let lines = 1;
+    let lineWidth = 0;
+    words.forEach((word) => {
+      const wordWidth = word.length * charWidth;
+      const next = lineWidth === 0 ? wordWidth : lineWidth + charWidth + wordWidth;
+      if (next > width && lineWidth > 0) {
+        lines++;
+        lineWidth = wordWidth;
+      } else {
+        lineWidth = next;
+      }
+    });
+    return {
+      height: lines * fontSize,
+      wordWidth: Math.max(...words.map((word) => word.length * charWidth)),
+    };
+  });
+
+describe('textFitUtils', () => {
+  describe('fitFontSize', () => {
+    it('should keep the largest size when the text fits', () => {
+      const measure = createMeasurer('Short', 200);
+      const options = { width: 200, height: 50, minFontSize: 6, maxFontSize: 24 };
+      expect(fitFontSize(measure, options)).toBe(24);
+      expect(measure).toHaveBeenCalledTimes(1);
+    });
+
+    it('should shrink until the text fits the box', () => {
+      const text = 'A very long card name';
+      const options = { width: 100, height: 40, minFontSize: 6, maxFontSize: 40 };
+      const size = fitFontSize(createMeasurer(text, 100), options);
+
+      const measured = createMeasurer(text, 100)(size);
+      expect(size).toBeLessThan(40);
+      expect(measured.height).toBeLessThanOrEqual(40);
+      expect(measured.wordWidth).toBeLessThanOrEqual(100);
+      // A slightly larger size no longer fits
+      expect(createMeasurer(text, 100)(size + 0.5).height).toBeGreaterThan(40);
+    });
+
+    it('should not break words when only the width is constrained', () => {
+      const size = fitFontSize(createMeasurer('Extraordinary', 65), {
+        width: 65,
+        minFontSize: 4,
+        maxFontSize: 30,
+      });
+      expect(size).toBeLessThanOrEqual(10);
+      expect(size).toBeGreaterThan(9.5);
+    });
+
+    it('should return the minimum when nothing fits', () => {
+      const measure = createMeasurer('Far too much text for this box', 20);
+      const options = { width: 20, height: 5, minFontSize: 8, maxFontSize: 16 };
+      expect(fitFontSize(measure, options)).toBe(8);
+    });
+
+    it('should accept swapped bounds', () => {
+      const measure = createMeasurer('Fits', 200);
+      const options = { width: 200, height: 50, minFontSize: 30, maxFontSize: 10 };
+      expect(fitFontSize(measure, options)).toBe(30);
+    });
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * Tests for typographyUtils.ts
+ */
+
+import {
+  DEFAULT_TEXT_TYPOGRAPHY,
+  applyTextTransform,
+  getTextShadowStyle,
+  getTextTypography,
+  getVerticalColumns,
+  layoutVerticalText,
+} from '../typographyUtils';
+
+describe('typographyUtils', () => {
+  describe('getTextTypography', () => {
+    it('should fill in defaults for text saved without typography', () => {
+      expect(getTextTypography({ content: 'Old', fontSize: 16, color: '#000' })).toEqual(
+        DEFAULT_TEXT_TYPOGRAPHY
+      );
+    });
+
+    it('should keep stored settings and ignore negative padding', () => {
+      const props = { lineHeight: 1.5, letterSpacing: 2, padding: -4 };
+      expect(getTextTypography({ ...props, writingMode: 'vertical' })).toEqual({
+        lineHeight: 1.5,
+        letterSpacing: 2,
+        padding: 0,
+        textTransform: 'none',
+        writingMode: 'vertical',
+      });
+    });
+  });
+
+  describe('getTextShadowStyle', () => {
+    it('should only enable a shadow with a color and a blur or offset', () => {
+      expect(getTextShadowStyle({}).shadowEnabled).toBe(false);
+      expect(getTextShadowStyle({ shadowColor: '#000', shadowBlur: 0 }).shadowEnabled).toBe(false);
+      expect(getTextShadowStyle({ shadowColor: '#000', shadowOffsetY: 2 })).toEqual({
+        shadowColor: '#000',
+        shadowBlur: 0,
+        shadowOffsetX: 0,
+        shadowOffsetY: 2,
+        shadowOpacity: 1,
+        shadowEnabled: true,
+      });
+    });
+
+    it('should leave the shadow to the common style when it has one', () => {
+      const props = { shadowColor: '#000', shadowOffsetY: 2 };
+      const shadow = { shadowColor: '#f00', shadowBlur: 4 };
+      const glow = { glowColor: '#f00', glowSize: 4 };
+      expect(getTextShadowStyle(props, shadow).shadowEnabled).toBe(false);
+      expect(getTextShadowStyle(props, glow).shadowEnabled).toBe(true);
+    });
+  });
+
+  describe('applyTextTransform', () => {
+    it('should change the case of the text', () => {
+      expect(applyTextTransform('Fire Drake', 'uppercase')).toBe('FIRE DRAKE');
+      expect(applyTextTransform('Fire Drake', 'lowercase')).toBe('fire drake');
+      expect(applyTextTransform('fire  drake\nof doom', 'capitalize')).toBe(
+        'Fire  Drake\nOf Doom'
+      );
+    });
+
+    it('should leave text for small caps and none unchanged', () => {
+      expect(applyTextTransform('Fire Drake', 'smallCaps')).toBe('Fire Drake');
+      expect(applyTextTransform('Fire Drake')).toBe('Fire Drake');
+    });
+
+    it('should keep resolvable icon tokens as they are', () => {
+      const hasIcon = (name: string) => name === 'mana:red';
+      expect(applyTextTransform('pay {mana:red} or {tap}', 'uppercase', hasIcon)).toBe(
+        'PAY {mana:red} OR {TAP}'
+      );
+    });
+  });
+
+  describe('vertical text', () => {
+    it('should split lines into columns of characters', () => {
+      expect(getVerticalColumns('abc\n\nde')).toEqual([['a', 'b', 'c'], [], ['d', 'e']]);
+      expect(getVerticalColumns('abcde', 2)).toEqual([['a', 'b'], ['c', 'd'], ['e']]);
+    });
+
+    it('should break columns at the box height', () => {
+      const layout = layoutVerticalText('abcde', {
+        fontSize: 10,
+        lineHeight: 1.5,
+        letterSpacing: 2,
+        height: 40,
+      });
+
+      // 12px per character: three fit in 40px
+      expect(layout.columns).toEqual([['a', 'b', 'c'], ['d', 'e']]);
+      expect(layout.step).toBe(12);
+      expect(layout.pitch).toBe(15);
+      expect(layout.width).toBe(30);
+      expect(layout.height).toBe(36);
+    });
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * Image Atlas Utilities
+ *
+ * Sprite sheets (texture atlases) pack many images into one. Atlases are registered on
+ * `EditorMode.context.imageAtlases`, and image elements show a single frame with a `src`
+ * of the form `atlas#frameName`.
+ */
+
+/** Separates the atlas name from the frame name in an image `src` */
+export const ATLAS_FRAME_SEPARATOR = "#";
+
+/**
+ * Frame of an atlas: a rectangle of the atlas image, in pixels
+ */
+export interface ImageAtlasFrame {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Atlas descriptor: the packed image and its frames by name
+ */
+export interface ImageAtlas {
+  /** Atlas image: a URL or an `imageUrls` asset key */
+  image: string;
+
+  /** Frames by name */
+  frames: Record<string, ImageAtlasFrame>;
+}
+
+/** Atlases by name */
+export type ImageAtlasMap = Map<string, ImageAtlas> | Record<string, ImageAtlas>;
+
+/**
+ * A frame resolved from an image `src`
+ */
+export interface ResolvedAtlasFrame {
+  /** Atlas image: a URL or an `imageUrls` asset key */
+  image: string;
+
+  /** Rectangle of the frame in the atlas image */
+  frame: ImageAtlasFrame;
+}
+
+/**
+ * Format a reference to an atlas frame, usable as an image `src`
+ */
+export const formatAtlasFrameRef = (atlas: string, frame: string): string =>
+  `${atlas}${ATLAS_FRAME_SEPARATOR}${frame}`;
+
+const getAtlas = (atlases: ImageAtlasMap, name: string): ImageAtlas | undefined =>
+  atlases instanceof Map ? atlases.get(name) : atlases[name];
+
+const getAtlasNames = (atlases: ImageAtlasMap): string[] =>
+  atlases instanceof Map ? Array.from(atlases.keys()) : Object.keys(atlases);
+
+/**
+ * Resolve an image `src` of the form `atlas#frameName`.
+ * Returns null for other values, including URLs whose fragment doesn't name a frame.
+ */
+export const getAtlasFrame = (
+  src: string | undefined,
+  atlases: ImageAtlasMap | undefined
+): ResolvedAtlasFrame | null => {
+  if (!src || !atlases) return null;
+  const separator = src.indexOf(ATLAS_FRAME_SEPARATOR);
+  if (separator <= 0) return null;
+
+  const atlas = getAtlas(atlases, src.slice(0, separator));
+  const frame = atlas?.frames[src.slice(separator + 1)];
+  return atlas && frame && frame.width > 0 && frame.height > 0
+    ? { image: atlas.image, frame }
+    : null;
+};
+
+/**
+ * A frame listed for picking
+ */
+export interface AtlasFrameEntry extends ResolvedAtlasFrame {
+  /** Frame reference to use as an image `src` */
+  ref: string;
+  atlas: string;
+  name: string;
+}
+
+/**
+ * List every frame of the atlases, in registration order
+ */
+export const getAtlasFrameEntries = (atlases: ImageAtlasMap | undefined): AtlasFrameEntry[] =>
+  atlases
+    ? getAtlasNames(atlases).flatMap((atlasName) => {
+        const atlas = getAtlas(atlases, atlasName);
+        if (!atlas) return [];
+        return Object.entries(atlas.frames).map(([name, frame]) => ({
+          ref: formatAtlasFrameRef(atlasName, name),
+          atlas: atlasName,
+          name,
+          image: atlas.image,
+          frame,
+        }));
+      })
+    : [];
@@ -4,7 +4,7 @@
  * Common utility functions used throughout the visual editor.
  */
 
-import { EditorElement, CanvasExport } from "../types";
+import { EditorElement, CanvasExport, EditorDocument } from "../types";
 import { v4 as uuidv4 } from "uuid";
 
 /**
@@ -240,6 +240,30 @@ export const importFromJSON = (json: string): CanvasExport => {
   }
 };
 
+/**
+ * Extract the document fields present in canvas data.
+ * Background values stored in metadata by older exports are picked up as well.
+ */
+export const canvasExportToDocument = (data: CanvasExport): Partial<EditorDocument> => {
+  const document: Partial<EditorDocument> = { elements: data.elements };
+
+  if (data.width && data.height) {
+    document.canvasSize = { width: data.width, height: data.height };
+  }
+
+  const backgroundColor = data.backgroundColor ?? data.metadata?.backgroundColor;
+  if (backgroundColor !== undefined) {
+    document.backgroundColor = backgroundColor;
+  }
+
+  const backgroundImage = data.backgroundImage ?? data.metadata?.backgroundImage;
+  if (backgroundImage !== undefined) {
+    document.backgroundImage = backgroundImage;
+  }
+
+  return document;
+};
+
 /**
  * Calculate center point of an element
  */
@@ -305,3 +329,21 @@ export const isValidCanvasExport = (data: any): data is CanvasExport => {
     data.elements.every(isValidElement)
   );
 };
+
+/**
+ * Check whether a text input has focus (input, textarea, select or contentEditable element).
+ * Keyboard shortcuts that target elements are skipped then, so they don't interfere with typing.
+ */
+export const isInputFocused = (): boolean => {
+  const active = document.activeElement as HTMLElement | null;
+  if (!active) return false;
+  // If body is focused, nothing else is focused
+  if (active === document.body) return false;
+  // Content editable elements
+  if (active.isContentEditable) return true;
+  const tag = active.tagName?.toLowerCase();
+  if (tag === "input" || tag === "textarea" || tag === "select") return true;
+  const role = active.getAttribute ? active.getAttribute("role") : null;
+  if (role === "textbox") return true;
+  return false;
+};
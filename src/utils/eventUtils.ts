@@ -0,0 +1,117 @@
+/**
+ * Event Utilities
+ *
+ * Derives fine-grained editor events by comparing two editor states.
+ */
+
+import { EditorAction, EditorElement, EditorEvent, EditorState } from "../types";
+
+/**
+ * Actions that create or delete elements. Other actions only move elements into or out of
+ * groups or bring back earlier states (undo/redo, imports, loads), so the elements they
+ * make appear or disappear are not reported as added or removed. A rollback reverses the
+ * additions and removals already reported during its transaction.
+ */
+const MEMBERSHIP_ACTIONS: ReadonlySet<EditorAction["type"]> = new Set<EditorAction["type"]>([
+  "ADD_ELEMENT",
+  "ADD_ELEMENTS",
+  "REMOVE_ELEMENT",
+  "REMOVE_ELEMENTS",
+  "CLEAR",
+  "ROLLBACK_TRANSACTION",
+]);
+
+/**
+ * List the properties of an element that differ between two versions (shallow comparison)
+ */
+export const getChangedKeys = (
+  previous: EditorElement,
+  element: EditorElement
+): (keyof EditorElement)[] => {
+  const keys = new Set([...Object.keys(previous), ...Object.keys(element)]);
+  return Array.from(keys).filter(
+    (key) => previous[key as keyof EditorElement] !== element[key as keyof EditorElement]
+  ) as (keyof EditorElement)[];
+};
+
+const isSameIds = (a: string[], b: string[]) =>
+  a === b || (a.length === b.length && a.every((id, index) => id === b[index]));
+
+/**
+ * Compute the events describing the transition from one state to the next.
+ * Elements are compared by reference, so unchanged elements never produce events.
+ * With the action causing the transition, only actions creating or deleting elements
+ * report added and removed elements.
+ */
+export const getStateEvents = (
+  previous: EditorState,
+  next: EditorState,
+  action?: EditorAction
+): EditorEvent[] => {
+  const events: EditorEvent[] = [];
+  const reportMembership = !action || MEMBERSHIP_ACTIONS.has(action.type);
+
+  if (previous.elements !== next.elements) {
+    const previousById = new Map(previous.elements.map((el) => [el.id, el]));
+    const nextIds = new Set(next.elements.map((el) => el.id));
+
+    if (reportMembership) {
+      previous.elements
+        .filter((el) => !nextIds.has(el.id))
+        .forEach((element) => events.push({ type: "element:removed", payload: { element } }));
+    }
+
+    next.elements.forEach((element) => {
+      const before = previousById.get(element.id);
+      if (!before) {
+        if (reportMembership) events.push({ type: "element:added", payload: { element } });
+      } else if (before !== element) {
+        const changedKeys = getChangedKeys(before, element);
+        if (changedKeys.length > 0) {
+          events.push({
+            type: "element:updated",
+            payload: { element, previous: before, changedKeys },
+          });
+        }
+      }
+    });
+  }
+
+  if (
+    previous.canvasSize.width !== next.canvasSize.width ||
+    previous.canvasSize.height !== next.canvasSize.height
+  ) {
+    events.push({
+      type: "canvas:resized",
+      payload: { ...next.canvasSize, previous: previous.canvasSize },
+    });
+  }
+
+  if (!isSameIds(previous.selectedElementIds, next.selectedElementIds)) {
+    events.push({
+      type: "selection:changed",
+      payload: {
+        selectedElementIds: next.selectedElementIds,
+        selectedElementId: next.selectedElementId,
+        previousIds: previous.selectedElementIds,
+      },
+    });
+  }
+
+  // Coalesced edits keep the undo stack and only reset an (often already empty) redo stack
+  const { past, future } = previous.history;
+  if (
+    past !== next.history.past ||
+    (future !== next.history.future && (future.length > 0 || next.history.future.length > 0))
+  ) {
+    events.push({
+      type: "history:changed",
+      payload: {
+        canUndo: next.history.past.length > 0,
+        canRedo: next.history.future.length > 0,
+      },
+    });
+  }
+
+  return events;
+};
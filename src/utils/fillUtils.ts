@@ -0,0 +1,156 @@
+/**
+ * Fill Utilities
+ *
+ * Fills are solid color strings or linear/radial gradients (`EditorFill`). These helpers
+ * turn fills into Konva fill attributes and CSS backgrounds, and convert between kinds.
+ */
+
+import { EditorFill, GradientFill, GradientStop } from "../types";
+import { clamp, degToRad } from "./editorUtils";
+
+/** Color used where a fill is missing */
+export const DEFAULT_FILL_COLOR = "#000000";
+
+/**
+ * Konva attributes that draw a fill
+ */
+export interface KonvaFillAttrs {
+  fill?: string;
+  fillPriority: "color" | "linear-gradient" | "radial-gradient";
+  fillLinearGradientStartPoint?: { x: number; y: number };
+  fillLinearGradientEndPoint?: { x: number; y: number };
+  fillLinearGradientColorStops?: Array<number | string>;
+  fillRadialGradientStartPoint?: { x: number; y: number };
+  fillRadialGradientEndPoint?: { x: number; y: number };
+  fillRadialGradientStartRadius?: number;
+  fillRadialGradientEndRadius?: number;
+  fillRadialGradientColorStops?: Array<number | string>;
+}
+
+/**
+ * Check whether a fill is a gradient
+ */
+export const isGradientFill = (fill: EditorFill | null | undefined): fill is GradientFill =>
+  !!fill &&
+  typeof fill === "object" &&
+  (fill.type === "linear" || fill.type === "radial") &&
+  Array.isArray(fill.stops);
+
+/**
+ * Get the stops of a gradient sorted by offset, with offsets kept between 0 and 1
+ */
+export const getSortedStops = (stops: GradientStop[]): GradientStop[] =>
+  stops
+    .map((stop) => ({ ...stop, offset: clamp(Number(stop.offset) || 0, 0, 1) }))
+    .sort((a, b) => a.offset - b.offset);
+
+/**
+ * Get a single color standing in for a fill (e.g., for CSS colors and color inputs):
+ * the color itself, or the first stop of a gradient
+ */
+export const getFillColor = (
+  fill: EditorFill | null | undefined,
+  fallback = DEFAULT_FILL_COLOR
+): string => {
+  if (isGradientFill(fill)) return getSortedStops(fill.stops)[0]?.color ?? fallback;
+  return fill || fallback;
+};
+
+const toKonvaStops = (stops: GradientStop[]): Array<number | string> =>
+  getSortedStops(stops).flatMap((stop) => [stop.offset, stop.color]);
+
+/**
+ * Get the Konva attributes that draw a fill over a box.
+ * Gradient points are in the shape's local coordinates; `offset` is the shape's position in
+ * the box, so shapes that only cover part of it (e.g., lines of text) share one gradient.
+ */
+export const getKonvaFill = (
+  fill: EditorFill | null | undefined,
+  box: { width: number; height: number },
+  offset: { x: number; y: number } = { x: 0, y: 0 }
+): KonvaFillAttrs => {
+  if (!isGradientFill(fill)) return { fill: fill || undefined, fillPriority: "color" };
+
+  if (fill.type === "radial") {
+    const center = {
+      x: (fill.centerX ?? 0.5) * box.width,
+      y: (fill.centerY ?? 0.5) * box.height,
+    };
+    // Reach the farthest corner
+    const radius = Math.hypot(
+      Math.max(center.x, box.width - center.x),
+      Math.max(center.y, box.height - center.y)
+    );
+    const point = { x: center.x - offset.x, y: center.y - offset.y };
+    return {
+      fillPriority: "radial-gradient",
+      fillRadialGradientStartPoint: point,
+      fillRadialGradientEndPoint: point,
+      fillRadialGradientStartRadius: 0,
+      fillRadialGradientEndRadius: radius,
+      fillRadialGradientColorStops: toKonvaStops(fill.stops),
+    };
+  }
+
+  // Run through the center and reach the corners, like CSS linear gradients
+  const angle = degToRad(fill.angle || 0);
+  const dx = Math.cos(angle);
+  const dy = Math.sin(angle);
+  const half = (Math.abs(box.width * dx) + Math.abs(box.height * dy)) / 2;
+  const centerX = box.width / 2 - offset.x;
+  const centerY = box.height / 2 - offset.y;
+  return {
+    fillPriority: "linear-gradient",
+    fillLinearGradientStartPoint: { x: centerX - dx * half, y: centerY - dy * half },
+    fillLinearGradientEndPoint: { x: centerX + dx * half, y: centerY + dy * half },
+    fillLinearGradientColorStops: toKonvaStops(fill.stops),
+  };
+};
+
+/**
+ * Get the CSS `background` value of a fill
+ */
+export const getCssFill = (fill: EditorFill | null | undefined): string => {
+  if (!isGradientFill(fill)) return fill || "transparent";
+
+  const stops = getSortedStops(fill.stops)
+    .map((stop) => `${stop.color} ${Math.round(stop.offset * 1000) / 10}%`)
+    .join(", ");
+  if (fill.type === "radial") {
+    const x = (fill.centerX ?? 0.5) * 100;
+    const y = (fill.centerY ?? 0.5) * 100;
+    return `radial-gradient(circle farthest-corner at ${x}% ${y}%, ${stops})`;
+  }
+  // CSS measures angles from "to top"; ours start at "to right"
+  return `linear-gradient(${(fill.angle || 0) + 90}deg, ${stops})`;
+};
+
+/**
+ * Convert a fill to another kind, keeping its colors: a solid color becomes a gradient from
+ * that color to white, a gradient becomes its first color.
+ */
+export function convertFill(fill: EditorFill | undefined, type: "solid"): string;
+export function convertFill(fill: EditorFill | undefined, type: GradientFill["type"]): GradientFill;
+export function convertFill(
+  fill: EditorFill | undefined,
+  type: "solid" | GradientFill["type"]
+): EditorFill;
+export function convertFill(
+  fill: EditorFill | undefined,
+  type: "solid" | GradientFill["type"]
+): EditorFill {
+  if (type === "solid") return getFillColor(fill);
+
+  const stops = isGradientFill(fill)
+    ? fill.stops
+    : [
+        { offset: 0, color: getFillColor(fill) },
+        { offset: 1, color: "#ffffff" },
+      ];
+  if (type === "radial") {
+    return isGradientFill(fill) && fill.type === "radial" ? fill : { type: "radial", stops };
+  }
+  return isGradientFill(fill) && fill.type === "linear"
+    ? fill
+    : { type: "linear", angle: 90, stops };
+}
@@ -0,0 +1,135 @@
+/**
+ * Font utilities
+ *
+ * Loading of the custom fonts a mode registers (`EditorMode.fonts`) and collection of
+ * the font families a document uses.
+ */
+
+import { EditorElement, EditorFontMap, EditorFontSource } from "../types";
+
+/**
+ * List the faces registered for a font family
+ */
+export const getFontSources = (
+  fonts: EditorFontMap | undefined,
+  family: string
+): EditorFontSource[] => {
+  const entry = fonts?.[family];
+  if (!entry) return [];
+  if (typeof entry === "string") return [{ source: entry }];
+  return Array.isArray(entry) ? entry : [entry];
+};
+
+/**
+ * Turn a font source string into a CSS `src` value: URLs are wrapped in `url()`,
+ * values that already are `url()` or `local()` references are kept
+ */
+export const toFontFaceSource = (source: string): string =>
+  /^\s*(url|local)\(/.test(source) ? source : `url(${JSON.stringify(source)})`;
+
+// Faces loaded (or loading) by family and source URL, so each is only fetched once
+const loadedFaces = new Map<string, Promise<boolean>>();
+
+/**
+ * Load one face of a font and add it to the document.
+ * Resolves to whether the face loaded; failures are logged, not thrown.
+ */
+export const loadFontFace = (family: string, font: EditorFontSource): Promise<boolean> => {
+  if (typeof FontFace === "undefined" || typeof document === "undefined" || !document.fonts) {
+    return Promise.resolve(false);
+  }
+
+  const key =
+    typeof font.source === "string"
+      ? `${family}|${font.source}|${JSON.stringify(font.descriptors ?? {})}`
+      : null;
+  const cached = key ? loadedFaces.get(key) : undefined;
+  if (cached) return cached;
+
+  const source = typeof font.source === "string" ? toFontFaceSource(font.source) : font.source;
+  let face: FontFace;
+  try {
+    // Invalid descriptors or sources throw right away instead of failing to load
+    face = new FontFace(family, source, font.descriptors);
+  } catch (error) {
+    console.warn(`Failed to load font "${family}":`, error);
+    return Promise.resolve(false);
+  }
+  document.fonts.add(face);
+  const loading = face.load().then(
+    () => true,
+    (error) => {
+      console.warn(`Failed to load font "${family}":`, error);
+      if (key) loadedFaces.delete(key);
+      return false;
+    }
+  );
+  if (key) loadedFaces.set(key, loading);
+  return loading;
+};
+
+/**
+ * Load every face of the registered fonts.
+ * Resolves to the families of which at least one face loaded.
+ */
+export const loadFonts = async (fonts: EditorFontMap | undefined): Promise<string[]> => {
+  const families = Object.keys(fonts ?? {});
+  const loaded = await Promise.all(
+    families.map(async (family) => {
+      const faces = await Promise.all(
+        getFontSources(fonts, family).map((font) => loadFontFace(family, font))
+      );
+      return faces.some(Boolean);
+    })
+  );
+  return families.filter((_, index) => loaded[index]);
+};
+
+/**
+ * CSS `font-family` value that draws a family, falling back to the default sans-serif
+ */
+export const getFontFamilyStyle = (family: string): string =>
+  `${JSON.stringify(family)}, sans-serif`;
+
+/**
+ * List the families a font picker offers: the mode's registered fonts first, then the
+ * field's options. The current value is kept even when neither lists it, so documents
+ * using other fonts still show theirs.
+ */
+export const getFontPickerFamilies = (
+  fonts: EditorFontMap | undefined,
+  options: string[] = [],
+  current?: string
+): { registered: string[]; other: string[] } => {
+  const registered = Object.keys(fonts ?? {});
+  const other = options.filter((family) => !registered.includes(family));
+  if (current && !registered.includes(current) && !other.includes(current)) {
+    other.push(current);
+  }
+  return { registered, other };
+};
+
+/**
+ * Collect the font families used by elements, in order of first use.
+ * Every `fontFamily` in element props is included, e.g. rich text runs and group children.
+ */
+export const getElementFonts = (elements: EditorElement[]): string[] => {
+  const families = new Set<string>();
+
+  const visit = (value: unknown) => {
+    if (Array.isArray(value)) {
+      value.forEach(visit);
+    } else if (value && typeof value === "object") {
+      Object.entries(value).forEach(([key, child]) => {
+        if (key === "fontFamily" && typeof child === "string" && child.trim()) {
+          families.add(child.trim());
+        } else {
+          visit(child);
+        }
+      });
+    }
+  };
+
+  elements.forEach((element) => visit(element.props));
+  return Array.from(families);
+};
@@ -0,0 +1,218 @@
+/**
+ * Group Utilities
+ *
+ * Pure helpers for building and dissolving group elements while keeping
+ * every child at the same visual position, rotation and size.
+ */
+
+import { EditorElement, GroupElementProps } from "../types";
+import { degToRad, sortByZIndex } from "./editorUtils";
+import { getRotatedBounds } from "./snapping";
+
+/** Type identifier of the built-in group element */
+export const GROUP_ELEMENT_TYPE = "group";
+
+/**
+ * Check whether an element is a group
+ */
+export const isGroupElement = (
+  element: EditorElement | null | undefined
+): element is EditorElement<GroupElementProps> => {
+  return (
+    !!element && element.type === GROUP_ELEMENT_TYPE && Array.isArray(element.props?.children)
+  );
+};
+
+/**
+ * Rotate a point around the origin
+ */
+const rotatePoint = (x: number, y: number, rotation: number): { x: number; y: number } => {
+  const rad = degToRad(rotation);
+  const cos = Math.cos(rad);
+  const sin = Math.sin(rad);
+  return {
+    x: x * cos - y * sin,
+    y: x * sin + y * cos,
+  };
+};
+
+/**
+ * Axis-aligned bounds of an element, accounting for rotation around its top-left corner
+ */
+export const getElementBounds = (
+  element: EditorElement
+): { x: number; y: number; width: number; height: number } => {
+  // Same bounds as snapping and marquee selection
+  const { left, top, right, bottom } = getRotatedBounds(
+    element.position.x,
+    element.position.y,
+    element.size.width,
+    element.size.height,
+    element.rotation
+  );
+  return { x: left, y: top, width: right - left, height: bottom - top };
+};
+
+/**
+ * Build a group element around the given elements.
+ * The group is axis-aligned, fits the children's bounds and is drawn at scale 1.
+ */
+export const createGroupElement = (
+  id: string,
+  elements: EditorElement[]
+): EditorElement<GroupElementProps> => {
+  const bounds = elements.map(getElementBounds);
+  const minX = Math.min(...bounds.map((b) => b.x));
+  const minY = Math.min(...bounds.map((b) => b.y));
+  const maxX = Math.max(...bounds.map((b) => b.x + b.width));
+  const maxY = Math.max(...bounds.map((b) => b.y + b.height));
+  const contentSize = { width: maxX - minX, height: maxY - minY };
+
+  const children = sortByZIndex(elements).map((el, index) => ({
+    ...el,
+    position: { x: el.position.x - minX, y: el.position.y - minY },
+    zIndex: index,
+  }));
+
+  return {
+    id,
+    type: GROUP_ELEMENT_TYPE,
+    position: { x: minX, y: minY },
+    size: { ...contentSize },
+    rotation: 0,
+    opacity: 1,
+    zIndex: Math.max(...elements.map((el) => el.zIndex)),
+    visible: true,
+    locked: false,
+    props: {
+      children,
+      contentSize,
+    },
+  };
+};
+
+/**
+ * Convert a group's children back to canvas coordinates.
+ * Group rotation and scale are baked into each child's position, rotation and size;
+ * group opacity is multiplied into the children's opacity.
+ */
+export const getUngroupedChildren = (
+  group: EditorElement<GroupElementProps>
+): EditorElement[] => {
+  const { children, contentSize } = group.props;
+  const scaleX = contentSize.width > 0 ? group.size.width / contentSize.width : 1;
+  const scaleY = contentSize.height > 0 ? group.size.height / contentSize.height : 1;
+
+  return sortByZIndex(children).map((child) => {
+    const offset = rotatePoint(
+      child.position.x * scaleX,
+      child.position.y * scaleY,
+      group.rotation
+    );
+
+    return {
+      ...child,
+      position: {
+        x: group.position.x + offset.x,
+        y: group.position.y + offset.y,
+      },
+      size: {
+        width: child.size.width * scaleX,
+        height: child.size.height * scaleY,
+      },
+      rotation: (child.rotation + group.rotation) % 360,
+      opacity: child.opacity * group.opacity,
+      visible: group.visible === false ? false : child.visible,
+      locked: group.locked === true ? true : child.locked,
+    };
+  });
+};
+
+/**
+ * Renumber z-indices to match the stacking order. Elements already at their index are kept
+ * as they are, so history snapshots keep sharing them.
+ */
+const renumberZIndices = (elements: EditorElement[]): EditorElement[] =>
+  elements.map((el, index) => (el.zIndex === index ? el : { ...el, zIndex: index }));
+
+/**
+ * Replace the given elements with a single group at the stacking position of the topmost one.
+ * Z-indices are renumbered to match the resulting stacking order.
+ */
+export const groupElementsInList = (
+  elements: EditorElement[],
+  ids: string[],
+  groupId: string
+): EditorElement[] => {
+  const idSet = new Set(ids);
+  const members = elements.filter((el) => idSet.has(el.id));
+  if (members.length === 0) return elements;
+
+  const group = createGroupElement(groupId, members);
+  const sorted = sortByZIndex(elements);
+  const topmostId = sortByZIndex(members)[members.length - 1].id;
+
+  const result: EditorElement[] = [];
+  sorted.forEach((el) => {
+    if (el.id === topmostId) {
+      result.push(group);
+    } else if (!idSet.has(el.id)) {
+      result.push(el);
+    }
+  });
+
+  return renumberZIndices(result);
+};
+
+/**
+ * Replace a group with its children, keeping them at the group's stacking position.
+ * Z-indices are renumbered to match the resulting stacking order.
+ */
+export const ungroupElementInList = (
+  elements: EditorElement[],
+  groupId: string
+): EditorElement[] => {
+  const group = elements.find((el) => el.id === groupId);
+  if (!isGroupElement(group)) return elements;
+
+  const children = getUngroupedChildren(group);
+  const result: EditorElement[] = [];
+  sortByZIndex(elements).forEach((el) => {
+    if (el.id === groupId) {
+      result.push(...children);
+    } else {
+      result.push(el);
+    }
+  });
+
+  return renumberZIndices(result);
+};
+
+/**
+ * Apply updates to a child anywhere inside a group (including nested groups).
+ * Returns the group unchanged if the child is not found.
+ */
+export const updateGroupChild = (
+  group: EditorElement<GroupElementProps>,
+  childId: string,
+  updates: Partial<EditorElement>
+): EditorElement<GroupElementProps> => {
+  let found = false;
+  const children = group.props.children.map((child) => {
+    if (child.id === childId) {
+      found = true;
+      return { ...child, ...updates };
+    }
+    if (isGroupElement(child)) {
+      const updated = updateGroupChild(child, childId, updates);
+      if (updated !== child) {
+        found = true;
+        return updated;
+      }
+    }
+    return child;
+  });
+
+  if (!found) return group;
+  return { ...group, props: { ...group.props, children } };
+};
@@ -0,0 +1,118 @@
+/**
+ * History Utilities
+ *
+ * Derives human-readable labels for undo history entries from editor actions.
+ */
+
+import { EditorAction, EditorElement } from "../types";
+
+/** Label of the oldest entry in the history list */
+export const INITIAL_HISTORY_LABEL = "Initial state";
+
+/** Label used for transactions committed without an explicit label */
+export const DEFAULT_TRANSACTION_LABEL = "Batch edit";
+
+/**
+ * Get a short, human-readable name for an element
+ */
+export const getElementLabel = (element: EditorElement | undefined): string => {
+  if (!element) return "element";
+  if (element.displayName) return element.displayName;
+  return element.type.charAt(0).toUpperCase() + element.type.slice(1);
+};
+
+/**
+ * Describe an update to a single element, e.g. "Move Title" or "Change fontSize"
+ */
+const describeUpdate = (element: EditorElement | undefined, updates: Partial<EditorElement>) => {
+  const name = getElementLabel(element);
+  const keys = Object.keys(updates);
+
+  if (keys.length === 1) {
+    switch (keys[0]) {
+      case "position":
+        return `Move ${name}`;
+      case "size":
+        return `Resize ${name}`;
+      case "rotation":
+        return `Rotate ${name}`;
+      case "zIndex":
+        return `Reorder ${name}`;
+      case "visible":
+        return `${updates.visible === false ? "Hide" : "Show"} ${name}`;
+      case "locked":
+        return `${updates.locked ? "Lock" : "Unlock"} ${name}`;
+      case "displayName":
+        return `Rename ${name}`;
+      case "props": {
+        const changed = Object.keys(updates.props ?? {}).filter(
+          (prop) => updates.props[prop] !== element?.props?.[prop]
+        );
+        return changed.length > 0 ? `Change ${changed.join(", ")}` : `Edit ${name}`;
+      }
+      default:
+        return `Change ${keys[0]}`;
+    }
+  }
+
+  // Drag/resize/rotate handles commit position, size and rotation together
+  if (keys.every((key) => ["position", "size", "rotation"].includes(key))) {
+    return `Transform ${name}`;
+  }
+
+  return `Edit ${name}`;
+};
+
+/**
+ * Derive the history label for an action, given the elements before it is applied
+ */
+export const getActionLabel = (elements: EditorElement[], action: EditorAction): string => {
+  const find = (id: string) => elements.find((el) => el.id === id);
+  const plural = (count: number) => `${count} element${count === 1 ? "" : "s"}`;
+
+  switch (action.type) {
+    case "ADD_ELEMENT":
+      return `Add ${getElementLabel(action.element)}`;
+    case "ADD_ELEMENTS":
+      return action.elements.length === 1
+        ? `Add ${getElementLabel(action.elements[0])}`
+        : `Add ${plural(action.elements.length)}`;
+    case "UPDATE_ELEMENT":
+      return describeUpdate(find(action.id), action.updates);
+    case "UPDATE_ELEMENTS": {
+      const ids = Array.from(new Set(action.updates.map((update) => update.id)));
+      if (ids.length === 1) {
+        const updates = Object.assign({}, ...action.updates.map((update) => update.updates));
+        return describeUpdate(find(ids[0]), updates);
+      }
+      const onlyMoved = action.updates.every(
+        ({ updates }) => Object.keys(updates).length === 1 && "position" in updates
+      );
+      return `${onlyMoved ? "Move" : "Edit"} ${plural(ids.length)}`;
+    }
+    case "REMOVE_ELEMENT":
+      return `Delete ${getElementLabel(find(action.id))}`;
+    case "REMOVE_ELEMENTS":
+      return action.ids.length === 1
+        ? `Delete ${getElementLabel(find(action.ids[0]))}`
+        : `Delete ${plural(action.ids.length)}`;
+    case "GROUP_ELEMENTS":
+      return `Group ${plural(action.ids.length)}`;
+    case "UNGROUP_ELEMENT":
+      return `Ungroup ${getElementLabel(find(action.id))}`;
+    case "REORDER_ELEMENT":
+      return `Reorder ${getElementLabel(find(action.elementId))}`;
+    case "SET_ELEMENTS":
+      return "Replace elements";
+    case "SET_CANVAS_SIZE":
+      return "Resize canvas";
+    case "SET_BACKGROUND":
+      return action.color !== undefined ? "Change background color" : "Change background image";
+    case "SET_DOCUMENT":
+      return "Import";
+    case "CLEAR":
+      return "Clear canvas";
+    default:
+      return action.type;
+  }
+};
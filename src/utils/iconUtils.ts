@@ -0,0 +1,92 @@
+/**
+ * Icon Token Utilities
+ *
+ * Text can embed icons with tokens like `{attack}` or `{mana:red}`. Tokens are resolved
+ * against an icon map supplied on `EditorMode.context.iconUrls` (icon name to URL or
+ * asset key); tokens without a matching icon are drawn as plain text.
+ */
+
+/** Icon map: token name (e.g., "mana:red") to an image URL or an `imageUrls` asset key */
+export type IconUrlMap = Map<string, string> | Record<string, string>;
+
+/** Matches `{name}` and `{name:variant}` tokens */
+export const ICON_TOKEN_PATTERN = /\{([\w-]+(?::[\w-]+)?)\}/g;
+
+/**
+ * A piece of text split around icon tokens
+ */
+export type IconTokenSegment = { text: string; icon?: undefined } | { text: string; icon: string };
+
+/**
+ * Format an icon name as a token
+ */
+export const formatIconToken = (name: string): string => `{${name}}`;
+
+/**
+ * Split text into plain text and icon token segments.
+ * Only tokens accepted by `hasIcon` become icons; others stay part of the text.
+ */
+export const parseIconTokens = (
+  text: string,
+  hasIcon: (name: string) => boolean = () => true
+): IconTokenSegment[] => {
+  const segments: IconTokenSegment[] = [];
+  let plain = "";
+  let lastIndex = 0;
+
+  for (const match of text.matchAll(ICON_TOKEN_PATTERN)) {
+    const index = match.index ?? 0;
+    plain += text.slice(lastIndex, index);
+    lastIndex = index + match[0].length;
+
+    if (hasIcon(match[1])) {
+      if (plain) segments.push({ text: plain });
+      segments.push({ text: match[0], icon: match[1] });
+      plain = "";
+    } else {
+      plain += match[0];
+    }
+  }
+
+  plain += text.slice(lastIndex);
+  if (plain) segments.push({ text: plain });
+  return segments;
+};
+
+const getIconEntry = (icons: IconUrlMap, name: string): string | undefined =>
+  icons instanceof Map ? icons.get(name) : icons[name];
+
+/**
+ * Whether an icon map has an icon with the given name
+ */
+export const hasIcon = (icons: IconUrlMap | undefined, name: string): boolean =>
+  !!icons && !!getIconEntry(icons, name);
+
+/**
+ * Whether text contains a token that resolves to an icon
+ */
+export const hasIconTokens = (text: string, icons: IconUrlMap | undefined): boolean =>
+  !!icons && parseIconTokens(text, (name) => hasIcon(icons, name)).some((s) => s.icon);
+
+/**
+ * All icons of a map as [name, source] pairs
+ */
+export const getIconEntries = (icons: IconUrlMap | undefined): [string, string][] => {
+  if (!icons) return [];
+  return icons instanceof Map ? Array.from(icons.entries()) : Object.entries(icons);
+};
+
+/**
+ * Resolve an icon name to an image URL. Sources that aren't URLs are looked up
+ * in `imageUrls`, like image element sources.
+ */
+export const resolveIconUrl = (
+  name: string,
+  icons: IconUrlMap | undefined,
+  imageUrls?: Map<string, string>
+): string | undefined => {
+  const source = icons ? getIconEntry(icons, name) : undefined;
+  if (!source) return undefined;
+  if (/^(https?:|blob:|data:|\/)/.test(source)) return source;
+  return imageUrls?.get(source) ?? source;
+};
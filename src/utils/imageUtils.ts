@@ -0,0 +1,381 @@
+/**
+ * Image Utilities
+ *
+ * Pure helpers for image elements: the crop rectangle, the fit modes, the focal point
+ * that `"cover"` centres on, nine-slice scaling and the filters of the color adjustments.
+ */
+
+import { EditorElement, ImageCrop, ImageElementProps, ImageSliceInsets } from "../types";
+import { clamp, degToRad } from "./editorUtils";
+
+/**
+ * Rectangle in pixels
+ */
+export interface ImageRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * How an image element draws its image
+ */
+export interface ImageLayout {
+  /** Part of the image that is drawn, in image pixels (Konva's `crop`) */
+  crop: ImageRect;
+
+  /** Where that part is drawn, in element-local pixels */
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Resolve an image element's `src`: full URLs (http, blob, data) are used as they are,
+ * other values are looked up as asset keys in `imageUrls`.
+ */
+export const resolveImageSrc = (src: string, imageUrls?: Map<string, string>): string => {
+  if (src && (src.startsWith("http") || src.startsWith("blob:") || src.startsWith("data:"))) {
+    return src;
+  }
+  return (src && imageUrls?.get(src)) || src;
+};
+
+/** Crop that shows the whole image */
+export const FULL_IMAGE_CROP: ImageCrop = { x: 0, y: 0, width: 1, height: 1 };
+
+/** Smallest crop, as a fraction of the image size */
+const MIN_CROP_SIZE = 0.001;
+
+/**
+ * Keep a crop inside the image, with a minimum size. Unset crops show the whole image.
+ */
+export const normalizeImageCrop = (crop?: ImageCrop): ImageCrop => {
+  if (!crop) return FULL_IMAGE_CROP;
+  const x = clamp(crop.x || 0, 0, 1 - MIN_CROP_SIZE);
+  const y = clamp(crop.y || 0, 0, 1 - MIN_CROP_SIZE);
+  return {
+    x,
+    y,
+    width: clamp(crop.width || 0, MIN_CROP_SIZE, 1 - x),
+    height: clamp(crop.height || 0, MIN_CROP_SIZE, 1 - y),
+  };
+};
+
+/**
+ * Lay an image out in an element box: the crop selects part of the image, which is then
+ * stretched (`"fill"`, also when unset), fitted inside (`"contain"`) or scaled to cover the
+ * box (`"cover"`). Cover keeps the focal point as close to the centre as the crop allows.
+ */
+export const getImageLayout = (
+  imageSize: { width: number; height: number },
+  box: { width: number; height: number },
+  props: Pick<ImageElementProps, "fit" | "crop" | "focalX" | "focalY">
+): ImageLayout => {
+  const crop = normalizeImageCrop(props.crop);
+  const region: ImageRect = {
+    x: crop.x * imageSize.width,
+    y: crop.y * imageSize.height,
+    width: crop.width * imageSize.width,
+    height: crop.height * imageSize.height,
+  };
+  const fill: ImageLayout = {
+    crop: region,
+    x: 0,
+    y: 0,
+    width: box.width,
+    height: box.height,
+  };
+
+  if (region.width <= 0 || region.height <= 0 || box.width <= 0 || box.height <= 0) return fill;
+
+  if (props.fit === "contain") {
+    const scale = Math.min(box.width / region.width, box.height / region.height);
+    const width = region.width * scale;
+    const height = region.height * scale;
+    return {
+      crop: region,
+      x: (box.width - width) / 2,
+      y: (box.height - height) / 2,
+      width,
+      height,
+    };
+  }
+
+  if (props.fit === "cover") {
+    const scale = Math.max(box.width / region.width, box.height / region.height);
+    const width = Math.min(region.width, box.width / scale);
+    const height = Math.min(region.height, box.height / scale);
+    const focusX = (props.focalX ?? 0.5) * imageSize.width;
+    const focusY = (props.focalY ?? 0.5) * imageSize.height;
+    return {
+      ...fill,
+      crop: {
+        x: clamp(focusX - width / 2, region.x, region.x + region.width - width),
+        y: clamp(focusY - height / 2, region.y, region.y + region.height - height),
+        width,
+        height,
+      },
+    };
+  }
+
+  return fill;
+};
+
+/** Most tiles along one edge of a tiled nine-slice image */
+const MAX_SLICE_TILES = 64;
+
+/**
+ * Check whether nine-slice insets slice the image
+ */
+export const hasImageSlice = (slice?: ImageSliceInsets): slice is ImageSliceInsets =>
+  !!slice && (slice.top > 0 || slice.right > 0 || slice.bottom > 0 || slice.left > 0);
+
+interface SliceSpan {
+  /** Source start and length, in image pixels */
+  source: number;
+  sourceLength: number;
+
+  /** Destination start and length, in element-local pixels */
+  start: number;
+  length: number;
+}
+
+/**
+ * Split one axis into the spans of its three slices. Tiled middle slices are repeated at
+ * their (corner-scaled) size, rounded to a whole number of tiles like CSS `border-image: round`.
+ */
+const getSliceSpans = (
+  source: number,
+  sourceLength: number,
+  startInset: number,
+  endInset: number,
+  length: number,
+  tile: boolean
+): SliceSpan[] => {
+  const first = clamp(startInset || 0, 0, sourceLength);
+  const last = clamp(endInset || 0, 0, sourceLength - first);
+  const middle = sourceLength - first - last;
+
+  // Corners shrink together when they don't fit the box
+  const scale = first + last > length ? length / (first + last) : 1;
+  const firstLength = first * scale;
+  const lastLength = last * scale;
+  const middleLength = length - firstLength - lastLength;
+
+  const spans: SliceSpan[] = [
+    { source, sourceLength: first, start: 0, length: firstLength },
+    {
+      source: source + sourceLength - last,
+      sourceLength: last,
+      start: length - lastLength,
+      length: lastLength,
+    },
+  ];
+
+  if (middle > 0 && middleLength > 0) {
+    const count = tile ? clamp(Math.round(middleLength / (middle * scale)), 1, MAX_SLICE_TILES) : 1;
+    const tileLength = middleLength / count;
+    for (let index = 0; index < count; index++) {
+      spans.push({
+        source: source + first,
+        sourceLength: middle,
+        start: firstLength + index * tileLength,
+        length: tileLength,
+      });
+    }
+  }
+
+  return spans.filter((span) => span.sourceLength > 0 && span.length > 0);
+};
+
+/**
+ * Lay a nine-slice image out in an element box. The (cropped) image is cut into corners,
+ * edges and a centre by the insets; corners keep their size, edges and the centre stretch
+ * or tile (`sliceMode`). Returns one patch per drawn piece.
+ */
+export const getNineSlicePatches = (
+  imageSize: { width: number; height: number },
+  box: { width: number; height: number },
+  props: Pick<ImageElementProps, "crop" | "slice" | "sliceMode">
+): ImageLayout[] => {
+  const crop = normalizeImageCrop(props.crop);
+  const slice = props.slice ?? { top: 0, right: 0, bottom: 0, left: 0 };
+  const tile = props.sliceMode === "tile";
+
+  const columns = getSliceSpans(
+    crop.x * imageSize.width,
+    crop.width * imageSize.width,
+    slice.left,
+    slice.right,
+    box.width,
+    tile
+  );
+  const rows = getSliceSpans(
+    crop.y * imageSize.height,
+    crop.height * imageSize.height,
+    slice.top,
+    slice.bottom,
+    box.height,
+    tile
+  );
+
+  return rows.flatMap((row) =>
+    columns.map((column) => ({
+      crop: {
+        x: column.source,
+        y: row.source,
+        width: column.sourceLength,
+        height: row.sourceLength,
+      },
+      x: column.start,
+      y: row.start,
+      width: column.length,
+      height: row.length,
+    }))
+  );
+};
+
+/**
+ * Where the whole (uncropped) image lies in element-local pixels, at the scale the layout
+ * draws it. Used to show the image around the crop while cropping.
+ */
+export const getImageFrame = (
+  imageSize: { width: number; height: number },
+  layout: ImageLayout
+): ImageRect => {
+  const scaleX = layout.crop.width > 0 ? layout.width / layout.crop.width : 1;
+  const scaleY = layout.crop.height > 0 ? layout.height / layout.crop.height : 1;
+  return {
+    x: layout.x - layout.crop.x * scaleX,
+    y: layout.y - layout.crop.y * scaleY,
+    width: imageSize.width * scaleX,
+    height: imageSize.height * scaleY,
+  };
+};
+
+/**
+ * Get the update that crops an image element to a rectangle drawn over its image frame
+ * (both in element-local pixels). The rectangle is kept inside the frame, and the element
+ * moves and resizes to it, so the image stays where it is on the canvas.
+ */
+export const getImageCropUpdate = (
+  element: EditorElement<ImageElementProps>,
+  frame: ImageRect,
+  bounds: ImageRect
+): Partial<EditorElement<ImageElementProps>> => {
+  const left = clamp(bounds.x, frame.x, frame.x + frame.width - 1);
+  const top = clamp(bounds.y, frame.y, frame.y + frame.height - 1);
+  const rect: ImageRect = {
+    x: left,
+    y: top,
+    width: clamp(bounds.x + bounds.width, left + 1, frame.x + frame.width) - left,
+    height: clamp(bounds.y + bounds.height, top + 1, frame.y + frame.height) - top,
+  };
+  const crop = normalizeImageCrop({
+    x: (rect.x - frame.x) / frame.width,
+    y: (rect.y - frame.y) / frame.height,
+    width: rect.width / frame.width,
+    height: rect.height / frame.height,
+  });
+
+  // Move the element by the rectangle's offset, turned with the element
+  const rad = degToRad(element.rotation || 0);
+  const cos = Math.cos(rad);
+  const sin = Math.sin(rad);
+  return {
+    position: {
+      x: element.position.x + rect.x * cos - rect.y * sin,
+      y: element.position.y + rect.x * sin + rect.y * cos,
+    },
+    size: { width: rect.width, height: rect.height },
+    props: { ...element.props, crop },
+  };
+};
+
+/**
+ * Konva filters used for image adjustments (keys of `Konva.Filters`)
+ */
+export type ImageFilterName = "HSL" | "Brighten" | "Contrast" | "RGBA" | "Invert" | "Blur";
+
+/**
+ * Konva filters and the node attributes they read
+ */
+export interface ImageFilterConfig {
+  /** Filters in the order they are applied; empty when the image is unadjusted */
+  filters: ImageFilterName[];
+
+  /** Filter attributes to set on the image node */
+  attrs: {
+    hue?: number;
+    saturation?: number;
+    brightness?: number;
+    contrast?: number;
+    red?: number;
+    green?: number;
+    blue?: number;
+    alpha?: number;
+    blurRadius?: number;
+  };
+}
+
+/** Saturation factor treated as fully gray (Konva's saturation is a power of two) */
+const MIN_SATURATION_FACTOR = 1 / 1024;
+
+/**
+ * Parse a `#rgb` or `#rrggbb` color. Returns null for other formats.
+ */
+export const parseHexColor = (color: string): { r: number; g: number; b: number } | null => {
+  const hex = color.trim().replace(/^#/, "");
+  const full = hex.length === 3 ? hex.replace(/./g, (char) => char + char) : hex;
+  if (!/^[0-9a-f]{6}$/i.test(full)) return null;
+  const value = parseInt(full, 16);
+  return { r: (value >> 16) & 255, g: (value >> 8) & 255, b: value & 255 };
+};
+
+/**
+ * Get the Konva filters for the color adjustments of image props.
+ * Saturation and grayscale combine into one HSL saturation; the blur runs last.
+ */
+export const getImageFilterConfig = (props: Partial<ImageElementProps>): ImageFilterConfig => {
+  const config: ImageFilterConfig = { filters: [], attrs: {} };
+
+  const hue = props.hueRotate ?? 0;
+  const saturationFactor =
+    Math.max(0, 1 + (props.saturation ?? 0)) * (1 - clamp(props.grayscale ?? 0, 0, 1));
+  if (hue !== 0 || saturationFactor !== 1) {
+    config.filters.push("HSL");
+    config.attrs.hue = hue;
+    config.attrs.saturation = Math.log2(Math.max(saturationFactor, MIN_SATURATION_FACTOR));
+  }
+
+  if (props.brightness) {
+    config.filters.push("Brighten");
+    config.attrs.brightness = clamp(props.brightness, -1, 1);
+  }
+
+  if (props.contrast) {
+    config.filters.push("Contrast");
+    config.attrs.contrast = clamp(props.contrast, -100, 100);
+  }
+
+  const tint = props.tintColor ? parseHexColor(props.tintColor) : null;
+  if (tint && (props.tintStrength ?? 0) > 0) {
+    config.filters.push("RGBA");
+    config.attrs.red = tint.r;
+    config.attrs.green = tint.g;
+    config.attrs.blue = tint.b;
+    config.attrs.alpha = clamp(props.tintStrength ?? 0, 0, 1);
+  }
+
+  if (props.invert) config.filters.push("Invert");
+
+  if ((props.blur ?? 0) > 0) {
+    config.filters.push("Blur");
+    config.attrs.blurRadius = props.blur;
+  }
+
+  return config;
+};
@@ -0,0 +1,86 @@
+/**
+ * Clipping Mask Utilities
+ *
+ * An element marked as a clipping mask (`clipMask`) clips the elements directly above it that
+ * are marked as clipped (`clipped`): they are drawn only where the mask is drawn, like
+ * clipping masks in layer-based image editors. The first element above the mask that isn't
+ * clipped (or is a mask itself) ends the run, so clipped elements elsewhere are drawn as usual.
+ */
+
+import { EditorElement, ElementUpdate } from "../types";
+import { sortByZIndex } from "./editorUtils";
+
+/**
+ * An element in drawing order, with the elements clipped to it when it is a clipping mask
+ */
+export interface MaskRun {
+  element: EditorElement;
+  masked: EditorElement[];
+}
+
+/**
+ * Group elements in drawing order (lowest z-index first) into clipping mask runs
+ */
+export const getMaskRuns = (elements: EditorElement[]): MaskRun[] => {
+  const runs: MaskRun[] = [];
+  let mask: MaskRun | null = null;
+
+  sortByZIndex(elements).forEach((element) => {
+    if (mask && element.clipped && !element.clipMask) {
+      mask.masked.push(element);
+      return;
+    }
+    const run: MaskRun = { element, masked: [] };
+    mask = element.clipMask ? run : null;
+    runs.push(run);
+  });
+  return runs;
+};
+
+/**
+ * Map the ID of every element clipped to a mask to that mask
+ */
+export const getClippingMasks = (elements: EditorElement[]): Map<string, EditorElement> => {
+  const masks = new Map<string, EditorElement>();
+  getMaskRuns(elements).forEach(({ element, masked }) =>
+    masked.forEach((child) => masks.set(child.id, element))
+  );
+  return masks;
+};
+
+/**
+ * Get the clipping mask an element would be clipped to: the mask directly below it, or the
+ * mask of the clipped element directly below it
+ */
+export const getMaskBelow = (elements: EditorElement[], id: string): EditorElement | null => {
+  const sorted = sortByZIndex(elements);
+  const index = sorted.findIndex((el) => el.id === id);
+  const below = sorted[index - 1];
+  if (index < 1 || sorted[index].clipMask) return null;
+  if (below.clipMask) return below;
+  return below.clipped ? (getClippingMasks(elements).get(below.id) ?? null) : null;
+};
+
+/**
+ * Get the updates turning an element into a clipping mask or back into a regular element.
+ * A new mask clips the element directly above it; a released mask releases its run.
+ */
+export const getMaskToggleUpdates = (elements: EditorElement[], id: string): ElementUpdate[] => {
+  const element = elements.find((el) => el.id === id);
+  if (!element) return [];
+
+  if (element.clipMask) {
+    const run = getMaskRuns(elements).find((item) => item.element.id === id);
+    return [
+      { id, updates: { clipMask: false } },
+      ...(run?.masked ?? []).map((child) => ({ id: child.id, updates: { clipped: false } })),
+    ];
+  }
+
+  const sorted = sortByZIndex(elements);
+  const above = sorted[sorted.findIndex((el) => el.id === id) + 1];
+  return [
+    { id, updates: { clipMask: true, clipped: false } },
+    ...(above && !above.clipMask ? [{ id: above.id, updates: { clipped: true } }] : []),
+  ];
+};
@@ -0,0 +1,551 @@
+/**
+ * Path Utilities
+ *
+ * Helpers for vector path elements: parsing and serializing SVG path data,
+ * bounds, anchor editing, and fitting the element box to its path.
+ */
+
+import {
+  EditorElement,
+  PathAnchor,
+  PathContour,
+  PathElementProps,
+  PathPoint,
+} from "../types";
+import { createElement, degToRad } from "./editorUtils";
+
+/** Element type of vector paths */
+export const PATH_ELEMENT_TYPE = "path";
+
+/**
+ * Check if an element is a vector path
+ */
+export const isPathElement = (
+  element: EditorElement | null | undefined
+): element is EditorElement<PathElementProps> => element?.type === PATH_ELEMENT_TYPE;
+
+// ============================================================================
+// Parsing / Serialization
+// ============================================================================
+
+const PARAM_COUNTS: Record<string, number> = {
+  m: 2,
+  l: 2,
+  h: 1,
+  v: 1,
+  c: 6,
+  s: 4,
+  q: 4,
+  t: 2,
+  a: 7,
+  z: 0,
+};
+
+/**
+ * Parse SVG path data into contours of anchors.
+ * Quadratic curves are converted to cubic ones; arcs are approximated by straight lines.
+ */
+export const parsePathData = (d: string): PathContour[] => {
+  const tokens = d.match(/[a-zA-Z]|-?(?:\d+\.?\d*|\.\d+)(?:e[-+]?\d+)?/g) ?? [];
+  const contours: PathContour[] = [];
+
+  let contour: PathContour | null = null;
+  let current: PathPoint = { x: 0, y: 0 };
+  let start: PathPoint = { x: 0, y: 0 };
+  // Last control point, used to reflect smooth curve handles (S / T commands)
+  let lastCubic: PathPoint | null = null;
+  let lastQuad: PathPoint | null = null;
+
+  const lastAnchor = () => contour!.anchors[contour!.anchors.length - 1];
+
+  const ensureContour = () => {
+    if (!contour) {
+      contour = { anchors: [{ ...current }], closed: false };
+      contours.push(contour);
+    }
+  };
+
+  const curveTo = (c1: PathPoint, c2: PathPoint, to: PathPoint) => {
+    ensureContour();
+    lastAnchor().handleOut = c1;
+    contour!.anchors.push({ ...to, handleIn: c2 });
+    current = to;
+  };
+
+  const lineTo = (to: PathPoint) => {
+    ensureContour();
+    contour!.anchors.push({ ...to });
+    current = to;
+  };
+
+  const closeContour = () => {
+    if (!contour) return;
+    const { anchors } = contour;
+    const first = anchors[0];
+    const last = anchors[anchors.length - 1];
+    // A closing segment that ends on the first anchor is folded into it
+    if (anchors.length > 1 && last.x === first.x && last.y === first.y) {
+      if (last.handleIn) first.handleIn = last.handleIn;
+      anchors.pop();
+    }
+    contour.closed = true;
+    current = { ...start };
+    contour = null;
+  };
+
+  let index = 0;
+  let command = "";
+  while (index < tokens.length) {
+    if (/[a-zA-Z]/.test(tokens[index])) {
+      command = tokens[index++];
+    } else if (!command) {
+      // Numbers before any command are invalid
+      index++;
+      continue;
+    }
+
+    const type = command.toLowerCase();
+    const relative = command !== command.toUpperCase();
+    const count = PARAM_COUNTS[type];
+    if (count === undefined || type === "z") {
+      if (type === "z") closeContour();
+      // Skip any stray numbers until the next command
+      command = "";
+      lastCubic = lastQuad = null;
+      continue;
+    }
+
+    const values = tokens.slice(index, index + count).map(Number);
+    if (values.length < count || values.some((value) => isNaN(value))) break;
+    index += count;
+
+    const abs = (x: number, y: number): PathPoint =>
+      relative ? { x: current.x + x, y: current.y + y } : { x, y };
+    let nextCubic: PathPoint | null = null;
+    let nextQuad: PathPoint | null = null;
+
+    switch (type) {
+      case "m": {
+        const to = abs(values[0], values[1]);
+        contour = { anchors: [{ ...to }], closed: false };
+        contours.push(contour);
+        current = start = to;
+        // Extra coordinate pairs after a move are line segments
+        command = relative ? "l" : "L";
+        break;
+      }
+      case "l":
+        lineTo(abs(values[0], values[1]));
+        break;
+      case "h":
+        lineTo({ x: relative ? current.x + values[0] : values[0], y: current.y });
+        break;
+      case "v":
+        lineTo({ x: current.x, y: relative ? current.y + values[0] : values[0] });
+        break;
+      case "c": {
+        const c1 = abs(values[0], values[1]);
+        const c2 = abs(values[2], values[3]);
+        curveTo(c1, c2, abs(values[4], values[5]));
+        nextCubic = c2;
+        break;
+      }
+      case "s": {
+        const c1 = lastCubic
+          ? { x: 2 * current.x - lastCubic.x, y: 2 * current.y - lastCubic.y }
+          : { ...current };
+        const c2 = abs(values[0], values[1]);
+        curveTo(c1, c2, abs(values[2], values[3]));
+        nextCubic = c2;
+        break;
+      }
+      case "q":
+      case "t": {
+        const from = current;
+        const q: PathPoint =
+          type === "q"
+            ? abs(values[0], values[1])
+            : lastQuad
+              ? { x: 2 * from.x - lastQuad.x, y: 2 * from.y - lastQuad.y }
+              : { ...from };
+        const to = type === "q" ? abs(values[2], values[3]) : abs(values[0], values[1]);
+        curveTo(
+          { x: from.x + ((q.x - from.x) * 2) / 3, y: from.y + ((q.y - from.y) * 2) / 3 },
+          { x: to.x + ((q.x - to.x) * 2) / 3, y: to.y + ((q.y - to.y) * 2) / 3 },
+          to
+        );
+        nextQuad = q;
+        break;
+      }
+      case "a":
+        lineTo(abs(values[5], values[6]));
+        break;
+    }
+
+    lastCubic = nextCubic;
+    lastQuad = nextQuad;
+  }
+
+  return contours;
+};
+
+const formatNumber = (value: number) => String(Math.round(value * 100) / 100);
+const formatPoint = (point: PathPoint) => `${formatNumber(point.x)} ${formatNumber(point.y)}`;
+
+const formatSegment = (from: PathAnchor, to: PathAnchor) => {
+  if (!from.handleOut && !to.handleIn) return `L ${formatPoint(to)}`;
+  const c1 = formatPoint(from.handleOut ?? from);
+  const c2 = formatPoint(to.handleIn ?? to);
+  return `C ${c1} ${c2} ${formatPoint(to)}`;
+};
+
+/**
+ * Serialize contours into SVG path data (absolute M / L / C / Z commands).
+ * `closed` overrides the closed flag of every contour when provided.
+ */
+export const serializePathData = (contours: PathContour[], closed?: boolean): string =>
+  contours
+    .filter((contour) => contour.anchors.length > 0)
+    .map(({ anchors, closed: contourClosed }) => {
+      const isClosed = closed ?? contourClosed;
+      const parts = [`M ${formatPoint(anchors[0])}`];
+      anchors.slice(1).forEach((anchor, index) => {
+        parts.push(formatSegment(anchors[index], anchor));
+      });
+
+      if (isClosed && anchors.length > 1) {
+        const last = anchors[anchors.length - 1];
+        if (last.handleOut || anchors[0].handleIn) parts.push(formatSegment(last, anchors[0]));
+        parts.push("Z");
+      }
+      return parts.join(" ");
+    })
+    .join(" ");
+
+// ============================================================================
+// Geometry
+// ============================================================================
+
+/**
+ * Cubic segments of a contour, as [start, control1, control2, end]
+ */
+export const getContourSegments = (
+  contour: PathContour
+): [PathPoint, PathPoint, PathPoint, PathPoint][] => {
+  const { anchors, closed } = contour;
+  const count = closed ? anchors.length : anchors.length - 1;
+
+  return Array.from({ length: Math.max(0, count) }).map((_, index) => {
+    const from = anchors[index];
+    const to = anchors[(index + 1) % anchors.length];
+    return [from, from.handleOut ?? from, to.handleIn ?? to, to];
+  });
+};
+
+/**
+ * Point on a cubic bezier at parameter t
+ */
+export const getBezierPoint = (
+  [p0, p1, p2, p3]: [PathPoint, PathPoint, PathPoint, PathPoint],
+  t: number
+): PathPoint => {
+  const mt = 1 - t;
+  const a = mt * mt * mt;
+  const b = 3 * mt * mt * t;
+  const c = 3 * mt * t * t;
+  const d = t * t * t;
+  return {
+    x: a * p0.x + b * p1.x + c * p2.x + d * p3.x,
+    y: a * p0.y + b * p1.y + c * p2.y + d * p3.y,
+  };
+};
+
+/**
+ * Parameters in (0, 1) where one coordinate of a cubic bezier reaches an extremum
+ */
+const getExtremaParams = (p0: number, p1: number, p2: number, p3: number): number[] => {
+  const a = 3 * (-p0 + 3 * p1 - 3 * p2 + p3);
+  const b = 6 * (p0 - 2 * p1 + p2);
+  const c = 3 * (p1 - p0);
+
+  if (Math.abs(a) < 1e-12) {
+    return Math.abs(b) < 1e-12 ? [] : [-c / b];
+  }
+  const discriminant = b * b - 4 * a * c;
+  if (discriminant < 0) return [];
+  const root = Math.sqrt(discriminant);
+  return [(-b + root) / (2 * a), (-b - root) / (2 * a)];
+};
+
+/**
+ * Exact bounding box of a set of contours
+ */
+export const getPathBounds = (
+  contours: PathContour[]
+): { x: number; y: number; width: number; height: number } => {
+  const points: PathPoint[] = [];
+
+  contours.forEach((contour) => {
+    points.push(...contour.anchors);
+    getContourSegments(contour).forEach((segment) => {
+      const [p0, p1, p2, p3] = segment;
+      [
+        ...getExtremaParams(p0.x, p1.x, p2.x, p3.x),
+        ...getExtremaParams(p0.y, p1.y, p2.y, p3.y),
+      ]
+        .filter((t) => t > 0 && t < 1)
+        .forEach((t) => points.push(getBezierPoint(segment, t)));
+    });
+  });
+
+  if (points.length === 0) return { x: 0, y: 0, width: 0, height: 0 };
+
+  const xs = points.map((point) => point.x);
+  const ys = points.map((point) => point.y);
+  const minX = Math.min(...xs);
+  const minY = Math.min(...ys);
+  return { x: minX, y: minY, width: Math.max(...xs) - minX, height: Math.max(...ys) - minY };
+};
+
+/**
+ * Find the point of a contour nearest to `point`, by sampling each segment
+ */
+export const getNearestSegmentPoint = (
+  contour: PathContour,
+  point: PathPoint,
+  samples = 32
+): { segmentIndex: number; t: number; point: PathPoint; distance: number } | null => {
+  let nearest: { segmentIndex: number; t: number; point: PathPoint; distance: number } | null =
+    null;
+
+  getContourSegments(contour).forEach((segment, segmentIndex) => {
+    for (let step = 1; step < samples; step++) {
+      const t = step / samples;
+      const candidate = getBezierPoint(segment, t);
+      const distance = Math.hypot(candidate.x - point.x, candidate.y - point.y);
+      if (!nearest || distance < nearest.distance) {
+        nearest = { segmentIndex, t, point: candidate, distance };
+      }
+    }
+  });
+
+  return nearest;
+};
+
+// ============================================================================
+// Anchor Editing
+// ============================================================================
+
+const lerp = (a: PathPoint, b: PathPoint, t: number): PathPoint => ({
+  x: a.x + (b.x - a.x) * t,
+  y: a.y + (b.y - a.y) * t,
+});
+
+/**
+ * Insert an anchor on a segment at parameter t without changing the path's shape
+ */
+export const insertAnchor = (
+  contour: PathContour,
+  segmentIndex: number,
+  t: number
+): PathContour => {
+  const segments = getContourSegments(contour);
+  const segment = segments[segmentIndex];
+  if (!segment) return contour;
+
+  const { anchors } = contour;
+  const fromIndex = segmentIndex;
+  const toIndex = (segmentIndex + 1) % anchors.length;
+  const from = anchors[fromIndex];
+  const to = anchors[toIndex];
+  const isCurve = !!(from.handleOut || to.handleIn);
+
+  // Split the segment with de Casteljau's algorithm
+  const [p0, p1, p2, p3] = segment;
+  const a = lerp(p0, p1, t);
+  const b = lerp(p1, p2, t);
+  const c = lerp(p2, p3, t);
+  const d = lerp(a, b, t);
+  const e = lerp(b, c, t);
+  const split = lerp(d, e, t);
+
+  const inserted: PathAnchor = isCurve ? { ...split, handleIn: d, handleOut: e } : split;
+  const next = anchors.map((anchor, index) => {
+    if (!isCurve) return anchor;
+    if (index === fromIndex) return { ...anchor, handleOut: a };
+    if (index === toIndex) return { ...anchor, handleIn: c };
+    return anchor;
+  });
+  next.splice(fromIndex + 1, 0, inserted);
+
+  return { ...contour, anchors: next };
+};
+
+/**
+ * Remove an anchor from a contour
+ */
+export const removeAnchor = (contour: PathContour, anchorIndex: number): PathContour => ({
+  ...contour,
+  anchors: contour.anchors.filter((_, index) => index !== anchorIndex),
+});
+
+/**
+ * Move an anchor and its handles to a new position
+ */
+export const moveAnchor = (
+  contour: PathContour,
+  anchorIndex: number,
+  position: PathPoint
+): PathContour => ({
+  ...contour,
+  anchors: contour.anchors.map((anchor, index) => {
+    if (index !== anchorIndex) return anchor;
+    const dx = position.x - anchor.x;
+    const dy = position.y - anchor.y;
+    const shift = (handle?: PathPoint) => handle && { x: handle.x + dx, y: handle.y + dy };
+    return {
+      ...anchor,
+      ...position,
+      handleIn: shift(anchor.handleIn),
+      handleOut: shift(anchor.handleOut),
+    };
+  }),
+});
+
+/**
+ * Move one handle of an anchor. When `mirror` is set, the opposite handle is kept
+ * symmetrical so the curve stays smooth through the anchor.
+ */
+export const moveHandle = (
+  contour: PathContour,
+  anchorIndex: number,
+  handle: "handleIn" | "handleOut",
+  position: PathPoint,
+  mirror = true
+): PathContour => ({
+  ...contour,
+  anchors: contour.anchors.map((anchor, index) => {
+    if (index !== anchorIndex) return anchor;
+    const opposite = handle === "handleIn" ? "handleOut" : "handleIn";
+    return {
+      ...anchor,
+      [handle]: position,
+      ...(mirror && {
+        [opposite]: { x: 2 * anchor.x - position.x, y: 2 * anchor.y - position.y },
+      }),
+    };
+  }),
+});
+
+/**
+ * Toggle an anchor between a corner (no handles) and a smooth point whose handles
+ * follow the direction of its neighbours
+ */
+export const toggleAnchorSmooth = (contour: PathContour, anchorIndex: number): PathContour => {
+  const { anchors, closed } = contour;
+  const anchor = anchors[anchorIndex];
+  if (!anchor) return contour;
+
+  if (anchor.handleIn || anchor.handleOut) {
+    const { handleIn: _in, handleOut: _out, ...corner } = anchor;
+    return { ...contour, anchors: anchors.map((a, i) => (i === anchorIndex ? corner : a)) };
+  }
+
+  const prev = anchors[anchorIndex - 1] ?? (closed ? anchors[anchors.length - 1] : anchor);
+  const next = anchors[anchorIndex + 1] ?? (closed ? anchors[0] : anchor);
+  // Handles run parallel to the line between the neighbours, a third of its length each way
+  const dx = (next.x - prev.x) / 6;
+  const dy = (next.y - prev.y) / 6;
+  const smooth: PathAnchor = {
+    ...anchor,
+    handleIn: { x: anchor.x - dx, y: anchor.y - dy },
+    handleOut: { x: anchor.x + dx, y: anchor.y + dy },
+  };
+  return { ...contour, anchors: anchors.map((a, i) => (i === anchorIndex ? smooth : a)) };
+};
+
+// ============================================================================
+// Elements
+// ============================================================================
+
+const translateContours = (contours: PathContour[], dx: number, dy: number): PathContour[] => {
+  const shift = (point?: PathPoint) => point && { x: point.x + dx, y: point.y + dy };
+  return contours.map((contour) => ({
+    ...contour,
+    anchors: contour.anchors.map((anchor) => ({
+      ...anchor,
+      x: anchor.x + dx,
+      y: anchor.y + dy,
+      handleIn: shift(anchor.handleIn),
+      handleOut: shift(anchor.handleOut),
+    })),
+  }));
+};
+
+/**
+ * Create a path element from contours in canvas coordinates.
+ * The element box is fitted to the path bounds.
+ */
+export const createPathElement = (
+  contours: PathContour[],
+  props: Partial<PathElementProps> = {},
+  options: { zIndex?: number } = {}
+): EditorElement<PathElementProps> => {
+  const bounds = getPathBounds(contours);
+  const pathSize = { width: Math.max(1, bounds.width), height: Math.max(1, bounds.height) };
+  const closed = props.closed ?? contours.every((contour) => contour.closed);
+
+  return createElement<PathElementProps>(
+    PATH_ELEMENT_TYPE,
+    {
+      ...props,
+      d: serializePathData(translateContours(contours, -bounds.x, -bounds.y), closed),
+      pathSize,
+      closed,
+    },
+    {
+      position: { x: bounds.x, y: bounds.y },
+      size: pathSize,
+      zIndex: options.zIndex,
+    }
+  );
+};
+
+/**
+ * Compute the updates that store edited contours (in path coordinates) on a path element.
+ * The path is re-fitted to its bounds, and the element moves so the drawing stays in place.
+ */
+export const getPathContoursUpdate = (
+  element: EditorElement<PathElementProps>,
+  contours: PathContour[]
+): Partial<EditorElement<PathElementProps>> => {
+  const bounds = getPathBounds(contours);
+  const { pathSize } = element.props;
+  const scaleX = element.size.width / (pathSize?.width || 1);
+  const scaleY = element.size.height / (pathSize?.height || 1);
+  const nextPathSize = { width: Math.max(1, bounds.width), height: Math.max(1, bounds.height) };
+
+  // The element rotates around its top-left corner, so the offset is rotated too
+  const angle = degToRad(element.rotation || 0);
+  const offsetX = bounds.x * scaleX;
+  const offsetY = bounds.y * scaleY;
+
+  return {
+    position: {
+      x: element.position.x + offsetX * Math.cos(angle) - offsetY * Math.sin(angle),
+      y: element.position.y + offsetX * Math.sin(angle) + offsetY * Math.cos(angle),
+    },
+    size: {
+      width: nextPathSize.width * scaleX,
+      height: nextPathSize.height * scaleY,
+    },
+    props: {
+      ...element.props,
+      d: serializePathData(
+        translateContours(contours, -bounds.x, -bounds.y),
+        element.props.closed
+      ),
+      pathSize: nextPathSize,
+    },
+  };
+};
@@ -0,0 +1,486 @@
+/**
+ * Rich Text Utilities
+ *
+ * Helpers for rich text elements: editing styled runs by character range and
+ * laying runs out into wrapped, aligned lines of styled fragments.
+ */
+
+import { EditorElement, EditorFill, RichTextElementProps, TextRun, TextRunStyle } from "../types";
+import { parseIconTokens } from "./iconUtils";
+
+/** Element type of rich text */
+export const RICH_TEXT_ELEMENT_TYPE = "richtext";
+
+/** Style keys a run can override */
+export const TEXT_RUN_STYLE_KEYS: (keyof TextRunStyle)[] = [
+  "bold",
+  "italic",
+  "underline",
+  "strikethrough",
+  "color",
+  "fontSize",
+  "fontFamily",
+];
+
+/**
+ * Check if an element is rich text
+ */
+export const isRichTextElement = (
+  element: EditorElement | null | undefined
+): element is EditorElement<RichTextElementProps> => element?.type === RICH_TEXT_ELEMENT_TYPE;
+
+// ============================================================================
+// Run Editing
+// ============================================================================
+
+/**
+ * Plain text of a list of runs
+ */
+export const getRunsText = (runs: TextRun[]): string => runs.map((run) => run.text).join("");
+
+/**
+ * The style part of a run (unset keys omitted)
+ */
+export const getRunStyle = (run: TextRunStyle): TextRunStyle => {
+  const style: TextRunStyle = {};
+  TEXT_RUN_STYLE_KEYS.forEach((key) => {
+    if (run[key] !== undefined) (style as Record<string, unknown>)[key] = run[key];
+  });
+  return style;
+};
+
+/**
+ * Whether two runs have the same style
+ */
+export const isSameRunStyle = (a: TextRunStyle, b: TextRunStyle): boolean =>
+  TEXT_RUN_STYLE_KEYS.every((key) => a[key] === b[key]);
+
+/**
+ * Drop empty runs and merge neighbours that share a style
+ */
+export const normalizeRuns = (runs: TextRun[]): TextRun[] =>
+  runs.reduce<TextRun[]>((result, run) => {
+    if (!run.text) return result;
+    const previous = result[result.length - 1];
+    if (previous && isSameRunStyle(previous, run)) {
+      result[result.length - 1] = { ...previous, text: previous.text + run.text };
+    } else {
+      result.push({ ...getRunStyle(run), text: run.text });
+    }
+    return result;
+  }, []);
+
+/**
+ * Runs covering the character range [start, end)
+ */
+export const sliceRuns = (runs: TextRun[], start: number, end: number): TextRun[] => {
+  const result: TextRun[] = [];
+  let offset = 0;
+
+  runs.forEach((run) => {
+    const runStart = offset;
+    const runEnd = offset + run.text.length;
+    offset = runEnd;
+
+    const from = Math.max(start, runStart);
+    const to = Math.min(end, runEnd);
+    if (from < to) {
+      result.push({ ...run, text: run.text.slice(from - runStart, to - runStart) });
+    }
+  });
+
+  return result;
+};
+
+/**
+ * Apply a style to the character range [start, end).
+ * Keys set to `undefined` are removed, so runs fall back to the element's defaults.
+ */
+export const applyRunStyle = (
+  runs: TextRun[],
+  start: number,
+  end: number,
+  style: Partial<TextRunStyle>
+): TextRun[] => {
+  const length = getRunsText(runs).length;
+  const from = Math.max(0, Math.min(start, end));
+  const to = Math.min(length, Math.max(start, end));
+  if (from >= to) return runs;
+
+  const styled = sliceRuns(runs, from, to).map((run) => {
+    const next: TextRun = { ...run, ...style };
+    TEXT_RUN_STYLE_KEYS.forEach((key) => {
+      if (next[key] === undefined) delete next[key];
+    });
+    return next;
+  });
+
+  return normalizeRuns([...sliceRuns(runs, 0, from), ...styled, ...sliceRuns(runs, to, length)]);
+};
+
+/**
+ * Remove every inline style from the character range [start, end)
+ */
+export const clearRunStyle = (runs: TextRun[], start: number, end: number): TextRun[] =>
+  applyRunStyle(
+    runs,
+    start,
+    end,
+    Object.fromEntries(TEXT_RUN_STYLE_KEYS.map((key) => [key, undefined]))
+  );
+
+/**
+ * Style shared by every character in [start, end). Keys that differ are omitted.
+ * For a collapsed range, the style of the character before the caret is returned.
+ */
+export const getRangeStyle = (runs: TextRun[], start: number, end: number): TextRunStyle => {
+  const from = Math.min(start, end);
+  const to = Math.max(start, end);
+  const range =
+    from === to
+      ? sliceRuns(runs, Math.max(0, from - 1), Math.max(1, from))
+      : sliceRuns(runs, from, to);
+  if (range.length === 0) return {};
+
+  const style = getRunStyle(range[0]);
+  range.slice(1).forEach((run) => {
+    TEXT_RUN_STYLE_KEYS.forEach((key) => {
+      if (style[key] !== run[key]) delete style[key];
+    });
+  });
+  return style;
+};
+
+/**
+ * Replace the plain text of a list of runs, keeping the styles of unchanged text.
+ * Inserted text takes the style of the character before it.
+ */
+export const setRunsText = (runs: TextRun[], text: string): TextRun[] => {
+  const previous = getRunsText(runs);
+  if (previous === text) return runs;
+
+  // Find the changed region by trimming the common prefix and suffix
+  let prefix = 0;
+  const maxPrefix = Math.min(previous.length, text.length);
+  while (prefix < maxPrefix && previous[prefix] === text[prefix]) prefix++;
+
+  let suffix = 0;
+  const maxSuffix = Math.min(previous.length, text.length) - prefix;
+  while (
+    suffix < maxSuffix &&
+    previous[previous.length - 1 - suffix] === text[text.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const inserted = text.slice(prefix, text.length - suffix);
+  const style = getRangeStyle(runs, prefix, prefix);
+
+  return normalizeRuns([
+    ...sliceRuns(runs, 0, prefix),
+    { ...style, text: inserted },
+    ...sliceRuns(runs, previous.length - suffix, previous.length),
+  ]);
+};
+
+// ============================================================================
+// Layout
+// ============================================================================
+
+/** Measures the width of a string drawn with a canvas font */
+export type TextMeasurer = (text: string, font: string) => number;
+
+/**
+ * A styled piece of a laid out line, positioned relative to the element's top-left corner
+ */
+export interface RichTextFragment {
+  text: string;
+  x: number;
+  y: number;
+  width: number;
+  fontSize: number;
+  fontFamily: string;
+  /** Konva font style ("normal", "bold", "italic" or "italic bold") */
+  fontStyle: string;
+  /** Konva text decoration ("", "underline", "line-through" or both) */
+  textDecoration: string;
+  color: EditorFill;
+  /** Icon name for inline icon fragments, drawn as a square of `width` minus the letter spacing */
+  icon?: string;
+}
+
+export interface RichTextLine {
+  y: number;
+  width: number;
+  height: number;
+  fragments: RichTextFragment[];
+}
+
+export interface RichTextLayout {
+  lines: RichTextLine[];
+  /** Height of the laid out text */
+  height: number;
+}
+
+export interface RichTextLayoutOptions {
+  width: number;
+  height?: number;
+  fontSize: number;
+  fontFamily?: string;
+  color: EditorFill;
+  align?: "left" | "center" | "right";
+  verticalAlign?: "top" | "middle" | "bottom";
+  lineHeight?: number;
+  /** Extra space after every character and icon, in pixels */
+  letterSpacing?: number;
+  /** Konva font variant ("normal" or "small-caps") */
+  fontVariant?: string;
+  /** Override text measurement (defaults to a canvas 2D context) */
+  measure?: TextMeasurer;
+  /** Whether an icon token (`{name}`) resolves; matching tokens are laid out as inline icons */
+  hasIcon?: (name: string) => boolean;
+}
+
+/**
+ * Konva draws each line around its middle; this is the approximate distance from
+ * the middle to the alphabetic baseline, as a fraction of the font size.
+ * Fragments of different sizes are offset by it so they share a baseline.
+ */
+const MIDDLE_TO_BASELINE = 0.3;
+
+/**
+ * Canvas font string, built the same way Konva builds it for text nodes
+ */
+export const getCanvasFont = (
+  fontStyle: string,
+  fontSize: number,
+  fontFamily: string,
+  fontVariant = "normal"
+): string => {
+  const families = fontFamily
+    .split(",")
+    .map((family) => family.trim())
+    .map((family) =>
+      /^["'].*["']$/.test(family) || /^(serif|sans-serif|monospace|cursive|fantasy)$/.test(family)
+        ? family
+        : `"${family}"`
+    )
+    .join(", ");
+  return `${fontStyle} ${fontVariant} ${fontSize}px ${families}`;
+};
+
+let measureContext: CanvasRenderingContext2D | null | undefined;
+
+/**
+ * Measure text with a shared canvas 2D context.
+ * Falls back to an estimate when no canvas is available (e.g., server rendering).
+ */
+export const measureTextWidth: TextMeasurer = (text, font) => {
+  if (measureContext === undefined) {
+    measureContext =
+      typeof document !== "undefined" ? document.createElement("canvas").getContext("2d") : null;
+  }
+  if (measureContext) {
+    measureContext.font = font;
+    return measureContext.measureText(text).width;
+  }
+  const size = Number(/(\d+(?:\.\d+)?)px/.exec(font)?.[1] ?? 16);
+  return text.length * size * 0.5;
+};
+
+interface ResolvedStyle {
+  fontSize: number;
+  fontFamily: string;
+  fontStyle: string;
+  textDecoration: string;
+  color: EditorFill;
+}
+
+const resolveStyle = (run: TextRunStyle, options: RichTextLayoutOptions): ResolvedStyle => {
+  const decorations: string[] = [];
+  if (run.underline) decorations.push("underline");
+  if (run.strikethrough) decorations.push("line-through");
+
+  return {
+    fontSize: run.fontSize ?? options.fontSize,
+    fontFamily: run.fontFamily ?? options.fontFamily ?? "Arial",
+    fontStyle: `${run.italic ? "italic" : ""} ${run.bold ? "bold" : ""}`.trim() || "normal",
+    textDecoration: decorations.join(" "),
+    color: run.color ?? options.color,
+  };
+};
+
+interface Piece {
+  text: string;
+  width: number;
+  style: ResolvedStyle;
+  icon?: string;
+}
+
+/**
+ * Lay styled runs out into lines: words wrap at the box width, words longer than a line
+ * break between characters, and `\n` starts a new line. Inline icons are squares as tall
+ * as their run's line and flow like characters of the word they touch.
+ */
+export const layoutRichText = (
+  runs: TextRun[],
+  options: RichTextLayoutOptions
+): RichTextLayout => {
+  const measure = options.measure ?? measureTextWidth;
+  const lineHeight = options.lineHeight ?? 1.2;
+  const maxWidth = Math.max(0, options.width);
+  const letterSpacing = options.letterSpacing ?? 0;
+  const fontVariant = options.fontVariant ?? "normal";
+
+  // Konva adds the letter spacing after every character
+  const measurePiece = (text: string, style: ResolvedStyle): Piece => ({
+    text,
+    style,
+    width:
+      measure(text, getCanvasFont(style.fontStyle, style.fontSize, style.fontFamily, fontVariant)) +
+      Array.from(text).length * letterSpacing,
+  });
+
+  // Split every run into newlines, whitespace and words, keeping run boundaries
+  const tokens: { kind: "newline" | "space" | "word"; pieces: Piece[] }[] = [];
+  let openWord = false;
+  const pushPiece = (kind: "newline" | "space" | "word", piece: Piece) => {
+    // A word continuing across a style change or icon stays one unbreakable token
+    if (kind === "word" && openWord) {
+      tokens[tokens.length - 1].pieces.push(piece);
+    } else {
+      tokens.push({ kind, pieces: [piece] });
+    }
+    openWord = kind === "word";
+  };
+
+  runs.forEach((run) => {
+    const style = resolveStyle(run, options);
+    const segments = options.hasIcon
+      ? parseIconTokens(run.text, options.hasIcon)
+      : [{ text: run.text }];
+
+    segments.forEach((segment) => {
+      if (segment.icon) {
+        const size = style.fontSize * lineHeight;
+        const width = size + letterSpacing;
+        pushPiece("word", { text: segment.text, width, style, icon: segment.icon });
+        return;
+      }
+      (segment.text.match(/\n|[^\S\n]+|\S+/g) ?? []).forEach((part) => {
+        const kind = part === "\n" ? "newline" : /^\s/.test(part) ? "space" : "word";
+        pushPiece(kind, measurePiece(part, style));
+      });
+    });
+  });
+
+  const rawLines: Piece[][] = [[]];
+  let lineWidth = 0;
+  let pendingSpace: Piece[] = [];
+
+  const currentLine = () => rawLines[rawLines.length - 1];
+  const breakLine = () => {
+    rawLines.push([]);
+    lineWidth = 0;
+    pendingSpace = [];
+  };
+  const sumWidth = (pieces: Piece[]) => pieces.reduce((sum, piece) => sum + piece.width, 0);
+
+  tokens.forEach((token) => {
+    if (token.kind === "newline") {
+      breakLine();
+      return;
+    }
+    if (token.kind === "space") {
+      // Spaces only count once a word follows them on the same line
+      if (currentLine().length > 0) pendingSpace.push(...token.pieces);
+      return;
+    }
+
+    const wordWidth = sumWidth(token.pieces);
+    const spaceWidth = sumWidth(pendingSpace);
+    if (currentLine().length > 0 && lineWidth + spaceWidth + wordWidth > maxWidth) {
+      breakLine();
+    }
+
+    if (currentLine().length === 0 && wordWidth > maxWidth) {
+      // Break an overlong word between characters
+      token.pieces.forEach((piece) => {
+        const units = piece.icon
+          ? [piece]
+          : Array.from(piece.text, (char) => measurePiece(char, piece.style));
+        units.forEach((charPiece) => {
+          if (currentLine().length > 0 && lineWidth + charPiece.width > maxWidth) breakLine();
+          currentLine().push(charPiece);
+          lineWidth += charPiece.width;
+        });
+      });
+      return;
+    }
+
+    currentLine().push(...pendingSpace, ...token.pieces);
+    lineWidth += sumWidth(pendingSpace) + wordWidth;
+    pendingSpace = [];
+  });
+
+  // Position lines and merge neighbouring pieces that share a style into fragments
+  let y = 0;
+  const lines: RichTextLine[] = rawLines.map((pieces) => {
+    const maxFontSize = pieces.reduce(
+      (size, piece) => Math.max(size, piece.style.fontSize),
+      pieces.length > 0 ? 0 : options.fontSize
+    );
+    const height = maxFontSize * lineHeight;
+    const width = sumWidth(pieces);
+    const alignFactor = options.align === "center" ? 0.5 : options.align === "right" ? 1 : 0;
+    let x = (maxWidth - width) * alignFactor;
+
+    const fragments: RichTextFragment[] = [];
+    pieces.forEach((piece) => {
+      const previous = fragments[fragments.length - 1];
+      if (
+        previous &&
+        !previous.icon &&
+        !piece.icon &&
+        previous.fontSize === piece.style.fontSize &&
+        previous.fontFamily === piece.style.fontFamily &&
+        previous.fontStyle === piece.style.fontStyle &&
+        previous.textDecoration === piece.style.textDecoration &&
+        previous.color === piece.style.color
+      ) {
+        previous.text += piece.text;
+        previous.width += piece.width;
+      } else {
+        fragments.push({
+          ...piece.style,
+          text: piece.text,
+          width: piece.width,
+          ...(piece.icon && { icon: piece.icon }),
+          x,
+          // Share a baseline with the largest text on the line
+          y: y + (maxFontSize - piece.style.fontSize) * (lineHeight / 2 + MIDDLE_TO_BASELINE),
+        });
+      }
+      x += piece.width;
+    });
+
+    const line = { y, width, height, fragments };
+    y += height;
+    return line;
+  });
+
+  // Vertical alignment within the element box
+  const height = y;
+  const boxHeight = options.height ?? height;
+  const alignFactor =
+    options.verticalAlign === "middle" ? 0.5 : options.verticalAlign === "bottom" ? 1 : 0;
+  const offset = (boxHeight - height) * alignFactor;
+  if (offset !== 0) {
+    lines.forEach((line) => {
+      line.y += offset;
+      line.fragments.forEach((fragment) => (fragment.y += offset));
+    });
+  }
+
+  return { lines, height };
+};
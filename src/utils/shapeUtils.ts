@@ -0,0 +1,65 @@
+/**
+ * Shape Utilities
+ *
+ * Geometry helpers for the built-in shape elements. Shapes are computed in
+ * element-local coordinates so they fill the element box at any aspect ratio.
+ */
+
+import { ShapeDashStyle } from "../types";
+
+/**
+ * Dash pattern lengths for each preset, in multiples of the stroke width
+ */
+const DASH_PATTERNS: Record<ShapeDashStyle, number[]> = {
+  solid: [],
+  dashed: [4, 2],
+  dotted: [1, 1.5],
+  dashDot: [4, 1.5, 1, 1.5],
+};
+
+/**
+ * Get the Konva dash array for a dash preset, scaled by the stroke width
+ */
+export const getDashArray = (dash: ShapeDashStyle | undefined, strokeWidth = 1): number[] => {
+  const pattern = DASH_PATTERNS[dash ?? "solid"] ?? [];
+  const unit = Math.max(1, strokeWidth);
+  return pattern.map((length) => length * unit);
+};
+
+/**
+ * Get the vertices of a regular polygon inscribed in the ellipse of a box,
+ * with the first vertex at the top. Returns a flat [x1, y1, x2, y2, ...] array.
+ */
+export const getPolygonPoints = (sides: number, width: number, height: number): number[] => {
+  const count = Math.max(3, Math.round(sides));
+  const rx = width / 2;
+  const ry = height / 2;
+
+  return Array.from({ length: count }).flatMap((_, index) => {
+    const angle = (index / count) * Math.PI * 2 - Math.PI / 2;
+    return [rx + rx * Math.cos(angle), ry + ry * Math.sin(angle)];
+  });
+};
+
+/**
+ * Get the vertices of a star inscribed in the ellipse of a box, with the first
+ * point at the top. `innerRadius` is a fraction of the outer radius.
+ * Returns a flat [x1, y1, x2, y2, ...] array.
+ */
+export const getStarPoints = (
+  points: number,
+  innerRadius: number,
+  width: number,
+  height: number
+): number[] => {
+  const count = Math.max(3, Math.round(points));
+  const ratio = Math.min(1, Math.max(0, innerRadius));
+  const rx = width / 2;
+  const ry = height / 2;
+
+  return Array.from({ length: count * 2 }).flatMap((_, index) => {
+    const angle = (index / (count * 2)) * Math.PI * 2 - Math.PI / 2;
+    const scale = index % 2 === 0 ? 1 : ratio;
+    return [rx + rx * scale * Math.cos(angle), ry + ry * scale * Math.sin(angle)];
+  });
+};
@@ -42,7 +42,7 @@ export interface SnapOptions {
  * Note: In Konva (without offsetX/offsetY), rotation happens around the TOP-LEFT corner (x, y)
  * For snapping, we primarily care about the CENTER point, not the rotated edges
  */
-function getRotatedBounds(
+export function getRotatedBounds(
   x: number,
   y: number,
   width: number,
@@ -379,3 +379,79 @@ export function getSnappingPosition(
     horizontalGuides,
   };
 }
+
+export interface SelectionRect {
+  /** Left edge in canvas coordinates */
+  x: number;
+  /** Top edge in canvas coordinates */
+  y: number;
+  /** Width of the rectangle */
+  width: number;
+  /** Height of the rectangle */
+  height: number;
+}
+
+export interface MarqueeOptions {
+  /**
+   * "intersect" selects elements touching the rectangle,
+   * "contain" only selects elements fully inside it
+   */
+  mode?: "intersect" | "contain";
+}
+
+/**
+ * Build a normalized rectangle (positive width/height) from two corner points
+ */
+export function getRectFromPoints(
+  start: { x: number; y: number },
+  end: { x: number; y: number }
+): SelectionRect {
+  return {
+    x: Math.min(start.x, end.x),
+    y: Math.min(start.y, end.y),
+    width: Math.abs(end.x - start.x),
+    height: Math.abs(end.y - start.y),
+  };
+}
+
+/**
+ * Find the elements hit by a marquee (rubber-band) selection rectangle.
+ * Uses each element's rotated bounding box; hidden and locked elements are skipped.
+ */
+export function getElementsInRect(
+  elements: EditorElement[],
+  rect: SelectionRect,
+  options: MarqueeOptions = {}
+): EditorElement[] {
+  const { mode = "intersect" } = options;
+  const rectRight = rect.x + rect.width;
+  const rectBottom = rect.y + rect.height;
+
+  return elements.filter((element) => {
+    if (element.visible === false || element.locked === true) return false;
+
+    const bounds = getRotatedBounds(
+      element.position.x,
+      element.position.y,
+      element.size.width,
+      element.size.height,
+      element.rotation
+    );
+
+    if (mode === "contain") {
+      return (
+        bounds.left >= rect.x &&
+        bounds.right <= rectRight &&
+        bounds.top >= rect.y &&
+        bounds.bottom <= rectBottom
+      );
+    }
+
+    return !(
+      bounds.right < rect.x ||
+      bounds.left > rectRight ||
+      bounds.bottom < rect.y ||
+      bounds.top > rectBottom
+    );
+  });
+}
@@ -0,0 +1,99 @@
+/**
+ * Element Style Utilities
+ *
+ * Helpers for the styling every element shares (`EditorElement.style`): drop shadow, outer
+ * glow, blend mode and rounded corners. Shadow and glow are drawn as CSS filters on a cached
+ * bitmap of the element; blend mode and corners apply to the group around it.
+ */
+
+import { ElementStyle } from "../types";
+import { parseHexColor } from "./imageUtils";
+
+/** Blend modes offered by the inspector, as canvas composite operations */
+export const ELEMENT_BLEND_MODES: { value: GlobalCompositeOperation; label: string }[] = [
+  { value: "source-over", label: "Normal" },
+  { value: "multiply", label: "Multiply" },
+  { value: "screen", label: "Screen" },
+  { value: "overlay", label: "Overlay" },
+  { value: "darken", label: "Darken" },
+  { value: "lighten", label: "Lighten" },
+  { value: "color-dodge", label: "Color Dodge" },
+  { value: "color-burn", label: "Color Burn" },
+  { value: "hard-light", label: "Hard Light" },
+  { value: "soft-light", label: "Soft Light" },
+  { value: "difference", label: "Difference" },
+  { value: "exclusion", label: "Exclusion" },
+  { value: "hue", label: "Hue" },
+  { value: "saturation", label: "Saturation" },
+  { value: "color", label: "Color" },
+  { value: "luminosity", label: "Luminosity" },
+];
+
+/**
+ * Check whether a style draws a drop shadow (a color and a blur or an offset)
+ */
+export const hasElementShadow = (style: ElementStyle | undefined): boolean =>
+  !!style?.shadowColor &&
+  (style.shadowOpacity ?? 1) > 0 &&
+  ((style.shadowBlur ?? 0) > 0 || !!style.shadowOffsetX || !!style.shadowOffsetY);
+
+/**
+ * Check whether a style draws an outer glow
+ */
+export const hasElementGlow = (style: ElementStyle | undefined): boolean =>
+  !!style?.glowColor && (style.glowSize ?? 0) > 0 && (style.glowOpacity ?? 1) > 0;
+
+/**
+ * Apply an opacity to a hex color (other colors are used as they are)
+ */
+const withOpacity = (color: string, opacity: number): string => {
+  const rgb = parseHexColor(color);
+  if (!rgb || opacity >= 1) return color;
+  return `rgba(${rgb.r}, ${rgb.g}, ${rgb.b}, ${Math.max(0, opacity)})`;
+};
+
+/**
+ * Get the CSS filters drawing the shadow and glow of a style (empty without either)
+ */
+export const getElementStyleFilters = (style: ElementStyle | undefined): string[] => {
+  const filters: string[] = [];
+  if (!style) return filters;
+
+  if (hasElementGlow(style)) {
+    const color = withOpacity(style.glowColor!, style.glowOpacity ?? 1);
+    filters.push(`drop-shadow(0px 0px ${style.glowSize}px ${color})`);
+  }
+  if (hasElementShadow(style)) {
+    const color = withOpacity(style.shadowColor!, style.shadowOpacity ?? 1);
+    const x = style.shadowOffsetX ?? 0;
+    const y = style.shadowOffsetY ?? 0;
+    filters.push(`drop-shadow(${x}px ${y}px ${Math.max(0, style.shadowBlur ?? 0)}px ${color})`);
+  }
+  return filters;
+};
+
+/**
+ * Get how far the shadow and glow of a style reach beyond the element, in pixels.
+ * A CSS blur fades out within about its radius, so the radius is counted twice for safety.
+ */
+export const getElementStylePadding = (style: ElementStyle | undefined): number => {
+  let padding = 0;
+  if (hasElementGlow(style)) padding = (style!.glowSize ?? 0) * 2;
+  if (hasElementShadow(style)) {
+    const blur = Math.max(0, style!.shadowBlur ?? 0) * 2;
+    const offset = Math.max(
+      Math.abs(style!.shadowOffsetX ?? 0),
+      Math.abs(style!.shadowOffsetY ?? 0)
+    );
+    padding = Math.max(padding, blur + offset);
+  }
+  return Math.ceil(padding);
+};
+
+/**
+ * Get the corner radius clipping an element box, no larger than half of its sides
+ */
+export const getElementCornerRadius = (
+  style: ElementStyle | undefined,
+  size: { width: number; height: number }
+): number => Math.max(0, Math.min(style?.cornerRadius ?? 0, size.width / 2, size.height / 2));
@@ -0,0 +1,146 @@
+/**
+ * Text fitting utilities
+ *
+ * Shrink-to-fit font sizing and auto-height measurement for text elements.
+ * Text is measured with a detached Konva text node, so the result matches what is rendered.
+ */
+
+import Konva from "konva";
+import { layoutVerticalText } from "./typographyUtils";
+
+/**
+ * Size of a block of text laid out at a given font size
+ */
+export interface TextBlockSize {
+  /** Height of all wrapped lines */
+  height: number;
+
+  /**
+   * Width of the longest word (wider than the box means the word gets broken).
+   * For vertical text, the width of all columns.
+   */
+  wordWidth: number;
+}
+
+/**
+ * Measure a block of text at the given font size
+ */
+export type TextSizeMeasurer = (fontSize: number) => TextBlockSize;
+
+/**
+ * Text settings that affect layout, apart from the font size
+ */
+export interface TextMeasureOptions {
+  /** Wrapping width */
+  width: number;
+  fontFamily?: string;
+  fontStyle?: string;
+  fontVariant?: string;
+  lineHeight?: number;
+  letterSpacing?: number;
+}
+
+/**
+ * Font size bounds and box used by `fitFontSize`
+ */
+export interface TextFitOptions {
+  width: number;
+
+  /** Box height; omit to fit the width only (e.g., for auto-height text) */
+  height?: number;
+
+  minFontSize: number;
+  maxFontSize: number;
+
+  /** Stop searching once the bounds are this close (default: 0.25) */
+  precision?: number;
+}
+
+/** Default lower bound for shrink-to-fit text */
+export const DEFAULT_MIN_FONT_SIZE = 6;
+
+/**
+ * Create a measurer that lays out text with Konva's word wrapping.
+ * Konva only re-measures when an attribute changes, so each measurer uses its own detached
+ * node; create a new measurer after fonts load.
+ */
+export const createKonvaTextMeasurer = (
+  text: string,
+  options: TextMeasureOptions
+): TextSizeMeasurer => {
+  let measureNode: Konva.Text | null = null;
+  return (fontSize) => {
+    if (!measureNode) measureNode = new Konva.Text();
+    measureNode.setAttrs({
+      text,
+      width: Math.max(0, options.width),
+      height: undefined,
+      fontSize,
+      fontFamily: options.fontFamily || "Arial",
+      fontStyle: options.fontStyle || "normal",
+      fontVariant: options.fontVariant || "normal",
+      lineHeight: options.lineHeight ?? 1,
+      letterSpacing: options.letterSpacing ?? 0,
+      wrap: "word",
+      padding: 0,
+    });
+
+    const node = measureNode;
+    const letterSpacing = options.letterSpacing ?? 0;
+    const words = text.split(/\s+/).filter(Boolean);
+    // Konva wraps with the letter spacing included, but doesn't add it in `measureSize`
+    const measureWord = (word: string) =>
+      node.measureSize(word).width + Array.from(word).length * letterSpacing;
+    return {
+      height: node.height(),
+      wordWidth: words.reduce((max, word) => Math.max(max, measureWord(word)), 0),
+    };
+  };
+};
+
+/**
+ * Create a measurer for vertical text (see `layoutVerticalText`).
+ * Without a height, columns only break at line breaks.
+ */
+export const createVerticalTextMeasurer =
+  (
+    text: string,
+    options: { lineHeight: number; letterSpacing: number; height?: number }
+  ): TextSizeMeasurer =>
+  (fontSize) => {
+    const layout = layoutVerticalText(text, { ...options, fontSize });
+    return { height: layout.height, wordWidth: layout.width };
+  };
+
+/**
+ * Whether text measured at a font size fits the box without breaking words
+ */
+const fitsBox = (size: TextBlockSize, options: TextFitOptions): boolean =>
+  size.wordWidth <= options.width &&
+  (options.height === undefined || size.height <= options.height);
+
+/**
+ * Find the largest font size between the bounds at which the text fits the box.
+ * Returns `minFontSize` when the text doesn't fit even at the smallest size.
+ */
+export const fitFontSize = (measure: TextSizeMeasurer, options: TextFitOptions): number => {
+  const min = Math.max(0, Math.min(options.minFontSize, options.maxFontSize));
+  const max = Math.max(options.minFontSize, options.maxFontSize);
+  const precision = options.precision ?? 0.25;
+
+  if (fitsBox(measure(max), options)) return max;
+  if (!fitsBox(measure(min), options)) return min;
+
+  // Bisect, keeping `low` at a size that fits
+  let low = min;
+  let high = max;
+  while (high - low > precision) {
+    const mid = (low + high) / 2;
+    if (fitsBox(measure(mid), options)) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+  return Math.floor(low * 100) / 100;
+};
@@ -0,0 +1,167 @@
+/**
+ * Typography utilities
+ *
+ * Defaults and helpers for the extended text styling of text elements: line height,
+ * letter spacing, padding, text transform, shadows and vertical writing.
+ */
+
+import { ElementStyle, TextElementProps, TextTransform, TextWritingMode } from "../types";
+import { parseIconTokens } from "./iconUtils";
+import { hasElementShadow } from "./styleUtils";
+
+/**
+ * Typography of a text element with every setting resolved
+ */
+export interface TextTypography {
+  lineHeight: number;
+  letterSpacing: number;
+  padding: number;
+  textTransform: TextTransform;
+  writingMode: TextWritingMode;
+}
+
+/**
+ * Typography used for settings a text element doesn't store (e.g., JSON saved before
+ * they existed). Matches how text was drawn before: Konva's defaults.
+ */
+export const DEFAULT_TEXT_TYPOGRAPHY: TextTypography = {
+  lineHeight: 1,
+  letterSpacing: 0,
+  padding: 0,
+  textTransform: "none",
+  writingMode: "horizontal",
+};
+
+/**
+ * Resolve the typography of text element props, filling in defaults
+ */
+export const getTextTypography = (props: Partial<TextElementProps>): TextTypography => ({
+  lineHeight: props.lineHeight ?? DEFAULT_TEXT_TYPOGRAPHY.lineHeight,
+  letterSpacing: props.letterSpacing ?? DEFAULT_TEXT_TYPOGRAPHY.letterSpacing,
+  padding: Math.max(0, props.padding ?? DEFAULT_TEXT_TYPOGRAPHY.padding),
+  textTransform: props.textTransform ?? DEFAULT_TEXT_TYPOGRAPHY.textTransform,
+  writingMode: props.writingMode ?? DEFAULT_TEXT_TYPOGRAPHY.writingMode,
+});
+
+/**
+ * Konva shadow settings of a text element. The shadow is drawn when it has a color and
+ * a blur or an offset.
+ */
+export interface TextShadowStyle {
+  shadowColor?: string;
+  shadowBlur: number;
+  shadowOffsetX: number;
+  shadowOffsetY: number;
+  shadowOpacity: number;
+  shadowEnabled: boolean;
+}
+
+/**
+ * Resolve the Konva shadow settings of text element props. A shadow in the element's
+ * common style takes precedence, so the text's own shadow is disabled next to it.
+ */
+export const getTextShadowStyle = (
+  props: Partial<TextElementProps>,
+  style?: ElementStyle
+): TextShadowStyle => ({
+  shadowColor: props.shadowColor,
+  shadowBlur: props.shadowBlur ?? 0,
+  shadowOffsetX: props.shadowOffsetX ?? 0,
+  shadowOffsetY: props.shadowOffsetY ?? 0,
+  shadowOpacity: props.shadowOpacity ?? 1,
+  shadowEnabled:
+    !hasElementShadow(style) &&
+    !!props.shadowColor &&
+    ((props.shadowBlur ?? 0) > 0 || !!props.shadowOffsetX || !!props.shadowOffsetY),
+});
+
+const transformSegment = (text: string, transform: TextTransform): string => {
+  switch (transform) {
+    case "uppercase":
+      return text.toUpperCase();
+    case "lowercase":
+      return text.toLowerCase();
+    case "capitalize":
+      return text.replace(/(^|\s)(\S)/g, (_, space: string, char: string) =>
+        space + char.toUpperCase()
+      );
+    default:
+      // Small caps are drawn with the font variant, not by changing the text
+      return text;
+  }
+};
+
+/**
+ * Apply a text transform to displayed text. Icon tokens that resolve (see `hasIcon`)
+ * are left as they are, so `{attack}` still finds its icon in uppercase text.
+ */
+export const applyTextTransform = (
+  text: string,
+  transform: TextTransform = "none",
+  hasIcon?: (name: string) => boolean
+): string => {
+  if (transform === "none" || transform === "smallCaps") return text;
+  if (!hasIcon) return transformSegment(text, transform);
+
+  // Transform the text between tokens; a token starts a new word for `capitalize`
+  return parseIconTokens(text, hasIcon)
+    .map((segment) => (segment.icon ? segment.text : transformSegment(segment.text, transform)))
+    .join("");
+};
+
+/**
+ * Split text into the columns of vertical writing. Each column lists its characters
+ * from top to bottom; columns break at line breaks and after `maxChars` characters.
+ */
+export const getVerticalColumns = (text: string, maxChars = Infinity): string[][] => {
+  const limit = Math.max(1, Math.floor(maxChars));
+  return text.split("\n").flatMap((line) => {
+    const chars = Array.from(line).filter((char) => char !== "\r");
+    if (chars.length === 0) return [[]];
+    const columns: string[][] = [];
+    for (let start = 0; start < chars.length; start += limit) {
+      columns.push(chars.slice(start, start + limit));
+    }
+    return columns;
+  });
+};
+
+/**
+ * Vertical text laid out into columns
+ */
+export interface VerticalTextLayout {
+  /** Columns from right to left, each listing its characters from top to bottom */
+  columns: string[][];
+
+  /** Distance between the tops of neighbouring characters in a column */
+  step: number;
+
+  /** Distance between neighbouring columns */
+  pitch: number;
+
+  /** Size of all columns */
+  width: number;
+  height: number;
+}
+
+/**
+ * Lay vertical text out into columns. Characters advance by the font size plus the letter
+ * spacing and columns by the line height; columns break when they would be taller than
+ * `height` (when given).
+ */
+export const layoutVerticalText = (
+  text: string,
+  options: { fontSize: number; lineHeight: number; letterSpacing: number; height?: number }
+): VerticalTextLayout => {
+  const step = Math.max(1, options.fontSize + options.letterSpacing);
+  const pitch = options.fontSize * options.lineHeight;
+  const maxChars = options.height === undefined ? Infinity : options.height / step;
+  const columns = getVerticalColumns(text, maxChars);
+  return {
+    columns,
+    step,
+    pitch,
+    width: columns.length * pitch,
+    height: columns.reduce((max, column) => Math.max(max, column.length), 0) * step,
+  };
+};